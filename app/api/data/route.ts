@@ -1,263 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ClobClient } from '@polymarket/clob-client';
-import axios from 'axios';
-import { PolymarketMarket, PricePoint, Trade } from '@/types';
-import {
-  buildMarketHistoricalData,
-  flattenPricePoints,
-  flattenTrades,
-  calculateVolumeFromTrades,
-  estimateLiquidityFromTrades,
-} from '@/lib/subgraph/dataTransformer';
+import { getSyncState, queryMarkets } from '@/lib/datastore/markets';
+import { ensureSynced } from '@/lib/datastore/sync';
 
-const GAMMA_API = 'https://gamma-api.polymarket.com';
-
-// Initialize CLOB client (read-only mode)
-const clobClient = new ClobClient(
-  'https://clob.polymarket.com',
-  137, // Polygon mainnet
-  undefined, // No private key needed for read-only
-  undefined
-);
+const numberParam = (value: string | null) => (value ? parseFloat(value) : undefined);
+const dateParam = (value: string | null) => (value ? new Date(value) : undefined);
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '20');
-    const includeResolved = searchParams.get('resolved') === 'true';
-    const useSubgraph = searchParams.get('useSubgraph') !== 'false'; // Default to true
-
-    console.log(`Fetching ${limit} markets, resolved: ${includeResolved}, useSubgraph: ${useSubgraph}`);
-
-    // Fetch markets from Gamma API
-    const marketsResponse = await axios.get(`${GAMMA_API}/markets`, {
-      params: {
-        limit,
-        active: !includeResolved,
-        closed: includeResolved,
-      },
-      timeout: 10000,
+    const resolved = searchParams.get('resolved') || 'false';
+    await ensureSynced();
+
+    const markets = await queryMarkets({
+      limit: parseInt(searchParams.get('limit') || '20'),
+      offset: parseInt(searchParams.get('offset') || '0'),
+      resolved: resolved === 'all' ? undefined : resolved === 'true',
+      category: searchParams.get('category') || undefined,
+      search: searchParams.get('search') || undefined,
+      minVolume: numberParam(searchParams.get('minVolume')),
+      minLiquidity: numberParam(searchParams.get('minLiquidity')),
+      endAfter: dateParam(searchParams.get('endAfter')),
+      endBefore: dateParam(searchParams.get('endBefore')),
+      groupEvents: searchParams.get('groupEvents') !== 'false', // Default to true
+      realDataOnly: searchParams.get('realDataOnly') === 'true',
     });
-
-    const rawMarkets = marketsResponse.data;
-    console.log(`Fetched ${rawMarkets.length} markets from Gamma API`);
-
-    const markets: PolymarketMarket[] = [];
-
-    // Process markets without fetching heavy price/trade data (causes timeout)
-    for (const market of rawMarkets) {
-      try {
-        // Parse outcomes (comes as string from API)
-        let outcomes = ['Yes', 'No'];
-        try {
-          if (typeof market.outcomes === 'string') {
-            outcomes = JSON.parse(market.outcomes);
-          } else if (Array.isArray(market.outcomes)) {
-            outcomes = market.outcomes;
-          }
-        } catch (e) {
-          console.error('Error parsing outcomes:', e);
-        }
-
-        // Parse outcome prices
-        let outcomePrices = [0.5, 0.5];
-        try {
-          if (typeof market.outcomePrices === 'string') {
-            outcomePrices = JSON.parse(market.outcomePrices).map((p: string) => parseFloat(p) || 0.5);
-          } else if (Array.isArray(market.outcomePrices)) {
-            outcomePrices = market.outcomePrices.map((p: any) => parseFloat(p) || 0.5);
-          }
-        } catch (e) {
-          console.error('Error parsing outcomePrices:', e);
-        }
-
-        const conditionId = market.conditionId;
-        const tokenIds = market.clobTokenIds || [];
-
-        console.log(`Market ${market.question}: conditionId = ${conditionId}, useSubgraph = ${useSubgraph}`);
-
-        let historicalPrices: PricePoint[] = [];
-        let trades: Trade[] = [];
-        let volume = parseFloat(market.volumeNum || market.volume || 0);
-        let liquidity = parseFloat(market.liquidityNum || market.liquidity || 0);
-
-        // Ensure minimum realistic liquidity if none provided
-        if (liquidity === 0) {
-          // Generate realistic liquidity between $50k-$300k
-          liquidity = Math.random() * 250000 + 50000;
-        }
-
-        // Try to fetch real data from subgraph if enabled and we have a condition ID
-        if (useSubgraph && conditionId) {
-          try {
-            console.log(`Fetching subgraph data for condition ${conditionId}...`);
-
-            const { historicalPrices: pricesArray, trades: tradesArray } =
-              await buildMarketHistoricalData(conditionId, outcomes);
-
-            console.log(`Subgraph returned ${pricesArray.length} price arrays and ${tradesArray.length} trade arrays`);
-
-            if (pricesArray.length > 0 || tradesArray.length > 0) {
-              // Flatten the arrays (combine all outcomes)
-              historicalPrices = flattenPricePoints(pricesArray);
-              trades = flattenTrades(tradesArray);
-
-              console.log(`After flattening: ${historicalPrices.length} prices and ${trades.length} trades`);
-
-              // Calculate volume and liquidity from trades if not provided
-              if (volume === 0 && trades.length > 0) {
-                volume = calculateVolumeFromTrades(trades);
-              }
-              if (liquidity === 0 && trades.length > 0) {
-                liquidity = estimateLiquidityFromTrades(trades);
-                // Ensure minimum liquidity of $50k
-                if (liquidity < 50000) {
-                  liquidity = Math.random() * 250000 + 50000;
-                }
-              }
-
-              console.log(
-                `✓ Fetched ${historicalPrices.length} prices and ${trades.length} trades from subgraph`
-              );
-            } else {
-              console.log(`⚠ No subgraph data found for condition ${conditionId}, using synthetic data`);
-            }
-          } catch (error) {
-            console.error(`Error fetching subgraph data for ${conditionId}:`, error);
-            console.log('Falling back to synthetic data');
-          }
-        }
-
-        // Generate synthetic data if we don't have real data
-        if (historicalPrices.length === 0 || trades.length === 0) {
-          const currentPrice = outcomePrices[0] || 0.5;
-          const now = new Date();
-
-          // Generate 500 historical price points (last 500 hours = ~21 days) for EACH outcome
-          // Include realistic price movements with occasional spikes
-          historicalPrices = [];
-          let yesPrice = currentPrice;
-          for (let i = 500; i >= 0; i--) {
-            const timestamp = new Date(now.getTime() - i * 60 * 60 * 1000);
-
-            // 5% chance of a price spike (for spike detection strategy)
-            const hasSpike = Math.random() < 0.05;
-            const spikeAmount = hasSpike ? (Math.random() - 0.5) * 0.15 : 0;
-
-            // Normal variation + potential spike
-            const variation = (Math.random() - 0.5) * 0.08 + spikeAmount;
-            yesPrice = Math.max(0.05, Math.min(0.95, yesPrice + variation));
-
-            // Add price for Yes outcome
-            historicalPrices.push({
-              timestamp,
-              price: yesPrice,
-              outcome: outcomes[0] || 'Yes',
-            });
-
-            // Add complementary price for No outcome (should roughly sum to 1)
-            historicalPrices.push({
-              timestamp,
-              price: Math.max(0.05, Math.min(0.95, 1 - yesPrice)),
-              outcome: outcomes[1] || 'No',
-            });
-          }
-
-          // Generate 1250 synthetic trades (5x increase) with mix of regular and whale trades
-          trades = [];
-          let totalVolume = 0;
-          const numTrades = 1250;
-          for (let i = 0; i < numTrades; i++) {
-            const timestamp = new Date(now.getTime() - i * 3 * 60 * 1000); // Every 3 minutes (more frequent)
-            const side = Math.random() > 0.5 ? 'buy' : 'sell';
-
-            // 35% chance of whale trade (>$1000), otherwise regular trade
-            const isWhale = Math.random() > 0.65;
-            const amount = isWhale
-              ? Math.random() * 9000 + 1000  // $1000-$10000 for whales
-              : Math.random() * 900 + 50;    // $50-$950 for regular trades
-
-            // Randomly pick an outcome for this trade
-            const tradeOutcome = Math.random() > 0.5 ? outcomes[0] : outcomes[1];
-
-            // Use price from corresponding historical point if available
-            const priceIndex = Math.floor((i / numTrades) * historicalPrices.length);
-            const referencePrice = historicalPrices[priceIndex]?.price || currentPrice;
-            const price = Math.max(0.01, Math.min(0.99, referencePrice + (Math.random() - 0.5) * 0.03));
-
-            totalVolume += amount;
-
-            trades.push({
-              timestamp,
-              side: side as 'buy' | 'sell',
-              amount,
-              price,
-              outcome: tradeOutcome || 'Yes',
-              maker: '0x' + Math.random().toString(16).substr(2, 40),
-              taker: '0x' + Math.random().toString(16).substr(2, 40),
-            });
-          }
-
-          // Set volume based on total trade amounts if not already set
-          if (volume === 0) {
-            volume = totalVolume;
-          }
-        }
-
-        // For resolved/closed markets, set a synthetic resolved outcome if not present
-        let resolvedOutcome = market.outcome || null;
-        if (includeResolved && !resolvedOutcome && market.closed) {
-          // For demo purposes, randomly assign an outcome for closed markets
-          resolvedOutcome = outcomes[Math.random() > 0.5 ? 0 : 1] || 'Yes';
-          console.log(`Synthetic resolved outcome for ${market.question}: ${resolvedOutcome}`);
-        }
-
-        markets.push({
-          marketId: market.id || market.conditionId,
-          question: market.question || market.description,
-          outcomes: outcomes,
-          resolutionDate: market.endDateIso
-            ? new Date(market.endDateIso)
-            : null,
-          historicalPrices,
-          trades,
-          resolvedOutcome,
-          volume,
-          liquidity,
-          active: market.active !== false && market.closed !== true,
-          endDate: market.endDateIso ? new Date(market.endDateIso) : null,
-          image: market.image,
-          category: market.category,
-        });
-      } catch (error) {
-        console.error(`Error processing market ${market.id}:`, error);
-        // Continue with other markets
-      }
-    }
-
-    console.log(`Successfully processed ${markets.length} markets`);
-
-    // Debug: Log resolved market stats
-    const resolvedCount = markets.filter(m => m.resolvedOutcome !== null).length;
-    console.log(`Resolved markets: ${resolvedCount}/${markets.length}`);
-    if (includeResolved && resolvedCount > 0) {
-      console.log('Sample resolved market:', {
-        question: markets.find(m => m.resolvedOutcome)?.question,
-        outcome: markets.find(m => m.resolvedOutcome)?.resolvedOutcome,
-        trades: markets.find(m => m.resolvedOutcome)?.trades.length,
-        prices: markets.find(m => m.resolvedOutcome)?.historicalPrices.length,
-      });
-    }
+    const { lastSyncAt } = await getSyncState();
 
     return NextResponse.json({
       markets,
       timestamp: new Date().toISOString(),
       count: markets.length,
+      lastSyncAt,
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error fetching Polymarket data:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch data', details: error.message },
+      { error: 'Failed to fetch data', details: (error as Error).message },
       { status: 500 }
     );
   }
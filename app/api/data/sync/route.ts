@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyncState } from '@/lib/datastore/markets';
+import { SyncOptions, syncMarkets } from '@/lib/datastore/sync';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getSyncState());
+  } catch (error) {
+    console.error('Error reading market sync state:', error);
+    return NextResponse.json(
+      { error: 'Failed to read sync state', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sync the market store; the body may override the `SyncOptions`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const options: Partial<SyncOptions> = {};
+    if (typeof body.unresolvedLimit === 'number') options.unresolvedLimit = body.unresolvedLimit;
+    if (typeof body.resolvedLimit === 'number') options.resolvedLimit = body.resolvedLimit;
+    if (typeof body.useSubgraph === 'boolean') options.useSubgraph = body.useSubgraph;
+
+    return NextResponse.json(await syncMarkets(options));
+  } catch (error) {
+    console.error('Error syncing markets:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync markets', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
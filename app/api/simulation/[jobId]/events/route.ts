@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SimulationJobEvent } from '@/types';
+import { getJob, isActive, subscribe } from '@/lib/simulation/jobs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server-sent events for one job: a snapshot of the job, then its logs,
+ * progress and status changes until it stops running
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = await getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Simulation job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  let streamController: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let closed = false;
+
+  // Stop listening; a stream the client cancelled must not be closed again
+  const stop = () => {
+    closed = true;
+    unsubscribe();
+    request.signal.removeEventListener('abort', close);
+  };
+  const close = () => {
+    if (closed) return;
+    stop();
+    streamController?.close();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      streamController = controller;
+      const send = (event: SimulationJobEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      send({ type: 'snapshot', job });
+      if (!isActive(job.status)) {
+        close();
+        return;
+      }
+
+      unsubscribe = subscribe(jobId, (event) => {
+        send(event);
+        if (event.type === 'status' && !isActive(event.status)) close();
+      });
+      request.signal.addEventListener('abort', close);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
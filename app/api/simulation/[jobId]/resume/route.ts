@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resumeJob } from '@/lib/simulation/jobs';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  try {
+    const job = await resumeJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Simulation job not found' }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to resume simulation', details: (error as Error).message },
+      { status: 409 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '@/lib/simulation/jobs';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = await getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Simulation job not found' }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
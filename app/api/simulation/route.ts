@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listJobs, startJob } from '@/lib/simulation/jobs';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ jobs: await listJobs() });
+  } catch (error) {
+    console.error('Error listing simulation jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list simulation jobs', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const job = await startJob(await request.json());
+    return NextResponse.json(job, { status: 201 });
+  } catch (error) {
+    console.error('Error starting simulation job:', error);
+    return NextResponse.json(
+      { error: 'Failed to start simulation', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setStrategyEnabled } from '@/lib/strategies/registry';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ strategyId: string }> }
+) {
+  const { strategyId } = await params;
+  const strategy = await setStrategyEnabled(strategyId, true);
+  if (!strategy) {
+    return NextResponse.json({ error: 'Strategy not found' }, { status: 404 });
+  }
+  return NextResponse.json(strategy);
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteStrategy, getStrategy, updateStrategy } from '@/lib/strategies/registry';
+
+type Params = { params: Promise<{ strategyId: string }> };
+
+const notFound = () => NextResponse.json({ error: 'Strategy not found' }, { status: 404 });
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  const { strategyId } = await params;
+  const strategy = await getStrategy(strategyId);
+  return strategy ? NextResponse.json(strategy) : notFound();
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { strategyId } = await params;
+  try {
+    const strategy = await updateStrategy(strategyId, await request.json());
+    return strategy ? NextResponse.json(strategy) : notFound();
+  } catch (error) {
+    console.error(`Error updating strategy ${strategyId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to update strategy', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const { strategyId } = await params;
+  try {
+    return (await deleteStrategy(strategyId)) ? new NextResponse(null, { status: 204 }) : notFound();
+  } catch (error) {
+    console.error(`Error deleting strategy ${strategyId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to delete strategy', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
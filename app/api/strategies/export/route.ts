@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportStrategies } from '@/lib/strategies/registry';
+
+// GET /api/strategies/export?ids=a,b downloads those strategies, or all without `ids`
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const ids = searchParams.get('ids');
+  const file = await exportStrategies(ids ? ids.split(',') : undefined);
+  const date = file.exportedAt.toISOString().slice(0, 10);
+
+  return new NextResponse(JSON.stringify(file, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="strategies-${date}.json"`,
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importStrategies } from '@/lib/strategies/registry';
+
+export async function POST(request: NextRequest) {
+  try {
+    return NextResponse.json(await importStrategies(await request.json()));
+  } catch (error) {
+    console.error('Error importing strategies:', error);
+    return NextResponse.json(
+      { error: 'Failed to import strategies', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
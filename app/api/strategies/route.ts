@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStrategy, listStrategies } from '@/lib/strategies/registry';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ strategies: await listStrategies() });
+  } catch (error) {
+    console.error('Error listing strategies:', error);
+    return NextResponse.json(
+      { error: 'Failed to list strategies', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const strategy = await createStrategy(await request.json());
+    return NextResponse.json(strategy, { status: 201 });
+  } catch (error) {
+    console.error('Error creating strategy:', error);
+    return NextResponse.json(
+      { error: 'Failed to create strategy', details: (error as Error).message },
+      { status: 400 }
+    );
+  }
+}
@@ -4,34 +4,66 @@ import { useEffect, useState } from 'react';
 import axios from 'axios';
 import { useStore } from '@/stores/useStore';
 import { BacktestEngine } from '@/lib/backtesting/engine';
+import { DEFAULT_RISK_LIMITS } from '@/lib/risk';
 import { MarketOverview } from '@/components/MarketOverview';
 import { AnalysisCharts } from '@/components/AnalysisCharts';
 import { StrategyBenchmarks } from '@/components/StrategyBenchmarks';
 import { EarningsChart } from '@/components/EarningsChart';
 import { SimulationControls } from '@/components/SimulationControls';
+import { OptimizationReport } from '@/components/OptimizationReport';
+import { StrategyLineage } from '@/components/StrategyLineage';
+import { StrategyLibrary } from '@/components/StrategyLibrary';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { COPY_TRADING_PARAMETER_RANGES } from '@/lib/strategies';
+import { fromStrategyDefinition } from '@/lib/strategies/definitions';
+import { latestVersion, rollbackToVersion } from '@/lib/strategies/versions';
+import { VALIDATION_OPTIONS } from '@/lib/simulation/options';
+import { isRealData } from '@/lib/provenance';
+import {
+  BacktestResult,
+  OptimizationResult,
+  RegisteredStrategy,
+  SearchMethod,
+  SimulationJob,
+  Strategy,
+} from '@/types';
+
+// Trials for random and Bayesian search; grid search sweeps the first two
+// copy trading parameters only, since the full grid runs thousands of backtests
+const OPTIMIZER_ITERATIONS = 30;
+const GRID_PARAMETERS = 2;
+
+// The enabled registry strategies. Generated code only compiles in the
+// server's sandbox, so those come back `uncompiled` and are not backtested here.
+const activeStrategies = (registered: RegisteredStrategy[]) =>
+  registered.filter((s) => s.enabled).map((s) => fromStrategyDefinition(s));
 
 export default function Home() {
   const {
     markets,
     strategies,
+    strategyVersions,
     backtestResults,
-    benchmarks,
     historicalStats,
     isLoading,
     error,
-    simulation,
     setMarkets,
     setStrategies,
+    setStrategyVersions,
     setBacktestResults,
     setBenchmarks,
     setHistoricalStats,
     setLoading,
     setError,
-    setSimulation,
   } = useStore();
+  const [optimization, setOptimization] = useState<OptimizationResult | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [optimizerTrials, setOptimizerTrials] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  // Backtest, optimise and simulate on markets whose data is all real
+  const [realDataOnly, setRealDataOnly] = useState(false);
 
   // Initial data load - runs once on mount
   useEffect(() => {
@@ -53,15 +85,14 @@ export default function Home() {
     try {
       console.log('Starting data load...');
 
-      // Fetch Polymarket data (including resolved markets for backtesting)
-      // EXTREME data load for comprehensive backtesting
-      // Disable subgraph temporarily for faster loading
+      // Read open and resolved markets from the local market store, which
+      // syncs from Polymarket on first use; resolved ones feed the backtests
       console.log('Fetching unresolved markets...');
-      const unresolvedRes = await axios.get('/api/data?limit=500&resolved=false&useSubgraph=false', { timeout: 120000 });
+      const unresolvedRes = await axios.get('/api/data?limit=500&resolved=false', { timeout: 120000 });
       console.log('✅ Unresolved markets fetched');
 
-      console.log('Fetching resolved markets (loading MASSIVE dataset - 2000 markets)...');
-      const resolvedRes = await axios.get('/api/data?limit=2000&resolved=true&useSubgraph=false', { timeout: 180000 });
+      console.log('Fetching up to 2000 resolved markets...');
+      const resolvedRes = await axios.get('/api/data?limit=2000&resolved=true', { timeout: 180000 });
       console.log('✅ Resolved markets fetched');
 
       console.log('✅ API Response received');
@@ -94,6 +125,16 @@ export default function Home() {
       console.log('Total markets:', allMarkets.length);
       setMarkets(allMarkets);
 
+      // Strategies saved on the server; the built-in defaults if the registry is unavailable
+      let strategyPool = strategies;
+      try {
+        const registryRes = await axios.get('/api/strategies');
+        strategyPool = activeStrategies(registryRes.data.strategies);
+        setStrategies(strategyPool);
+      } catch (err) {
+        console.warn('⚠️ Could not load the strategy registry, using defaults:', err);
+      }
+
       // Calculate historical stats
       const stats = BacktestEngine.calculateHistoricalStats(allMarkets);
       console.log('Historical stats:', stats);
@@ -101,7 +142,7 @@ export default function Home() {
 
       // Run initial backtests
       console.log('Running backtests...');
-      await runBacktests(allMarkets);
+      await runBacktests(allMarkets, strategyPool);
       console.log('Data load complete!');
     } catch (err: any) {
       console.error('❌ Error loading data:', err);
@@ -114,13 +155,42 @@ export default function Home() {
     }
   };
 
-  const runBacktests = async (marketsData = markets) => {
+  // Pull new and resolved markets into the store, then reload from it
+  const handleSync = async () => {
+    setIsSyncing(true);
+    setError(null);
+    try {
+      const { data } = await axios.post('/api/data/sync', {}, { timeout: 600000 });
+      console.log(`✅ Market sync: ${data.marketsAdded} added, ${data.marketsUpdated} updated`);
+      await loadData();
+    } catch (err) {
+      console.error('❌ Error syncing markets:', err);
+      setError(
+        axios.isAxiosError(err)
+          ? err.response?.data?.details || err.message
+          : 'Failed to sync markets'
+      );
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const runBacktests = async (
+    marketsData = markets,
+    strategyPool: Strategy[] = strategies,
+    realOnly = realDataOnly
+  ) => {
     try {
       console.log('Running backtests on', marketsData.length, 'markets...');
-      const results = strategies.map((strategy) => {
+      const results: BacktestResult[] = [];
+      for (const strategy of strategyPool.filter((s) => !s.uncompiled)) {
         console.log('Backtesting strategy:', strategy.name);
-        return BacktestEngine.backtest(strategy, marketsData);
-      });
+        const validation = await BacktestEngine.validate(strategy, marketsData, {
+          ...VALIDATION_OPTIONS,
+          realDataOnly: realOnly,
+        });
+        results.push(validation.combined);
+      }
 
       console.log('Backtest results:', results);
       setBacktestResults(results);
@@ -143,350 +213,73 @@ export default function Home() {
     }
   };
 
-  const startSimulation = async (epochs: number) => {
-    // Maintain local state to avoid closure issues
-    let currentStrategies = [...strategies];
-    let currentLogs: string[] = ['🚀 Starting AI Self-Improvement Simulation...', 'Initial strategy pool: ' + currentStrategies.length + ' strategies'];
-
-    setSimulation({
-      isRunning: true,
-      currentEpoch: 0,
-      totalEpochs: epochs,
-      progress: 0,
-      logs: currentLogs,
-    });
-
-    // Store epoch results for comparison
-    const epochResults: { [epoch: number]: BacktestResult[] } = {};
-
-    for (let epoch = 1; epoch <= epochs; epoch++) {
-      currentLogs = [
-        ...currentLogs,
-        `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
-        `🔄 EPOCH ${epoch}/${epochs}`,
-        `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
-      ];
-
-      setSimulation({
-        currentEpoch: epoch,
-        progress: Math.round((epoch / epochs) * 100),
-        logs: currentLogs,
-      });
-
-      // Run backtests for current strategies
-      console.log(`[Epoch ${epoch}] Running backtests on ${currentStrategies.length} strategies...`);
-      const currentResults = currentStrategies.map((strategy) => {
-        return BacktestEngine.backtest(strategy, markets);
-      });
-
-      setBacktestResults(currentResults);
-
-      // Store results for this epoch
-      epochResults[epoch] = [...currentResults];
-
-      // Log results for each strategy
-      currentLogs.push('📊 Strategy Performance:');
-      currentResults.forEach((result) => {
-        const prevEpochResult = epoch > 1 ? epochResults[epoch - 1]?.find(r => r.strategyId === result.strategyId) : null;
-        const roiChange = prevEpochResult ? (result.roi - prevEpochResult.roi).toFixed(1) : '0.0';
-        const changeIcon = parseFloat(roiChange) > 0 ? '📈' : parseFloat(roiChange) < 0 ? '📉' : '➡️';
-
-        currentLogs.push(`  ${changeIcon} ${result.strategyName}:`);
-        currentLogs.push(`     ROI: ${result.roi.toFixed(1)}% ${epoch > 1 ? `(${roiChange > 0 ? '+' : ''}${roiChange}%)` : ''}`);
-        currentLogs.push(`     Win Rate: ${result.winRate.toFixed(1)}% | Bets: ${result.totalBets} | Profit: $${result.netProfit.toFixed(2)}`);
-      });
-
-      setSimulation({
-        logs: currentLogs,
-      });
-
-      // Use OpenAI to improve underperforming strategies
-      try {
-        // Sort to find worst performing strategy
-        const sortedResults = [...currentResults].sort((a, b) => a.roi - b.roi);
-        const worstStrategy = sortedResults[0];
-        const worstStrategyDef = currentStrategies.find((s) => s.id === worstStrategy.strategyId);
-
-        if (worstStrategy && worstStrategyDef && worstStrategy.roi < 50) {
-          // Get the current code of the strategy (if it exists)
-          const currentCode = worstStrategyDef.generateBets.toString();
-
-          currentLogs = [
-            ...currentLogs,
-            `\n🔧 Improving worst performer: ${worstStrategy.strategyName}`,
-            `   Current ROI: ${worstStrategy.roi.toFixed(1)}% | Win Rate: ${worstStrategy.winRate.toFixed(1)}%`,
-            `   Total Bets: ${worstStrategy.totalBets} ${worstStrategy.totalBets === 0 ? '⚠️ GENERATING ZERO BETS!' : ''}`,
-          ];
-
-          setSimulation({
-            logs: currentLogs,
-          });
-
-          const improvementResponse = await axios.post('/api/openai', {
-            action: 'improve_strategy',
-            data: {
-              strategy: worstStrategyDef,
-              performance: worstStrategy,
-              historicalStats,
-              currentCode: currentCode, // Pass the actual current code
-              previousEpochResults: epoch > 1 ? epochResults[epoch - 1] : null,
-            },
-          });
-
-          const improvements = improvementResponse.data;
-
-          // Log the generated code for debugging
-          if (improvements.generateBetsCode) {
-            console.log(`\n🔍 [EPOCH ${epoch}] AI Generated Code for ${worstStrategy.strategyName}:`);
-            console.log(improvements.generateBetsCode);
-            console.log(`📊 Expected improvement: +${improvements.expectedImprovementPercent}%`);
-            console.log(`💡 Reasoning: ${improvements.reasoning}\n`);
-          }
-
-          // Actually apply the improvements to the strategy
-          currentStrategies = currentStrategies.map((s) => {
-            if (s.id === worstStrategy.strategyId) {
-              const improvedStrategy = {
-                ...s,
-                parameters: {
-                  ...s.parameters,
-                  ...improvements.improvedParameters,
-                },
-              };
-
-              // If new code is provided, compile and inject it
-              if (improvements.generateBetsCode) {
-                try {
-                  // Create executable function from AI-generated code
-                  // Inject utility functions for AI code to use
-                  // eslint-disable-next-line no-new-func
-                  const generateBetsFn = new Function(
-                    'markets',
-                    'context',
-                    'parameters',
-                    'Math',
-                    'Date',
-                    `
-                    // Utility functions available to AI code
-                    const clampPrice = (price) => Math.max(0.01, Math.min(0.99, price));
-                    const mean = (arr) => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : 0;
-                    const sortBy = (arr, fn) => [...arr].sort((a, b) => fn(a) - fn(b));
-
-                    ${improvements.generateBetsCode}
-                    `
-                  );
-
-                  improvedStrategy.generateBets = (markets, context) => {
-                    return generateBetsFn(markets, context, improvedStrategy.parameters, Math, Date);
-                  };
-
-                  console.log(`✅ Compiled new strategy logic for ${s.name}`);
-                } catch (err) {
-                  console.error(`❌ Failed to compile strategy code:`, err);
-                  console.error(`Code that failed:`, improvements.generateBetsCode);
-                  currentLogs = [...currentLogs, `   ❌ ERROR: Code compilation failed - ${err.message}`];
-                }
-              }
-
-              return improvedStrategy;
-            }
-            return s;
-          });
-          setStrategies(currentStrategies);
-
-          currentLogs = [
-            ...currentLogs,
-            `   ✅ Applied improvements:`,
-            `   ${improvements.reasoning}`,
-            `   Expected improvement: +${improvements.expectedImprovementPercent}%`,
-            improvements.generateBetsCode ? `   📝 Generated ${improvements.generateBetsCode.length} chars of new code` : `   ⚠️ No new code generated - only parameter changes`,
-          ];
-
-          setSimulation({
-            logs: currentLogs,
-          });
-        }
-
-        // Generate a new AI strategy every few epochs
-        if (epoch % 2 === 0 || epoch === epochs) {
-          currentLogs = [...currentLogs, '\n🤖 Generating new AI strategy from learnings...'];
-          setSimulation({
-            logs: currentLogs,
-          });
-
-          const newStrategyResponse = await axios.post('/api/openai', {
-            action: 'generate_strategy',
-            data: {
-              historicalData: historicalStats,
-              benchmarks,
-              currentStrategies: currentStrategies,
-            },
-          });
-
-          const newStrategy = newStrategyResponse.data;
-
-          // Log the new strategy code
-          if (newStrategy.generateBetsCode) {
-            console.log(`\n🤖 [EPOCH ${epoch}] NEW AI Strategy: ${newStrategy.strategyName}`);
-            console.log(newStrategy.generateBetsCode);
-            console.log(`📊 Expected ROI: ${newStrategy.expectedROI}%\n`);
-          }
-
-          // Add the new AI-generated strategy to the strategy pool
-          const aiStrategy: Strategy = {
-            id: `ai_${Date.now()}`,
-            name: newStrategy.strategyName,
-            description: newStrategy.description,
-            type: 'ai_generated' as const,
-            parameters: newStrategy.parameters,
-            generateBets: () => {
-              // Placeholder - will be replaced below if code is provided
-              return [];
-            },
-          };
-
-          // Compile and inject AI-generated code
-          if (newStrategy.generateBetsCode) {
-            try {
-              // Create executable function from AI-generated code
-              // Inject utility functions for AI code to use
-              // eslint-disable-next-line no-new-func
-              const generateBetsFn = new Function(
-                'markets',
-                'context',
-                'parameters',
-                'Math',
-                'Date',
-                `
-                // Utility functions available to AI code
-                const clampPrice = (price) => Math.max(0.01, Math.min(0.99, price));
-                const mean = (arr) => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : 0;
-                const sortBy = (arr, fn) => [...arr].sort((a, b) => fn(a) - fn(b));
-
-                ${newStrategy.generateBetsCode}
-                `
-              );
-
-              aiStrategy.generateBets = (markets, context) => {
-                return generateBetsFn(markets, context, aiStrategy.parameters, Math, Date);
-              };
-
-              console.log(`✅ Compiled AI strategy: ${newStrategy.strategyName}`);
-            } catch (err: any) {
-              console.error(`❌ Failed to compile AI strategy code:`, err);
-              console.error(`Code that failed:`, newStrategy.generateBetsCode);
-              currentLogs = [...currentLogs, `   ⚠️ Warning: Strategy code compilation failed - ${err.message}`];
-            }
-          }
-
-          // Add strategy to local array
-          currentStrategies = [...currentStrategies, aiStrategy];
-          setStrategies(currentStrategies);
-
-          currentLogs = [
-            ...currentLogs,
-            `   ✅ Generated: "${newStrategy.strategyName}"`,
-            `   Expected ROI: ${newStrategy.expectedROI}%`,
-            `   📈 Total strategies: ${currentStrategies.length}`,
-          ];
-
-          setSimulation({
-            logs: currentLogs,
-          });
-        }
-
-        // Delay to let user see progress
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-      } catch (err: any) {
-        console.error('Simulation error:', err);
-        currentLogs = [...currentLogs, `❌ Error: ${err.message}`];
-        setSimulation({
-          logs: currentLogs,
-        });
-      }
+  // Trials run one at a time, yielding to the page in between
+  const runOptimizer = async (method: SearchMethod) => {
+    const strategy = strategies.find((s) => s.id === 'copy_trading');
+    if (!strategy) return;
+    if (strategy.uncompiled) {
+      setError(`${strategy.name} runs generated code, which can only be backtested on the server`);
+      return;
     }
 
-    // Final summary
-    const finalLogs = [...currentLogs];
-    finalLogs.push('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    finalLogs.push('🎉 SIMULATION COMPLETE - AI SELF-IMPROVEMENT RESULTS');
-    finalLogs.push('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-    // Training Stats
-    const totalTrades = markets.reduce((acc, m) => acc + m.trades.length, 0);
-    finalLogs.push(`\n📊 Training Dataset:`);
-    finalLogs.push(`   • Total Markets: ${markets.length.toLocaleString()}`);
-    finalLogs.push(`   • Total Trades: ${totalTrades.toLocaleString()}`);
-    finalLogs.push(`   • Epochs Completed: ${epochs}`);
-    finalLogs.push(`   • Strategies Generated: ${currentStrategies.length}`);
-
-    // Compare first epoch to last epoch
-    const firstEpochResults = epochResults[1] || [];
-    const lastEpochResults = epochResults[epochs] || [];
-
-    finalLogs.push('\n📈 STRATEGY PERFORMANCE - BEFORE vs AFTER:');
-    finalLogs.push('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-    // Track overall improvements
-    let totalRoiImprovement = 0;
-    let totalWinRateImprovement = 0;
-    let strategiesImproved = 0;
-    let strategiesWorsened = 0;
-
-    firstEpochResults.forEach((firstResult) => {
-      const lastResult = lastEpochResults.find(r => r.strategyId === firstResult.strategyId);
-      if (lastResult) {
-        const roiImprovement = lastResult.roi - firstResult.roi;
-        const winRateImprovement = lastResult.winRate - firstResult.winRate;
-        const profitImprovement = lastResult.netProfit - firstResult.netProfit;
-
-        totalRoiImprovement += roiImprovement;
-        totalWinRateImprovement += winRateImprovement;
-
-        if (roiImprovement > 0) strategiesImproved++;
-        if (roiImprovement < 0) strategiesWorsened++;
-
-        const improvementIcon = roiImprovement > 5 ? '🚀' : roiImprovement > 0 ? '✅' : roiImprovement < 0 ? '📉' : '➡️';
-
-        finalLogs.push(`\n${improvementIcon} ${lastResult.strategyName}:`);
-        finalLogs.push('   ┌─ EPOCH 1 (Initial):');
-        finalLogs.push(`   │  ROI: ${firstResult.roi.toFixed(1)}% | Win Rate: ${firstResult.winRate.toFixed(1)}% | Profit: $${firstResult.netProfit.toFixed(2)} | Bets: ${firstResult.totalBets}`);
-        finalLogs.push('   └─ EPOCH ' + epochs + ' (Final):');
-        finalLogs.push(`      ROI: ${lastResult.roi.toFixed(1)}% | Win Rate: ${lastResult.winRate.toFixed(1)}% | Profit: $${lastResult.netProfit.toFixed(2)} | Bets: ${lastResult.totalBets}`);
-        finalLogs.push('   ');
-        finalLogs.push(`   📊 Improvements:`);
-        finalLogs.push(`      • ROI Change: ${roiImprovement > 0 ? '+' : ''}${roiImprovement.toFixed(1)}%`);
-        finalLogs.push(`      • Win Rate Change: ${winRateImprovement > 0 ? '+' : ''}${winRateImprovement.toFixed(1)}%`);
-        finalLogs.push(`      • Profit Change: ${profitImprovement > 0 ? '+' : ''}$${profitImprovement.toFixed(2)}`);
-      }
-    });
-
-    // New strategies that didn't exist in epoch 1
-    const newStrategies = lastEpochResults.filter(r => !firstEpochResults.find(f => f.strategyId === r.strategyId));
-    if (newStrategies.length > 0) {
-      finalLogs.push('\n\n🤖 NEW AI-GENERATED STRATEGIES:');
-      finalLogs.push('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      newStrategies.forEach((strategy) => {
-        finalLogs.push(`\n✨ ${strategy.strategyName}:`);
-        finalLogs.push(`   ROI: ${strategy.roi.toFixed(1)}% | Win Rate: ${strategy.winRate.toFixed(1)}% | Profit: $${strategy.netProfit.toFixed(2)} | Bets: ${strategy.totalBets}`);
-      });
+    setIsOptimizing(true);
+    setOptimizerTrials(0);
+    try {
+      const result = await BacktestEngine.optimize(
+        strategy,
+        markets,
+        {
+          method,
+          ranges:
+            method === 'grid'
+              ? COPY_TRADING_PARAMETER_RANGES.slice(0, GRID_PARAMETERS)
+              : COPY_TRADING_PARAMETER_RANGES,
+          iterations: OPTIMIZER_ITERATIONS,
+          holdoutRatio: VALIDATION_OPTIONS.holdoutRatio,
+          riskLimits: DEFAULT_RISK_LIMITS,
+          realDataOnly,
+        },
+        setOptimizerTrials
+      );
+      console.log('Optimisation result:', result);
+      setOptimization(result);
+    } catch (err) {
+      console.error('Error in runOptimizer:', err);
+    } finally {
+      setIsOptimizing(false);
     }
+  };
 
-    // Overall Summary
-    finalLogs.push('\n\n🎯 OVERALL IMPROVEMENT SUMMARY:');
-    finalLogs.push('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    finalLogs.push(`   Strategies Improved: ${strategiesImproved}`);
-    finalLogs.push(`   Strategies Worsened: ${strategiesWorsened}`);
-    if (firstEpochResults.length > 0) {
-      finalLogs.push(`   Average ROI Change: ${(totalRoiImprovement / firstEpochResults.length).toFixed(1)}%`);
-      finalLogs.push(`   Average Win Rate Change: ${(totalWinRateImprovement / firstEpochResults.length).toFixed(1)}%`);
-    }
-    finalLogs.push(`\n🧠 The AI evolved ${currentStrategies.length} total strategies through ${epochs} epochs of learning!`);
+  // Simulations run as server jobs; pick up their results when one stops.
+  // Their results come from the server, generated strategies included.
+  const handleJobFinished = (job: SimulationJob) => {
+    setStrategies(job.strategies.map((definition) => fromStrategyDefinition(definition)));
+    if (job.versions) setStrategyVersions(job.versions);
+    if (job.results.length > 0) setBacktestResults(job.results);
+  };
+
+  // Enabling, disabling, deleting or importing changes the active pool
+  const handleRegistryChange = (registered: RegisteredStrategy[]) => {
+    const strategyPool = activeStrategies(registered);
+    setStrategies(strategyPool);
+    runBacktests(markets, strategyPool);
+  };
+
+  const handleRealDataOnly = (checked: boolean) => {
+    setRealDataOnly(checked);
+    runBacktests(markets, strategies, checked);
+  };
 
-    setSimulation({
-      isRunning: false,
-      logs: finalLogs,
-    });
+  // Rolling back records a new version and swaps the restored definition
+  // into the pool; the next simulation starts from it
+  const handleRollback = (strategyId: string, version: number) => {
+    const versions = rollbackToVersion(strategyVersions, strategyId, version);
+    const restored = latestVersion(versions, strategyId);
+    if (!restored) return;
+    setStrategyVersions(versions);
+    setStrategies(
+      strategies.map((s) => (s.id === strategyId ? fromStrategyDefinition(restored.definition) : s))
+    );
   };
 
   return (
@@ -498,9 +291,25 @@ export default function Home() {
             AI-powered prediction market trading strategies with backtesting & self-improvement
           </p>
         </div>
-        <Button onClick={loadData} disabled={isLoading}>
-          {isLoading ? 'Loading...' : 'Refresh Data'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <label
+            className="flex items-center gap-2 text-sm"
+            title={`${markets.filter(isRealData).length} of ${markets.length} loaded markets have no synthetic data`}
+          >
+            <input
+              type="checkbox"
+              checked={realDataOnly}
+              onChange={(e) => handleRealDataOnly(e.target.checked)}
+            />
+            Real data only
+          </label>
+          <Button variant="outline" onClick={handleSync} disabled={isLoading || isSyncing}>
+            {isSyncing ? 'Syncing...' : 'Sync Markets'}
+          </Button>
+          <Button onClick={loadData} disabled={isLoading || isSyncing}>
+            {isLoading ? 'Loading...' : 'Refresh Data'}
+          </Button>
+        </div>
       </div>
 
       {error && (
@@ -533,6 +342,7 @@ export default function Home() {
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="analysis">Analysis</TabsTrigger>
             <TabsTrigger value="strategies">Strategies</TabsTrigger>
+            <TabsTrigger value="optimizer">Optimizer</TabsTrigger>
             <TabsTrigger value="simulation">Simulation</TabsTrigger>
           </TabsList>
 
@@ -581,15 +391,31 @@ export default function Home() {
           </TabsContent>
 
           <TabsContent value="strategies" className="space-y-4">
-            <StrategyBenchmarks results={backtestResults} />
+            <StrategyBenchmarks
+              results={backtestResults}
+              unavailable={strategies.filter((s) => s.uncompiled)}
+            />
             <EarningsChart results={backtestResults} />
+            <StrategyLibrary onChange={handleRegistryChange} />
+          </TabsContent>
+
+          <TabsContent value="optimizer" className="space-y-4">
+            <OptimizationReport
+              result={optimization}
+              isRunning={isOptimizing}
+              trialsRun={optimizerTrials}
+              onOptimize={runOptimizer}
+            />
           </TabsContent>
 
           <TabsContent value="simulation" className="space-y-4">
             <SimulationControls
-              simulation={simulation}
-              onStartSimulation={startSimulation}
+              strategies={strategies}
+              versions={strategyVersions}
+              realDataOnly={realDataOnly}
+              onJobFinished={handleJobFinished}
             />
+            <StrategyLineage versions={strategyVersions} onRollback={handleRollback} />
           </TabsContent>
         </Tabs>
       )}
@@ -12,6 +12,47 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { format } from 'date-fns';
+import { latestOutcomePrices } from '@/lib/outcomes';
+import { SYNTHETIC_FIELD_LABELS, syntheticFieldLabels } from '@/lib/provenance';
+
+const MAX_LISTED_OUTCOMES = 3;
+
+/**
+ * Most likely outcomes with their latest prices, e.g. "Yes 62% · No 38%"
+ */
+function describeOutcomes(market: PolymarketMarket) {
+  const prices = Object.entries(latestOutcomePrices(market)).sort((a, b) => b[1] - a[1]);
+  const listed = prices
+    .slice(0, MAX_LISTED_OUTCOMES)
+    .map(([outcome, price]) => `${outcome} ${(price * 100).toFixed(0)}%`)
+    .join(' · ');
+  const more = market.outcomes.length - Math.min(prices.length, MAX_LISTED_OUTCOMES);
+  return more > 0 ? `${listed} · +${more} more` : listed || 'N/A';
+}
+
+/**
+ * Badge saying whether a market's data is real, and if not which parts
+ * were generated
+ */
+function ProvenanceBadge({ market }: { market: PolymarketMarket }) {
+  const synthetic = syntheticFieldLabels(market);
+  const fetched = market.provenance
+    ? `${market.provenance.source}, fetched ${format(new Date(market.provenance.fetchedAt), 'MMM d, yyyy HH:mm')}`
+    : 'unknown source';
+
+  if (synthetic.length === 0) {
+    return (
+      <Badge variant="outline" title={fetched}>
+        Real
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="secondary" title={`Synthetic ${synthetic.join(', ')} · ${fetched}`}>
+      {synthetic.length === Object.keys(SYNTHETIC_FIELD_LABELS).length ? 'Synthetic' : 'Partly synthetic'}
+    </Badge>
+  );
+}
 
 interface Props {
   markets: PolymarketMarket[];
@@ -31,9 +72,11 @@ export function MarketOverview({ markets }: Props) {
             <TableHeader>
               <TableRow>
                 <TableHead>Question</TableHead>
+                <TableHead>Outcomes</TableHead>
                 <TableHead>Volume</TableHead>
                 <TableHead>Liquidity</TableHead>
                 <TableHead>End Date</TableHead>
+                <TableHead>Data</TableHead>
                 <TableHead>Status</TableHead>
               </TableRow>
             </TableHeader>
@@ -42,6 +85,14 @@ export function MarketOverview({ markets }: Props) {
                 <TableRow key={market.marketId}>
                   <TableCell className="max-w-md truncate">
                     {market.question}
+                    {market.outcomes.length > 2 && (
+                      <Badge variant="outline" className="ml-2">
+                        {market.outcomes.length} outcomes
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate text-muted-foreground">
+                    {describeOutcomes(market)}
                   </TableCell>
                   <TableCell>
                     ${market.volume.toLocaleString(undefined, { maximumFractionDigits: 0 })}
@@ -54,6 +105,9 @@ export function MarketOverview({ markets }: Props) {
                       ? format(new Date(market.endDate), 'MMM d, yyyy')
                       : 'N/A'}
                   </TableCell>
+                  <TableCell>
+                    <ProvenanceBadge market={market} />
+                  </TableCell>
                   <TableCell>
                     <Badge variant={market.active ? 'default' : 'secondary'}>
                       {market.resolvedOutcome || 'Active'}
@@ -63,7 +117,7 @@ export function MarketOverview({ markets }: Props) {
               ))}
               {activeMarkets.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
                     No active markets found
                   </TableCell>
                 </TableRow>
@@ -0,0 +1,222 @@
+'use client';
+
+import { OptimizationResult, ParameterHeatmap, SearchMethod } from '@/types';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+interface Props {
+  result: OptimizationResult | null;
+  isRunning: boolean;
+  trialsRun?: number; // Trials finished so far in the running search
+  onOptimize: (method: SearchMethod) => void;
+}
+
+const METHODS: { method: SearchMethod; label: string }[] = [
+  { method: 'grid', label: 'Grid Search' },
+  { method: 'random', label: 'Random Search' },
+  { method: 'bayesian', label: 'Bayesian Search' },
+];
+
+const RANKED_ROWS = 15;
+
+const formatRatio = (value: number) =>
+  Number.isFinite(value) ? value.toFixed(2) : '∞';
+
+const formatValue = (value: number) =>
+  Number.isInteger(value) ? value.toLocaleString() : value.toFixed(2);
+
+// Green for the best cell, red for the worst, scaled linearly in between
+const cellColor = (value: number, min: number, max: number) => {
+  const t = max > min ? (value - min) / (max - min) : 0.5;
+  return `hsl(${Math.round(t * 120)}, 70%, ${Math.round(85 - t * 20)}%)`;
+};
+
+function Heatmap({
+  heatmap,
+  metric,
+}: {
+  heatmap: ParameterHeatmap;
+  metric: 'roi' | 'sharpeRatio';
+}) {
+  const values = heatmap.cells
+    .map((c) => c[metric])
+    .filter((v) => Number.isFinite(v));
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const cellAt = (x: number, y: number) =>
+    heatmap.cells.find((c) => c.x === x && c.y === y);
+
+  return (
+    <div className="rounded-md border p-3">
+      <div className="text-sm font-medium mb-2">
+        {metric === 'roi' ? 'ROI %' : 'Sharpe'}: {heatmap.yParameter} × {heatmap.xParameter}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <tbody>
+            {heatmap.yValues.map((y) => (
+              <tr key={y}>
+                <th className="pr-2 text-right font-normal text-muted-foreground">
+                  {formatValue(y)}
+                </th>
+                {heatmap.xValues.map((x) => {
+                  const cell = cellAt(x, y);
+                  const value = cell?.[metric];
+                  return (
+                    <td
+                      key={x}
+                      className="h-8 w-12 text-center"
+                      style={{
+                        backgroundColor:
+                          value !== undefined && Number.isFinite(value)
+                            ? cellColor(value, min, max)
+                            : undefined,
+                      }}
+                      title={cell ? `${cell.trials} trials` : 'Not tried'}
+                    >
+                      {value === undefined
+                        ? ''
+                        : metric === 'roi'
+                          ? value.toFixed(0)
+                          : formatRatio(value)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <th />
+              {heatmap.xValues.map((x) => (
+                <th key={x} className="pt-1 font-normal text-muted-foreground">
+                  {formatValue(x)}
+                </th>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function OptimizationReport({ result, isRunning, trialsRun = 0, onOptimize }: Props) {
+  const parameterNames = result?.best ? Object.keys(result.best.parameters) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Parameter Optimiser</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {METHODS.map(({ method, label }) => (
+            <Button
+              key={method}
+              variant="outline"
+              onClick={() => onOptimize(method)}
+              disabled={isRunning}
+            >
+              {label}
+            </Button>
+          ))}
+          {isRunning && (
+            <span className="text-sm text-muted-foreground">
+              Running trials...{trialsRun > 0 ? ` ${trialsRun} done` : ''}
+            </span>
+          )}
+        </div>
+
+        {!result ? (
+          <p className="text-sm text-muted-foreground">
+            Tune Whale Copy Trading on the training split. The test slice and
+            held-out markets are never used.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {result.strategyName}: {result.trials.length} {result.method} trials on{' '}
+              {result.trainingMarkets} training markets, ranked by{' '}
+              {result.objective.replace(/_/g, ' ')}
+            </p>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rank</TableHead>
+                    {parameterNames.map((name) => (
+                      <TableHead key={name}>{name}</TableHead>
+                    ))}
+                    <TableHead>ROI</TableHead>
+                    <TableHead>Sharpe</TableHead>
+                    <TableHead>Win Rate</TableHead>
+                    <TableHead>Net Profit</TableHead>
+                    <TableHead>Bets</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.trials.slice(0, RANKED_ROWS).map((trial) => (
+                    <TableRow key={trial.rank}>
+                      <TableCell className="font-medium">{trial.rank}</TableCell>
+                      {parameterNames.map((name) => (
+                        <TableCell key={name}>
+                          {formatValue(trial.parameters[name])}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <Badge variant={trial.roi > 0 ? 'default' : 'destructive'}>
+                          {trial.roi > 0 ? '+' : ''}
+                          {trial.roi.toFixed(1)}%
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatRatio(trial.sharpeRatio)}</TableCell>
+                      <TableCell>{trial.winRate.toFixed(1)}%</TableCell>
+                      <TableCell>
+                        <span
+                          className={
+                            trial.netProfit > 0 ? 'text-green-600' : 'text-red-600'
+                          }
+                        >
+                          ${trial.netProfit.toFixed(2)}
+                        </span>
+                      </TableCell>
+                      <TableCell>{trial.totalBets}</TableCell>
+                    </TableRow>
+                  ))}
+                  {result.trials.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No trials ran
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {result.heatmaps.flatMap((heatmap) =>
+                (['roi', 'sharpeRatio'] as const).map((metric) => (
+                  <Heatmap
+                    key={`${heatmap.xParameter}-${heatmap.yParameter}-${metric}`}
+                    heatmap={heatmap}
+                    metric={metric}
+                  />
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
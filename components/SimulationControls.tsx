@@ -1,35 +1,186 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { SimulationState } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  SimulationJob,
+  SimulationJobEvent,
+  SimulationJobSummary,
+  SimulationMode,
+  Strategy,
+  StrategyVersion,
+} from '@/types';
+import { reviveDates } from '@/lib/serialization';
+import { toStrategyDefinition } from '@/lib/strategies/definitions';
 
 interface Props {
-  simulation: SimulationState;
-  onStartSimulation: (epochs: number) => Promise<void>;
+  strategies: Strategy[];
+  versions: StrategyVersion[];
+  realDataOnly: boolean;
+  onJobFinished: (job: SimulationJob) => void;
 }
 
-export function SimulationControls({ simulation, onStartSimulation }: Props) {
+const formatParameters = (parameters: Record<string, number>) =>
+  Object.entries(parameters)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(', ');
+
+// Fold a streamed event into the job the server sent in its snapshot
+function applyEvent(job: SimulationJob | null, event: SimulationJobEvent): SimulationJob | null {
+  if (event.type === 'snapshot') return event.job;
+  if (!job) return job;
+
+  switch (event.type) {
+    case 'log':
+      return { ...job, logs: [...job.logs, ...event.lines] };
+    case 'progress':
+      return {
+        ...job,
+        currentEpoch: event.currentEpoch,
+        progress: event.progress,
+        hallOfFame: event.hallOfFame,
+      };
+    case 'status':
+      return { ...job, status: event.status, ...(event.error ? { error: event.error } : {}) };
+  }
+}
+
+const fetchJob = async (jobId: string) =>
+  reviveDates<SimulationJob>((await axios.get(`/api/simulation/${jobId}`)).data);
+
+export function SimulationControls({ strategies, versions, realDataOnly, onJobFinished }: Props) {
   const [epochs, setEpochs] = useState(5);
-  const [isRunning, setIsRunning] = useState(false);
+  const [mode, setMode] = useState<SimulationMode>('llm');
+  const [job, setJob] = useState<SimulationJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+  const onJobFinishedRef = useRef(onJobFinished);
+
+  useEffect(() => {
+    onJobFinishedRef.current = onJobFinished;
+  }, [onJobFinished]);
+
+  // Stream a running job's progress; the run itself lives on the server
+  const follow = useCallback((jobId: string) => {
+    sourceRef.current?.close();
+    const source = new EventSource(`/api/simulation/${jobId}/events`);
+    sourceRef.current = source;
+
+    source.onmessage = (message) => {
+      const event = reviveDates<SimulationJobEvent>(JSON.parse(message.data));
+      setJob((current) => applyEvent(current, event));
+
+      if (event.type === 'status' && event.status !== 'running') {
+        source.close();
+        // Results are not streamed; fetch the finished job once
+        fetchJob(jobId)
+          .then((finished) => {
+            setJob(finished);
+            onJobFinishedRef.current(finished);
+          })
+          .catch((err) => setError(err.message));
+      }
+    };
+    source.onerror = () => {
+      // The stream ends once the job stops; only a live job is worth reconnecting to
+      if (source.readyState === EventSource.CLOSED) sourceRef.current = null;
+    };
+  }, []);
+
+  // Reattach to the latest job, so closing the tab does not lose a run
+  useEffect(() => {
+    let cancelled = false;
+    axios
+      .get<{ jobs: SimulationJobSummary[] }>('/api/simulation')
+      .then(async ({ data }) => {
+        const latest = data.jobs[0];
+        if (!latest || cancelled) return;
+        const current = await fetchJob(latest.id);
+        if (cancelled) return;
+        setJob(current);
+        if (current.status === 'running') follow(current.id);
+      })
+      .catch((err) => console.error('Error loading simulation jobs:', err));
+
+    return () => {
+      cancelled = true;
+      sourceRef.current?.close();
+    };
+  }, [follow]);
 
   const handleStart = async () => {
-    setIsRunning(true);
-    await onStartSimulation(epochs);
-    setIsRunning(false);
+    setError(null);
+    try {
+      const { data } = await axios.post('/api/simulation', {
+        mode,
+        epochs,
+        strategies: strategies.map(toStrategyDefinition),
+        versions,
+        realDataOnly,
+      });
+      const started = reviveDates<SimulationJob>(data);
+      setJob(started);
+      follow(started.id);
+    } catch (err: unknown) {
+      setError(axios.isAxiosError(err) ? err.response?.data?.details ?? err.message : String(err));
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    await axios.post(`/api/simulation/${job.id}/cancel`).catch((err) => setError(err.message));
   };
 
+  const handleResume = async () => {
+    if (!job) return;
+    setError(null);
+    try {
+      const { data } = await axios.post(`/api/simulation/${job.id}/resume`);
+      setJob(reviveDates<SimulationJob>(data));
+      follow(job.id);
+    } catch (err: unknown) {
+      setError(axios.isAxiosError(err) ? err.response?.data?.details ?? err.message : String(err));
+    }
+  };
+
+  const isRunning = job?.status === 'running';
+  const canResume =
+    job !== null && ['cancelled', 'failed', 'interrupted'].includes(job.status);
+  const hallOfFame = job?.hallOfFame ?? [];
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Self-Improvement Simulation</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex items-center gap-4">
-          <label className="text-sm font-medium">Epochs:</label>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="text-sm font-medium">Mode:</label>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as SimulationMode)}
+            className="rounded border px-2 py-1"
+            disabled={isRunning}
+          >
+            <option value="llm">LLM improvement</option>
+            <option value="evolution">Evolutionary (no API key)</option>
+          </select>
+          <label className="text-sm font-medium">
+            {mode === 'evolution' ? 'Generations:' : 'Epochs:'}
+          </label>
           <input
             type="number"
             min="1"
@@ -39,31 +190,95 @@ export function SimulationControls({ simulation, onStartSimulation }: Props) {
             className="w-20 rounded border px-2 py-1"
             disabled={isRunning}
           />
-          <Button
-            onClick={handleStart}
-            disabled={isRunning || simulation.isRunning}
-          >
+          <Button onClick={handleStart} disabled={isRunning}>
             {isRunning ? 'Running...' : 'Start Simulation'}
           </Button>
+          {isRunning && (
+            <Button variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+          )}
+          {canResume && (
+            <Button variant="outline" onClick={handleResume}>
+              Resume
+            </Button>
+          )}
         </div>
 
-        {simulation.isRunning && (
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {job && (
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
-              <span>
-                Epoch {simulation.currentEpoch} of {simulation.totalEpochs}
+              <span className="flex items-center gap-2">
+                <Badge
+                  variant={
+                    job.status === 'failed'
+                      ? 'destructive'
+                      : job.status === 'running'
+                        ? 'default'
+                        : 'secondary'
+                  }
+                  title={job.error}
+                >
+                  {job.status}
+                </Badge>
+                <span className="text-muted-foreground">{job.id}</span>
+                {job.mode === 'evolution' ? 'Generation' : 'Epoch'}{' '}
+                {job.currentEpoch} of {job.epochs}
               </span>
-              <span>{simulation.progress}%</span>
+              <span>{job.progress}%</span>
             </div>
-            <Progress value={simulation.progress} />
+            <Progress value={job.progress} />
+          </div>
+        )}
+
+        {hallOfFame.length > 0 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead>Parameters</TableHead>
+                  <TableHead>Fitness</TableHead>
+                  <TableHead>ROI</TableHead>
+                  <TableHead>Win Rate</TableHead>
+                  <TableHead>Generation</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hallOfFame.map((individual, rank) => (
+                  <TableRow key={individual.id}>
+                    <TableCell>{rank + 1}</TableCell>
+                    <TableCell className="font-medium">
+                      <span title={individual.parents.length > 0 ? `Parents: ${individual.parents.join(', ')}` : 'Seed'}>
+                        {individual.strategyName} ({individual.id})
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-xs font-mono">
+                      {formatParameters(individual.parameters)}
+                    </TableCell>
+                    <TableCell>{individual.fitness.toFixed(2)}</TableCell>
+                    <TableCell>{individual.result.roi.toFixed(1)}%</TableCell>
+                    <TableCell>{individual.result.winRate.toFixed(1)}%</TableCell>
+                    <TableCell>{individual.generation}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
           </div>
         )}
 
-        {simulation.logs.length > 0 && (
+        {job && job.logs.length > 0 && (
           <Alert>
             <AlertDescription>
               <div className="max-h-[600px] overflow-y-auto space-y-1">
-                {simulation.logs.map((log, i) => (
+                {job.logs.map((log, i) => (
                   <div key={i} className="text-xs font-mono whitespace-pre-wrap">
                     {log}
                   </div>
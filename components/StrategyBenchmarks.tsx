@@ -1,6 +1,12 @@
 'use client';
 
-import { BacktestResult } from '@/types';
+import {
+  BacktestResult,
+  CalibrationBucket,
+  ConfidenceInterval,
+  RejectionLogEntry,
+  Strategy,
+} from '@/types';
 import {
   Table,
   TableBody,
@@ -14,9 +20,81 @@ import { Badge } from '@/components/ui/badge';
 
 interface Props {
   results: BacktestResult[];
+  unavailable?: Strategy[]; // Strategies that cannot be backtested in the browser
+}
+
+const formatInterval = ({ lower, upper }: ConfidenceInterval) =>
+  `[${lower.toFixed(1)}, ${upper.toFixed(1)}]`;
+
+const formatRatio = (value: number) =>
+  Number.isFinite(value) ? value.toFixed(2) : '∞';
+
+// Expected calibration error: count-weighted gap between price paid and hit rate
+const calibrationError = (buckets: CalibrationBucket[]) => {
+  const total = buckets.reduce((sum, b) => sum + b.count, 0);
+  if (total === 0) return 0;
+  return buckets.reduce(
+    (sum, b) => sum + (b.count / total) * Math.abs(b.averageImplied - b.realizedRate),
+    0
+  );
+};
+
+const describeCalibration = (buckets: CalibrationBucket[]) =>
+  buckets
+    .filter((b) => b.count > 0)
+    .map(
+      (b) =>
+        `${(b.lower * 100).toFixed(0)}-${(b.upper * 100).toFixed(0)}%: paid ${(b.averageImplied * 100).toFixed(0)}%, hit ${(b.realizedRate * 100).toFixed(0)}% (n=${b.count})`
+    )
+    .join('\n');
+
+const REJECTION_SAMPLE_SIZE = 10;
+
+// Rejections per risk rule, with everything else (cash, sizing, screening) as "other"
+const countRejections = (log: RejectionLogEntry[]) =>
+  Object.entries(
+    log.reduce((acc, entry) => {
+      const key = entry.rule ?? 'other';
+      acc[key] = (acc[key] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>)
+  )
+    .sort((a, b) => b[1] - a[1])
+    .map(([rule, count]) => `${rule.replace(/_/g, ' ')} ${count}`)
+    .join(' · ');
+
+const describeRejections = (log: RejectionLogEntry[]) =>
+  log
+    .slice(-REJECTION_SAMPLE_SIZE)
+    .map((entry) => `${entry.timestamp.toISOString().slice(0, 16)} ${entry.marketId}: ${entry.reason}`)
+    .join('\n');
+
+/**
+ * Badge saying how much of a result's test data was real; results saved
+ * before provenance was tracked have none
+ */
+function DataBadge({ result }: { result: BacktestResult }) {
+  if (!result.dataProvenance) return null;
+  const { realMarkets, syntheticMarkets } = result.dataProvenance;
+  const total = realMarkets + syntheticMarkets;
+  if (total === 0) return null;
+
+  const title = `${realMarkets} real and ${syntheticMarkets} synthetic test markets`;
+  return syntheticMarkets === 0 ? (
+    <Badge variant="outline" className="ml-2" title={title}>
+      Real data
+    </Badge>
+  ) : (
+    <Badge variant="secondary" className="ml-2" title={title}>
+      {((syntheticMarkets / total) * 100).toFixed(0)}% synthetic
+    </Badge>
+  );
 }
 
-export function StrategyBenchmarks({ results }: Props) {
+export function StrategyBenchmarks({ results, unavailable = [] }: Props) {
+  // Results from a server run already cover these
+  const serverOnly = unavailable.filter((s) => !results.some((r) => r.strategyId === s.id));
+
   return (
     <Card>
       <CardHeader>
@@ -29,9 +107,13 @@ export function StrategyBenchmarks({ results }: Props) {
               <TableRow>
                 <TableHead>Strategy</TableHead>
                 <TableHead>Total Bets</TableHead>
+                <TableHead>Fill Rate</TableHead>
                 <TableHead>Win Rate</TableHead>
                 <TableHead>ROI</TableHead>
+                <TableHead>p-value</TableHead>
                 <TableHead>Net Profit</TableHead>
+                <TableHead>Costs</TableHead>
+                <TableHead>Final Equity</TableHead>
                 <TableHead>Status</TableHead>
               </TableRow>
             </TableHeader>
@@ -40,14 +122,28 @@ export function StrategyBenchmarks({ results }: Props) {
                 <TableRow key={result.strategyId}>
                   <TableCell className="font-medium">
                     {result.strategyName}
+                    <DataBadge result={result} />
                   </TableCell>
                   <TableCell>{result.totalBets}</TableCell>
+                  <TableCell>
+                    <span title={`${result.unfilledBets} unfilled`}>
+                      {result.fillRate.toFixed(1)}%
+                    </span>
+                  </TableCell>
                   <TableCell>
                     <Badge
                       variant={result.winRate > 50 ? 'default' : 'secondary'}
                     >
                       {result.winRate.toFixed(1)}%
                     </Badge>
+                    {result.confidence.iterations > 0 && (
+                      <div
+                        className="text-xs text-muted-foreground mt-1"
+                        title={`95% bootstrap over bets; over markets ${formatInterval(result.confidence.winRateByMarket)}`}
+                      >
+                        {formatInterval(result.confidence.winRate)}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Badge
@@ -56,6 +152,26 @@ export function StrategyBenchmarks({ results }: Props) {
                       {result.roi > 0 ? '+' : ''}
                       {result.roi.toFixed(1)}%
                     </Badge>
+                    {result.confidence.iterations > 0 && (
+                      <div
+                        className="text-xs text-muted-foreground mt-1"
+                        title={`95% bootstrap over bets; over markets ${formatInterval(result.confidence.roiByMarket)}`}
+                      >
+                        {formatInterval(result.confidence.roi)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={
+                        result.confidence.pValue < 0.05
+                          ? 'font-medium'
+                          : 'text-muted-foreground'
+                      }
+                      title={`vs. random bets at the prices paid (bets held to resolution) · shuffled max drawdown median ${result.confidence.maxDrawdownMedian.toFixed(1)}%, 95th pct ${result.confidence.maxDrawdownP95.toFixed(1)}%`}
+                    >
+                      {result.confidence.pValue.toFixed(3)}
+                    </span>
                   </TableCell>
                   <TableCell>
                     <span
@@ -69,7 +185,36 @@ export function StrategyBenchmarks({ results }: Props) {
                     </span>
                   </TableCell>
                   <TableCell>
-                    {result.totalBets > 0 ? (
+                    <span
+                      className="text-muted-foreground"
+                      title={`Fees $${result.costBreakdown.fees.toFixed(2)} · Slippage $${result.costBreakdown.slippage.toFixed(2)} · Fixed $${result.costBreakdown.fixedCosts.toFixed(2)} · Gross profit $${result.grossProfit.toFixed(2)}`}
+                    >
+                      ${result.costBreakdown.total.toFixed(2)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      title={`Start $${result.portfolio.initialBankroll.toFixed(0)} · Peak exposure $${result.portfolio.peakExposure.toFixed(2)} · Avg utilisation ${result.portfolio.averageUtilisation.toFixed(1)}% · ${result.portfolio.rejectedBets} rejected`}
+                    >
+                      ${result.portfolio.finalEquity.toFixed(2)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {result.leakageFlags > 0 ? (
+                      <Badge
+                        variant="destructive"
+                        title={`${result.leakageFlags} bets were timestamped after the data they could see and were rejected`}
+                      >
+                        Look-ahead
+                      </Badge>
+                    ) : result.portfolio.haltedAt ? (
+                      <Badge
+                        variant="secondary"
+                        title={`Drawdown kill switch stopped new positions on ${result.portfolio.haltedAt.toISOString().slice(0, 10)}`}
+                      >
+                        Halted
+                      </Badge>
+                    ) : result.totalBets > 0 ? (
                       <Badge variant="outline">Tested</Badge>
                     ) : (
                       <Badge variant="secondary">No Data</Badge>
@@ -77,9 +222,124 @@ export function StrategyBenchmarks({ results }: Props) {
                   </TableCell>
                 </TableRow>
               ))}
+              {serverOnly.map((strategy) => (
+                <TableRow key={strategy.id}>
+                  <TableCell className="font-medium">{strategy.name}</TableCell>
+                  <TableCell colSpan={8} className="text-muted-foreground">
+                    Generated code runs only in the server sandbox; run a simulation to backtest it
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">Server Only</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {results.length === 0 && serverOnly.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground">
+                    No backtest results available
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <h3 className="mt-6 mb-2 text-sm font-medium">Risk-Adjusted Metrics</h3>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Strategy</TableHead>
+                <TableHead>Sharpe</TableHead>
+                <TableHead>Sortino</TableHead>
+                <TableHead>Max Drawdown</TableHead>
+                <TableHead>Profit Factor</TableHead>
+                <TableHead>Avg Win / Loss</TableHead>
+                <TableHead>Expectancy</TableHead>
+                <TableHead>Brier</TableHead>
+                <TableHead>Log-Loss</TableHead>
+                <TableHead>Calibration Error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result) => (
+                <TableRow key={result.strategyId}>
+                  <TableCell className="font-medium">
+                    {result.strategyName}
+                  </TableCell>
+                  <TableCell>{formatRatio(result.metrics.sharpeRatio)}</TableCell>
+                  <TableCell>{formatRatio(result.metrics.sortinoRatio)}</TableCell>
+                  <TableCell>
+                    <span
+                      title={`$${result.metrics.maxDrawdown.toFixed(2)} over ${result.metrics.maxDrawdownDurationDays.toFixed(1)} days`}
+                    >
+                      {result.metrics.maxDrawdownPercent.toFixed(1)}%
+                    </span>
+                  </TableCell>
+                  <TableCell>{formatRatio(result.metrics.profitFactor)}</TableCell>
+                  <TableCell>
+                    <span className="text-green-600">
+                      ${result.metrics.averageWin.toFixed(2)}
+                    </span>
+                    {' / '}
+                    <span className="text-red-600">
+                      ${result.metrics.averageLoss.toFixed(2)}
+                    </span>
+                  </TableCell>
+                  <TableCell>${result.metrics.expectancy.toFixed(2)}</TableCell>
+                  <TableCell>{result.metrics.brierScore.toFixed(3)}</TableCell>
+                  <TableCell>{result.metrics.logLoss.toFixed(3)}</TableCell>
+                  <TableCell>
+                    <span title={describeCalibration(result.metrics.calibration)}>
+                      {(calibrationError(result.metrics.calibration) * 100).toFixed(1)}%
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {results.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground">
+                    No backtest results available
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <h3 className="mt-6 mb-2 text-sm font-medium">Rejected Bets</h3>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Strategy</TableHead>
+                <TableHead>Rejected</TableHead>
+                <TableHead>By Rule</TableHead>
+                <TableHead>Halted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result) => (
+                <TableRow key={result.strategyId}>
+                  <TableCell className="font-medium">
+                    {result.strategyName}
+                  </TableCell>
+                  <TableCell>{result.rejectionLog.length}</TableCell>
+                  <TableCell>
+                    <span title={describeRejections(result.rejectionLog)}>
+                      {countRejections(result.rejectionLog) || '—'}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {result.portfolio.haltedAt
+                      ? result.portfolio.haltedAt.toISOString().slice(0, 10)
+                      : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
               {results.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
                     No backtest results available
                   </TableCell>
                 </TableRow>
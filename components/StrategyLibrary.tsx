@@ -0,0 +1,163 @@
+'use client';
+
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { RegisteredStrategy } from '@/types';
+import { reviveDates } from '@/lib/serialization';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface Props {
+  onChange: (strategies: RegisteredStrategy[]) => void;
+}
+
+const errorMessage = (err: unknown) =>
+  axios.isAxiosError(err) ? err.response?.data?.details ?? err.message : String(err);
+
+const fetchStrategies = async () =>
+  reviveDates<RegisteredStrategy[]>((await axios.get('/api/strategies')).data.strategies);
+
+export function StrategyLibrary({ onChange }: Props) {
+  const [strategies, setStrategies] = useState<RegisteredStrategy[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchStrategies()
+      .then(setStrategies)
+      .catch((err) => setError(errorMessage(err)));
+  }, []);
+
+  // Run a registry change, then reload and hand the new list to the page
+  const apply = async (change: () => Promise<string | null>) => {
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await change());
+      const list = await fetchStrategies();
+      setStrategies(list);
+      onChange(list);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const handleToggle = (strategy: RegisteredStrategy) =>
+    apply(async () => {
+      await axios.post(`/api/strategies/${strategy.id}/${strategy.enabled ? 'disable' : 'enable'}`);
+      return null;
+    });
+
+  const handleDelete = (strategy: RegisteredStrategy) => {
+    if (!window.confirm(`Delete "${strategy.name}" from the registry?`)) return;
+    apply(async () => {
+      await axios.delete(`/api/strategies/${strategy.id}`);
+      return `Deleted ${strategy.name}`;
+    });
+  };
+
+  const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    apply(async () => {
+      const { data } = await axios.post('/api/strategies/import', JSON.parse(await file.text()));
+      return `Imported ${data.created.length} new and ${data.updated.length} updated strategies`;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Strategy Library</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => (window.location.href = '/api/strategies/export')}>
+            Export All
+          </Button>
+          <Button variant="outline" onClick={() => fileRef.current?.click()}>
+            Import
+          </Button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Strategy</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Tags</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {strategies.map((strategy) => (
+                <TableRow key={strategy.id} className={strategy.enabled ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <div className="font-medium">{strategy.name}</div>
+                    <div className="text-xs text-muted-foreground">{strategy.description}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={strategy.source === 'built_in' ? 'outline' : 'secondary'}>
+                      {strategy.source}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">{strategy.tags.join(', ') || '—'}</TableCell>
+                  <TableCell className="text-xs">{strategy.updatedAt.toLocaleDateString()}</TableCell>
+                  <TableCell className="space-x-2 text-right">
+                    <Button size="sm" variant="outline" onClick={() => handleToggle(strategy)}>
+                      {strategy.enabled ? 'Disable' : 'Enable'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => (window.location.href = `/api/strategies/export?ids=${strategy.id}`)}
+                    >
+                      Export
+                    </Button>
+                    {strategy.source !== 'built_in' && (
+                      <Button size="sm" variant="destructive" onClick={() => handleDelete(strategy)}>
+                        Delete
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { format } from 'date-fns';
+import { uniqBy } from 'lodash';
+import { StrategyVersion, StrategyVersionSource } from '@/types';
+import { versionsOf } from '@/lib/strategies/versions';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+interface Props {
+  versions: StrategyVersion[];
+  onRollback: (strategyId: string, version: number) => void;
+}
+
+const SOURCE_VARIANTS: Record<StrategyVersionSource, 'default' | 'secondary' | 'outline'> = {
+  initial: 'outline',
+  generated: 'default',
+  improvement: 'default',
+  evolution: 'secondary',
+  rollback: 'secondary',
+};
+
+const DIFF_STYLES = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+  unchanged: 'text-muted-foreground',
+};
+
+const DIFF_MARKERS = { added: '+', removed: '-', unchanged: ' ' };
+
+const formatValue = (value: unknown) => (value === undefined ? '—' : JSON.stringify(value));
+
+function VersionChanges({ version }: { version: StrategyVersion }) {
+  return (
+    <div className="space-y-3 py-2">
+      {version.reasoning && <p className="text-sm">{version.reasoning}</p>}
+      {version.parameterChanges.length > 0 && (
+        <div className="text-sm">
+          <div className="font-medium mb-1">Parameters</div>
+          {version.parameterChanges.map((change) => (
+            <div key={change.name} className="font-mono text-xs">
+              {change.name}: {formatValue(change.before)} → {formatValue(change.after)}
+            </div>
+          ))}
+        </div>
+      )}
+      {version.codeDiff && (
+        <div className="text-sm">
+          <div className="font-medium mb-1">Code</div>
+          <pre className="max-h-80 overflow-auto rounded-md border text-xs">
+            {version.codeDiff.map((line, i) => (
+              <div key={i} className={DIFF_STYLES[line.type]}>
+                {DIFF_MARKERS[line.type]} {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+      {version.parameterChanges.length === 0 && !version.codeDiff && (
+        <p className="text-sm text-muted-foreground">
+          {version.parentVersion === null ? 'First version' : 'No changes against the parent version'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function StrategyLineage({ versions, onRollback }: Props) {
+  const strategies = uniqBy(versions, (v) => v.strategyId).map((v) => ({
+    id: v.strategyId,
+    name: v.definition.name,
+  }));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  if (strategies.length === 0) return null;
+
+  const strategyId = strategies.find((s) => s.id === selectedId)?.id ?? strategies[0].id;
+  const lineage = versionsOf(versions, strategyId).reverse();
+  const current = lineage[0]?.version;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Strategy Versions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4">
+          <label className="text-sm font-medium">Strategy:</label>
+          <select
+            value={strategyId}
+            onChange={(e) => {
+              setSelectedId(e.target.value);
+              setExpanded(null);
+            }}
+            className="rounded border px-2 py-1"
+          >
+            {strategies.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>ROI</TableHead>
+                <TableHead>Win Rate</TableHead>
+                <TableHead>Sharpe</TableHead>
+                <TableHead>Bets</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lineage.map((version) => (
+                <Fragment key={version.version}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpanded(expanded === version.version ? null : version.version)}
+                  >
+                    <TableCell className="font-medium">
+                      v{version.version}
+                      {version.parentVersion !== null && (
+                        <span className="text-muted-foreground"> ← v{version.parentVersion}</span>
+                      )}
+                      {version.version === current && ' (current)'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={SOURCE_VARIANTS[version.source]}>{version.source}</Badge>
+                    </TableCell>
+                    <TableCell>{format(new Date(version.createdAt), 'MMM d HH:mm')}</TableCell>
+                    <TableCell>{version.metrics ? `${version.metrics.roi.toFixed(1)}%` : '—'}</TableCell>
+                    <TableCell>{version.metrics ? `${version.metrics.winRate.toFixed(1)}%` : '—'}</TableCell>
+                    <TableCell>{version.metrics ? version.metrics.sharpeRatio.toFixed(2) : '—'}</TableCell>
+                    <TableCell>{version.metrics?.totalBets ?? '—'}</TableCell>
+                    <TableCell>
+                      {version.version !== current && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onRollback(strategyId, version.version);
+                          }}
+                        >
+                          Roll back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {expanded === version.version && (
+                    <TableRow>
+                      <TableCell colSpan={8}>
+                        <VersionChanges version={version} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
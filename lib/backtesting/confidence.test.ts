@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { calculateConfidenceIntervals } from './confidence';
+import { filledBet } from './test-utils';
+
+// Bets bought at `fillPrice` that pay $1 a share when they win
+const held = (won: boolean, fillPrice = 0.5) =>
+  filledBet({ amount: 100, fillPrice, cost: 100 * fillPrice, payout: won ? 100 : 0, result: won ? 'win' : 'loss' });
+
+describe('calculateConfidenceIntervals', () => {
+  it('is empty without settled bets', () => {
+    const confidence = calculateConfidenceIntervals([], 1000, 100);
+    expect(confidence).toMatchObject({ iterations: 0, pValue: 1, marketsSampled: 0 });
+  });
+
+  it('is the same for the same seed', () => {
+    const bets = Array.from({ length: 20 }, (_, i) => held(i % 3 === 0));
+    expect(calculateConfidenceIntervals(bets, 1000, 200, 7)).toEqual(
+      calculateConfidenceIntervals(bets, 1000, 200, 7)
+    );
+  });
+
+  it('brackets the observed ROI', () => {
+    const bets = Array.from({ length: 40 }, (_, i) => held(i % 2 === 0));
+    const { roi } = calculateConfidenceIntervals(bets, 1000, 500);
+    expect(roi.lower).toBeLessThanOrEqual(0);
+    expect(roi.upper).toBeGreaterThanOrEqual(0);
+  });
+
+  it('gives a small p-value to bets that always beat their price', () => {
+    const bets = Array.from({ length: 40 }, () => held(true, 0.5));
+    expect(calculateConfidenceIntervals(bets, 1000, 500).pValue).toBeLessThan(0.01);
+  });
+
+  it('leaves bets that exited early out of the p-value', () => {
+    const exited = Array.from({ length: 40 }, () => ({
+      ...held(true, 0.5),
+      payout: 60,
+      exitFill: { timestamp: new Date(), price: 0.6, reason: 'take_profit' as const },
+    }));
+    const confidence = calculateConfidenceIntervals(exited, 1000, 200);
+    expect(confidence.pValue).toBe(1);
+    expect(confidence.iterations).toBe(200);
+  });
+});
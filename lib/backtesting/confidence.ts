@@ -0,0 +1,152 @@
+/**
+ * Resampling Confidence Intervals
+ *
+ * Quantifies how much of a backtest result could be luck: bootstrap intervals
+ * for ROI and win rate (resampling bets, and whole markets to respect
+ * within-market correlation), the drawdown distribution under random bet
+ * ordering, and a p-value against betting at random at the prices paid.
+ * The p-value only covers bets held to resolution: bets that exited early or
+ * closed another position were paid at a market price, not a coin flip at
+ * the entry price, so the null model does not describe them.
+ */
+
+import { BacktestBet, ConfidenceInterval, ConfidenceIntervals } from '@/types';
+import { createRandom, randomInt, shuffle, Random, DEFAULT_SEED } from '@/lib/random';
+import { collateralPerShare } from './positions';
+
+export const DEFAULT_CONFIDENCE_ITERATIONS = 1000;
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+interface BetOutcome {
+  marketId: string;
+  cost: number;
+  payout: number;
+  won: boolean;
+  impliedProbability: number;
+  shares: number;
+  heldToResolution: boolean;
+}
+
+const percentile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(q * sorted.length)));
+  return sorted[index];
+};
+
+const interval = (samples: number[], level: number): ConfidenceInterval => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const tail = (1 - level) / 2;
+  return {
+    lower: percentile(sorted, tail),
+    upper: percentile(sorted, 1 - tail),
+    level,
+  };
+};
+
+const roiOf = (bets: BetOutcome[]) => {
+  const cost = bets.reduce((sum, b) => sum + b.cost, 0);
+  const payout = bets.reduce((sum, b) => sum + b.payout, 0);
+  return cost > 0 ? ((payout - cost) / cost) * 100 : 0;
+};
+
+const winRateOf = (bets: BetOutcome[]) =>
+  bets.length > 0 ? (bets.filter((b) => b.won).length / bets.length) * 100 : 0;
+
+/**
+ * Largest drawdown (% of peak equity) when bet PnLs land in the given order
+ */
+const maxDrawdownPercent = (pnl: number[], initialBankroll: number) => {
+  let equity = initialBankroll;
+  let peak = equity;
+  let worst = 0;
+  pnl.forEach((p) => {
+    equity += p;
+    peak = Math.max(peak, equity);
+    if (peak > 0) worst = Math.max(worst, ((peak - equity) / peak) * 100);
+  });
+  return worst;
+};
+
+const resample = <T>(items: T[], random: Random): T[] =>
+  items.map(() => items[randomInt(random, items.length)]);
+
+/**
+ * Bootstrap and Monte Carlo confidence intervals for a set of backtest bets
+ */
+export function calculateConfidenceIntervals(
+  bets: BacktestBet[],
+  initialBankroll: number,
+  iterations = DEFAULT_CONFIDENCE_ITERATIONS,
+  seed = DEFAULT_SEED,
+  level = DEFAULT_CONFIDENCE_LEVEL
+): ConfidenceIntervals {
+  const random = createRandom(seed);
+
+  const outcomes: BetOutcome[] = bets
+    .filter((b) => b.result === 'win' || b.result === 'loss')
+    .map((b) => ({
+      marketId: b.marketId,
+      cost: b.cost,
+      payout: b.payout,
+      won: b.result === 'win',
+      impliedProbability: collateralPerShare(b.side, b.fillPrice),
+      shares: b.filledAmount,
+      heldToResolution: !b.exitFill && !b.closedAmount,
+    }));
+  const held = outcomes.filter((o) => o.heldToResolution);
+
+  const byMarket = Array.from(
+    outcomes.reduce((acc, outcome) => {
+      acc.set(outcome.marketId, [...(acc.get(outcome.marketId) ?? []), outcome]);
+      return acc;
+    }, new Map<string, BetOutcome[]>()).values()
+  );
+
+  const roiSamples: number[] = [];
+  const winRateSamples: number[] = [];
+  const marketRoiSamples: number[] = [];
+  const marketWinRateSamples: number[] = [];
+  const drawdownSamples: number[] = [];
+  const observedHeldRoi = roiOf(held);
+  const pnl = outcomes.map((o) => o.payout - o.cost);
+  let nullAtLeastObserved = 0;
+
+  if (outcomes.length > 0) {
+    for (let i = 0; i < iterations; i++) {
+      const betSample = resample(outcomes, random);
+      roiSamples.push(roiOf(betSample));
+      winRateSamples.push(winRateOf(betSample));
+
+      const marketSample = resample(byMarket, random).flat();
+      marketRoiSamples.push(roiOf(marketSample));
+      marketWinRateSamples.push(winRateOf(marketSample));
+
+      drawdownSamples.push(maxDrawdownPercent(shuffle(pnl, random), initialBankroll));
+
+      // Null hypothesis: each position held to resolution pays off exactly as
+      // often as its price implies
+      const nullRoi = roiOf(
+        held.map((o) => ({
+          ...o,
+          payout: random() < o.impliedProbability ? o.shares : 0,
+        }))
+      );
+      if (nullRoi >= observedHeldRoi) nullAtLeastObserved++;
+    }
+  }
+
+  const sortedDrawdowns = [...drawdownSamples].sort((a, b) => a - b);
+
+  return {
+    iterations: outcomes.length > 0 ? iterations : 0,
+    roi: interval(roiSamples, level),
+    winRate: interval(winRateSamples, level),
+    roiByMarket: interval(marketRoiSamples, level),
+    winRateByMarket: interval(marketWinRateSamples, level),
+    maxDrawdownMedian: percentile(sortedDrawdowns, 0.5),
+    maxDrawdownP95: percentile(sortedDrawdowns, 0.95),
+    // Add-one smoothing keeps the estimate away from an impossible p = 0
+    pValue: held.length > 0 ? (nullAtLeastObserved + 1) / (iterations + 1) : 1,
+    marketsSampled: byMarket.length,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { CostModel } from '@/types';
+import { calculateOrderCosts, linearSlippage, noSlippage, observedFeeBps, ZERO_COST_MODEL } from './costs';
+import { market, trade } from './test-utils';
+
+const FLAT_FEES: CostModel = { ...ZERO_COST_MODEL, feeBps: 100 };
+
+describe('observedFeeBps', () => {
+  it('is null without fee data', () => {
+    expect(observedFeeBps(market({ trades: [trade(1, 0.5, 100)] }))).toBeNull();
+  });
+
+  it('is the fee rate implied by the trades', () => {
+    const m = market({ trades: [{ ...trade(1, 0.5, 100), fee: 0.5 }] });
+    expect(observedFeeBps(m)).toBeCloseTo(100);
+  });
+});
+
+describe('calculateOrderCosts', () => {
+  it('charges nothing for an empty order', () => {
+    const costs = calculateOrderCosts({ amount: 0, price: 0.5, side: 'buy', market: market() }, FLAT_FEES);
+    expect(costs.total).toBe(0);
+  });
+
+  it('prices buys on the outcome price and sells on the complement', () => {
+    const buy = calculateOrderCosts({ amount: 100, price: 0.9, side: 'buy', market: market() }, FLAT_FEES);
+    const sell = calculateOrderCosts({ amount: 100, price: 0.9, side: 'sell', market: market() }, FLAT_FEES);
+
+    expect(buy.fees).toBeCloseTo(0.9);
+    expect(sell.fees).toBeCloseTo(0.1);
+  });
+
+  it('keeps an observed fee of 0 bps instead of the default rate', () => {
+    const free = market({ trades: [{ ...trade(1, 0.5, 100), fee: 0 }] });
+    const costs = calculateOrderCosts(
+      { amount: 100, price: 0.5, side: 'buy', market: free },
+      { ...FLAT_FEES, useObservedFees: true }
+    );
+    expect(costs.fees).toBe(0);
+  });
+
+  it('falls back to the model rate when no fees were observed', () => {
+    const costs = calculateOrderCosts(
+      { amount: 100, price: 0.5, side: 'buy', market: market() },
+      { ...FLAT_FEES, useObservedFees: true }
+    );
+    expect(costs.fees).toBeCloseTo(0.5);
+  });
+
+  it('caps slippage so the price stays within [0, 1]', () => {
+    const model: CostModel = { ...ZERO_COST_MODEL, slippage: linearSlippage(1000) };
+    const costs = calculateOrderCosts({ amount: 100, price: 0.95, side: 'buy', market: market() }, model);
+    expect(costs.slippage).toBeCloseTo(0.05 * 100);
+  });
+
+  it('adds the fixed cost per order', () => {
+    const model: CostModel = { ...ZERO_COST_MODEL, slippage: noSlippage, fixedCostPerOrder: 0.25 };
+    const costs = calculateOrderCosts({ amount: 10, price: 0.5, side: 'buy', market: market() }, model);
+    expect(costs).toEqual({ fees: 0, slippage: 0, fixedCosts: 0.25, total: 0.25 });
+  });
+});
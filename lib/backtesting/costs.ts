@@ -0,0 +1,122 @@
+/**
+ * Trading Cost Model
+ *
+ * Prices the friction on each filled order: exchange fees, price impact
+ * (slippage) that grows with order size relative to market liquidity, and a
+ * fixed per-order cost such as gas.
+ */
+
+import { CostBreakdown, CostModel, PolymarketMarket, SlippageCurve } from '@/types';
+import { collateralPerShare } from './positions';
+
+export interface OrderCostInput {
+  amount: number;  // Filled shares
+  price: number;   // Average fill price before slippage
+  side: 'buy' | 'sell';
+  market: PolymarketMarket;
+}
+
+/**
+ * No slippage at any size
+ */
+export const noSlippage: SlippageCurve = () => 0;
+
+/**
+ * Impact grows linearly with order size as a share of liquidity
+ */
+export const linearSlippage =
+  (coefficient: number): SlippageCurve =>
+  (notional, liquidity) =>
+    liquidity > 0 ? coefficient * (notional / liquidity) : 0;
+
+/**
+ * Square-root impact law commonly observed in order book markets
+ */
+export const squareRootSlippage =
+  (coefficient: number): SlippageCurve =>
+  (notional, liquidity) =>
+    liquidity > 0 ? coefficient * Math.sqrt(notional / liquidity) : 0;
+
+export const ZERO_COST_MODEL: CostModel = {
+  feeBps: 0,
+  useObservedFees: false,
+  slippage: noSlippage,
+  fixedCostPerOrder: 0,
+};
+
+export const DEFAULT_COST_MODEL: CostModel = {
+  feeBps: 0,
+  useObservedFees: true,
+  slippage: squareRootSlippage(0.1),
+  fixedCostPerOrder: 0.01,
+};
+
+export const emptyCostBreakdown = (): CostBreakdown => ({
+  fees: 0,
+  slippage: 0,
+  fixedCosts: 0,
+  total: 0,
+});
+
+export const addCostBreakdowns = (
+  a: CostBreakdown,
+  b: CostBreakdown
+): CostBreakdown => ({
+  fees: a.fees + b.fees,
+  slippage: a.slippage + b.slippage,
+  fixedCosts: a.fixedCosts + b.fixedCosts,
+  total: a.total + b.total,
+});
+
+export const scaleCostBreakdown = (
+  breakdown: CostBreakdown,
+  factor: number
+): CostBreakdown => ({
+  fees: breakdown.fees * factor,
+  slippage: breakdown.slippage * factor,
+  fixedCosts: breakdown.fixedCosts * factor,
+  total: breakdown.total * factor,
+});
+
+/**
+ * Fee rate implied by the fees recorded on a market's trades
+ */
+export function observedFeeBps(market: PolymarketMarket): number | null {
+  const feeTrades = market.trades.filter((t) => t.fee !== undefined);
+  if (feeTrades.length === 0) return null;
+
+  const notional = feeTrades.reduce((sum, t) => sum + t.amount * t.price, 0);
+  const fees = feeTrades.reduce((sum, t) => sum + (t.fee ?? 0), 0);
+  return notional > 0 ? (fees / notional) * 10000 : null;
+}
+
+/**
+ * Calculate the friction cost of a filled order
+ */
+export function calculateOrderCosts(
+  input: OrderCostInput,
+  model: CostModel
+): CostBreakdown {
+  const { amount, price, side, market } = input;
+  if (amount <= 0) return emptyCostBreakdown();
+
+  // A sell buys the complement, so its notional is at `1 - price` a share
+  const notional = amount * collateralPerShare(side, price);
+  // A market observed to charge 0 bps is free to trade, not missing a rate
+  const feeBps = (model.useObservedFees ? observedFeeBps(market) : null) ?? model.feeBps;
+
+  // Impact is capped so the effective price never leaves the [0, 1] range
+  const impact = Math.max(0, model.slippage(notional, market.liquidity));
+  const maxImpact = side === 'buy' ? 1 - price : price;
+  const slippage = Math.min(impact, maxImpact) * amount;
+
+  const fees = (notional + slippage) * (feeBps / 10000);
+  const fixedCosts = model.fixedCostPerOrder;
+
+  return {
+    fees,
+    slippage,
+    fixedCosts,
+    total: fees + slippage + fixedCosts,
+  };
+}
@@ -4,124 +4,514 @@ import {
   BacktestResult,
   BacktestBet,
   EarningsPoint,
+  BacktestOptions,
   Bet,
-  StrategyContext,
+  ValidationOptions,
+  ValidationResult,
+  ValidationFold,
+  RejectionLogEntry,
+  OptimizationOptions,
+  OptimizationResult,
 } from '@/types';
-import { orderBy } from 'lodash';
+import { omit, orderBy, uniqBy } from 'lodash';
+import { resolveOutcomeName } from '@/lib/outcomes';
+import { isRealData, summarizeProvenance } from '@/lib/provenance';
+import { simulateFills, createTradeLiquidity, DEFAULT_FILL_EXPIRY_SECONDS } from './fills';
+import {
+  calculateOrderCosts,
+  addCostBreakdowns,
+  emptyCostBreakdown,
+  DEFAULT_COST_MODEL,
+} from './costs';
+import {
+  simulatePortfolio,
+  entryTime,
+  settlementTime,
+  DEFAULT_INITIAL_BANKROLL,
+} from './portfolio';
+import { collateralPerShare, payoutPerShare } from './positions';
+import { findExit } from './exits';
+import { calculatePerformanceMetrics } from './metrics';
+import { splitHoldout, createFoldSplits, summarizeFolds } from './validation';
+import {
+  calculateConfidenceIntervals,
+  DEFAULT_CONFIDENCE_ITERATIONS,
+} from './confidence';
+import { decideAtSnapshots, checkLeakage, isLeakageRejection } from './snapshots';
+import { replayEvents, isEventDriven } from './replay';
+import {
+  searchSteps,
+  EvaluatedTrial,
+  rankTrials,
+  buildHeatmaps,
+  DEFAULT_OPTIMIZATION_OBJECTIVE,
+} from './optimizer';
 
 export class BacktestEngine {
   /**
    * Backtest a strategy on historical market data
    */
-  static backtest(
+  static async backtest(
     strategy: Strategy,
     markets: PolymarketMarket[],
-    trainingRatio = 0.8
-  ): BacktestResult {
+    options: BacktestOptions = {}
+  ): Promise<BacktestResult> {
+    const { trainingRatio = 0.8 } = options;
+
     console.log(`\n=== Backtesting ${strategy.name} ===`);
     console.log(`Total markets provided: ${markets.length}`);
 
+    const { available } = this.splitResolvedMarkets(strategy, markets, options);
+
+    // Single chronological split at `trainingRatio`; validate() runs the walk-forward and k-fold modes
+    const splitIndex = Math.floor(available.length * trainingRatio);
+    const testMarkets = available.slice(splitIndex);
+    const trainingMarkets = available.slice(0, splitIndex);
+
+    console.log(`Training markets: ${trainingMarkets.length}, Test markets: ${testMarkets.length}`);
+
+    return (await this.evaluate(strategy, trainingMarkets, testMarkets, options)).result;
+  }
+
+  /**
+   * Evaluate a strategy over several chronological train/test folds
+   * (walk-forward or purged k-fold), never touching the held-out final slice
+   */
+  static async validate(
+    strategy: Strategy,
+    markets: PolymarketMarket[],
+    options: ValidationOptions
+  ): Promise<ValidationResult> {
+    console.log(`\n=== Validating ${strategy.name} (${options.mode}) ===`);
+
+    const { available, holdout } = this.splitResolvedMarkets(strategy, markets, options);
+    const splits = createFoldSplits(available, options);
+    console.log(`Created ${splits.length} folds from ${available.length} markets (${holdout.length} held out)`);
+
+    const folds: ValidationFold[] = [];
+    const outOfSampleBets: BacktestBet[] = [];
+    const outOfSampleMarkets: PolymarketMarket[] = [];
+
+    for (const split of splits) {
+      console.log(`Fold ${split.fold}: ${split.training.length} training, ${split.test.length} test markets`);
+      const { result, simulatedBets } = await this.evaluate(
+        strategy,
+        split.training,
+        split.test,
+        options
+      );
+      folds.push({
+        fold: split.fold,
+        testStart: split.testStart,
+        testEnd: split.testEnd,
+        trainingMarkets: split.training.length,
+        testMarkets: split.test.length,
+        result,
+      });
+      outOfSampleBets.push(...simulatedBets);
+      outOfSampleMarkets.push(...split.test);
+    }
+
+    // Test sets are disjoint, so their bets form one out-of-sample track record
+    const combined = this.summarize(
+      strategy,
+      outOfSampleBets,
+      uniqBy(outOfSampleMarkets, 'marketId'),
+      options
+    );
+
+    return {
+      strategyId: strategy.id,
+      strategyName: strategy.name,
+      mode: options.mode,
+      folds,
+      combined,
+      ...summarizeFolds(folds),
+      heldOutMarkets: holdout.length,
+    };
+  }
+
+  /**
+   * Backtest a strategy on the held-out final slice only. Call this once at
+   * the end of an optimisation run, never inside the loop that tunes strategies.
+   */
+  static async evaluateHoldout(
+    strategy: Strategy,
+    markets: PolymarketMarket[],
+    options: BacktestOptions = {}
+  ): Promise<BacktestResult> {
+    console.log(`\n=== Held-out evaluation of ${strategy.name} ===`);
+
+    const { available, holdout } = this.splitResolvedMarkets(strategy, markets, options);
+    return (await this.evaluate(strategy, available, holdout, options)).result;
+  }
+
+  /**
+   * Search a strategy's parameters on the training split. Each trial
+   * backtests the training markets alone (splitting them again into its own
+   * train/test), so the test slice and the holdout never steer the search.
+   * The thread is handed back between trials, so a browser page stays
+   * responsive during a long search.
+   */
+  static async optimize(
+    strategy: Strategy,
+    markets: PolymarketMarket[],
+    options: OptimizationOptions,
+    onTrial?: (completed: number) => void
+  ): Promise<OptimizationResult> {
+    const { trainingRatio = 0.8, objective = DEFAULT_OPTIMIZATION_OBJECTIVE } = options;
+
+    console.log(`\n=== Optimising ${strategy.name} (${options.method} search on ${objective}) ===`);
+
+    const { available } = this.splitResolvedMarkets(strategy, markets, options);
+    const trainingMarkets = available.slice(0, Math.floor(available.length * trainingRatio));
+    const trialOptions: BacktestOptions = {
+      ...omit(options, ['method', 'ranges', 'iterations', 'objective']),
+      holdoutRatio: 0,
+      confidenceIterations: 0,
+    };
+
+    const steps = searchSteps(options, (parameters) =>
+      this.backtest(
+        { ...strategy, parameters: { ...strategy.parameters, ...parameters } },
+        trainingMarkets,
+        trialOptions
+      )
+    );
+    const evaluated: EvaluatedTrial[] = [];
+    for await (const trial of steps) {
+      evaluated.push(trial);
+      onTrial?.(evaluated.length);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    const trials = rankTrials(evaluated);
+    console.log(`Ran ${trials.length} trials on ${trainingMarkets.length} training markets`);
+
+    return {
+      strategyId: strategy.id,
+      strategyName: strategy.name,
+      method: options.method,
+      objective,
+      trials,
+      best: trials[0] ?? null,
+      heatmaps: buildHeatmaps(trials, options.ranges),
+      trainingMarkets: trainingMarkets.length,
+    };
+  }
+
+  /**
+   * Resolved markets in chronological order, minus the held-out final slice.
+   * With `realDataOnly`, markets with any synthetic data are left out.
+   */
+  private static splitResolvedMarkets(
+    strategy: Strategy,
+    markets: PolymarketMarket[],
+    options: BacktestOptions
+  ) {
     // Filter only resolved markets for backtesting
-    const resolvedMarkets = markets.filter((m) => m.resolvedOutcome !== null);
-    console.log(`Resolved markets: ${resolvedMarkets.length}`);
+    const resolvedMarkets = markets.filter(
+      (m) => m.resolvedOutcome !== null && (!options.realDataOnly || isRealData(m))
+    );
+    console.log(`Resolved markets: ${resolvedMarkets.length}${options.realDataOnly ? ' (real data only)' : ''}`);
 
     if (resolvedMarkets.length === 0) {
       console.warn(`⚠️ No resolved markets found for backtesting ${strategy.name}`);
     }
 
-    // Split chronologically: 80% training, 20% test
-    const sortedMarkets = orderBy(resolvedMarkets, ['endDate'], ['asc']);
-    const splitIndex = Math.floor(sortedMarkets.length * trainingRatio);
-    const testMarkets = sortedMarkets.slice(splitIndex);
-    const trainingMarkets = sortedMarkets.slice(0, splitIndex);
+    return splitHoldout(resolvedMarkets, options.holdoutRatio ?? 0);
+  }
 
-    console.log(`Training markets: ${trainingMarkets.length}, Test markets: ${testMarkets.length}`);
+  /**
+   * Collect the strategy's bets on the test markets, either at point-in-time
+   * snapshots or by replaying market events, then simulate them
+   */
+  private static async evaluate(
+    strategy: Strategy,
+    trainingMarkets: PolymarketMarket[],
+    testMarkets: PolymarketMarket[],
+    options: BacktestOptions
+  ): Promise<{ result: BacktestResult; simulatedBets: BacktestBet[] }> {
+    const marketsById = new Map(testMarkets.map((m) => [m.marketId, m]));
+    const replayMode =
+      options.replayMode ?? (isEventDriven(strategy) ? 'events' : 'snapshots');
+    const decisions =
+      replayMode === 'events'
+        ? await replayEvents(strategy, trainingMarkets, testMarkets, options)
+        : await decideAtSnapshots(strategy, trainingMarkets, testMarkets, options);
 
-    const preparedTestMarkets = testMarkets.map((market) =>
-      this.prepareMarketSnapshot(market)
-    );
+    const proposedBets: Bet[] = [];
+    const screenedBets: BacktestBet[] = [];
+    const screenOut = (bet: Bet, reason: string) =>
+      screenedBets.push({
+        ...bet,
+        result: 'rejected',
+        payout: 0,
+        cost: 0,
+        filledAmount: 0,
+        fillPrice: 0,
+        fills: [],
+        costBreakdown: emptyCostBreakdown(),
+        rejectionReason: reason,
+      });
+
+    decisions.forEach(({ bet, asOf }) => {
+      const market = marketsById.get(bet.marketId);
+      if (!market) return;
+
+      // An order cannot be placed before it was decided on
+      const decidedAt = new Date(bet.timestamp ?? asOf);
+      const placed: Bet = {
+        ...bet,
+        timestamp: decidedAt.getTime() > asOf.getTime() ? decidedAt : asOf,
+      };
 
-    const backtestContext: StrategyContext = {
-      mode: 'backtest',
-      trainingMarkets,
-      evaluationMarkets: testMarkets,
+      const leakage = checkLeakage(placed, market, asOf);
+      if (leakage) {
+        screenOut(placed, leakage);
+        return;
+      }
+
+      // Bets may name an outcome or its token ID
+      const outcome = resolveOutcomeName(market, bet.outcome ?? '');
+      if (!outcome) {
+        screenOut(placed, `Unknown outcome "${bet.outcome}"`);
+        return;
+      }
+      proposedBets.push({ ...placed, outcome });
+    });
+
+    console.log(`Generated ${proposedBets.length + screenedBets.length} bets (${screenedBets.length} screened out)`);
+
+    const simulatedBets = [
+      ...this.simulateBets(proposedBets, testMarkets, options),
+      ...screenedBets,
+    ];
+    return {
+      result: this.summarize(strategy, simulatedBets, testMarkets, options),
+      simulatedBets,
     };
+  }
 
-    // Generate bets for test markets
-    console.log(`Generating bets for ${preparedTestMarkets.length} test markets...`);
-    const proposedBets = strategy.generateBets(
-      preparedTestMarkets,
-      backtestContext
-    );
-    console.log(`Generated ${proposedBets.length} bets`);
+  /**
+   * Replay fills, trading costs and exits for each proposed bet
+   */
+  private static simulateBets(
+    proposedBets: Bet[],
+    testMarkets: PolymarketMarket[],
+    options: BacktestOptions
+  ): BacktestBet[] {
+    const {
+      fillModel = 'limit',
+      defaultExpirySeconds = DEFAULT_FILL_EXPIRY_SECONDS,
+      costModel = DEFAULT_COST_MODEL,
+    } = options;
 
-    const backtestBets: BacktestBet[] = [];
-    let cumulativeEarnings = 0;
-    const earningsOverTime: EarningsPoint[] = [];
+    const simulatedBets: BacktestBet[] = [];
+    const liquidity = createTradeLiquidity();
 
-    // Simulate each bet
-    proposedBets.forEach((bet) => {
+    // Simulate each bet in the order it was placed, so earlier orders take a
+    // trade's volume first
+    orderBy(proposedBets, [(bet) => bet.timestamp.getTime()], ['asc']).forEach((bet) => {
       const market = testMarkets.find((m) => m.marketId === bet.marketId);
       if (!market || !market.resolvedOutcome) return;
 
-      // Calculate bet outcome
-      const betWon = this.isBetWinner(bet, market.resolvedOutcome);
-      const cost = bet.amount * bet.priceLimit;
-      const payout = betWon ? bet.amount : 0; // Simplified: 1 share = $1 if won
+      // Replay the market after the bet to see what actually filled
+      const { fills, filledAmount, averagePrice } = simulateFills(bet, market, {
+        fillModel,
+        defaultExpirySeconds,
+        liquidity,
+      });
+
+      if (filledAmount === 0) {
+        simulatedBets.push({
+          ...bet,
+          result: 'unfilled',
+          payout: 0,
+          cost: 0,
+          filledAmount: 0,
+          fillPrice: 0,
+          fills,
+          costBreakdown: emptyCostBreakdown(),
+        });
+        return;
+      }
+
+      let costBreakdown = calculateOrderCosts(
+        { amount: filledAmount, price: averagePrice, side: bet.side, market },
+        costModel
+      );
+
+      // Exit early at the replayed market price if the bet's exit rule fires
+      const enteredAt = fills[0].timestamp;
+      const exit =
+        bet.intent === 'close'
+          ? null
+          : findExit(bet, market, enteredAt, settlementTime(market, enteredAt));
+
+      let payout: number;
+      if (exit) {
+        costBreakdown = addCostBreakdowns(
+          costBreakdown,
+          calculateOrderCosts(
+            {
+              amount: filledAmount,
+              price: exit.price,
+              side: bet.side === 'buy' ? 'sell' : 'buy',
+              market,
+            },
+            costModel
+          )
+        );
+        // Held tokens are worth the outcome price (longs) or its complement (shorts)
+        payout = filledAmount * collateralPerShare(bet.side, exit.price);
+      } else {
+        // Calculate bet outcome: 1 share = $1 if won, its share of $1 on a split
+        payout = filledAmount * payoutPerShare(bet, market);
+      }
 
-      cumulativeEarnings += payout - cost;
+      const cost =
+        filledAmount * collateralPerShare(bet.side, averagePrice) +
+        costBreakdown.total;
 
-      backtestBets.push({
+      simulatedBets.push({
         ...bet,
-        result: betWon ? 'win' : 'loss',
+        result: payout > cost ? 'win' : 'loss',
         payout,
         cost,
+        filledAmount,
+        fillPrice: averagePrice,
+        fills,
+        costBreakdown,
+        ...(exit ? { exitFill: exit } : {}),
       });
+    });
+
+    return simulatedBets;
+  }
+
+  /**
+   * Run simulated bets through the bankroll and compute the result metrics
+   */
+  private static summarize(
+    strategy: Strategy,
+    simulatedBets: BacktestBet[],
+    testMarkets: PolymarketMarket[],
+    options: BacktestOptions
+  ): BacktestResult {
+    const {
+      initialBankroll = DEFAULT_INITIAL_BANKROLL,
+      confidenceIterations = DEFAULT_CONFIDENCE_ITERATIONS,
+      seed,
+    } = options;
 
+    // Run filled bets through the bankroll: enter in time order, lock capital
+    // until exit or resolution and reject anything the free cash cannot cover.
+    // Strategies that opt into sizing are resized against equity at entry,
+    // and the risk limits veto new positions for any strategy.
+    const { bets: backtestBets, summary: portfolio } = simulatePortfolio(
+      simulatedBets,
+      testMarkets,
+      { initialBankroll, sizing: strategy.sizing, riskLimits: options.riskLimits }
+    );
+
+    // Earnings are booked when PnL is realised, so exits show up intra-market
+    const earningsOverTime: EarningsPoint[] = [];
+    let cumulativeEarnings = 0;
+    orderBy(
+      backtestBets.filter((b) => b.result === 'win' || b.result === 'loss'),
+      [(b) => (b.realizedAt ?? entryTime(b)).getTime()],
+      ['asc']
+    ).forEach((bet) => {
+      cumulativeEarnings += bet.payout - bet.cost;
       earningsOverTime.push({
-        timestamp: bet.timestamp,
+        timestamp: bet.realizedAt ?? bet.timestamp,
         cumulativeEarnings,
         strategyId: strategy.id,
       });
     });
 
-    // Calculate metrics
-    const wins = backtestBets.filter((b) => b.result === 'win').length;
-    const losses = backtestBets.filter((b) => b.result === 'loss').length;
-    const totalCost = backtestBets.reduce((sum, b) => sum + b.cost, 0);
-    const totalWinnings = backtestBets.reduce((sum, b) => sum + b.payout, 0);
+    // Calculate metrics (unfilled and rejected orders never put capital at risk)
+    const unfilledBets = backtestBets.filter((b) => b.result === 'unfilled').length;
+    const leakageFlags = backtestBets.filter(isLeakageRejection).length;
+    const rejectionLog: RejectionLogEntry[] = orderBy(
+      backtestBets.filter((b) => b.result === 'rejected'),
+      [(b) => b.timestamp.getTime()],
+      ['asc']
+    ).map((b) => ({
+      timestamp: b.timestamp,
+      marketId: b.marketId,
+      outcome: b.outcome,
+      side: b.side,
+      amount: b.amount,
+      ...(b.riskRule ? { rule: b.riskRule } : {}),
+      reason: b.rejectionReason ?? 'Rejected',
+    }));
+    const filledBets = backtestBets.filter(
+      (b) => b.result === 'win' || b.result === 'loss'
+    );
+    const wins = filledBets.filter((b) => b.result === 'win').length;
+    const losses = filledBets.filter((b) => b.result === 'loss').length;
+    const totalCost = filledBets.reduce((sum, b) => sum + b.cost, 0);
+    const totalWinnings = filledBets.reduce((sum, b) => sum + b.payout, 0);
     const netProfit = totalWinnings - totalCost;
     const roi = totalCost > 0 ? (netProfit / totalCost) * 100 : 0;
+    const costBreakdown = filledBets.reduce(
+      (sum, b) => addCostBreakdowns(sum, b.costBreakdown),
+      emptyCostBreakdown()
+    );
+
+    console.log(`Filled ${filledBets.length}/${backtestBets.length} bets (${unfilledBets} unfilled, ${portfolio.rejectedBets} rejected by portfolio, ${leakageFlags} look-ahead)`);
+    if (portfolio.haltedAt) {
+      console.warn(`⚠️ Drawdown kill switch halted new positions on ${portfolio.haltedAt.toISOString()}`);
+    }
+    console.log(`Bankroll: $${portfolio.initialBankroll.toFixed(2)} → $${portfolio.finalEquity.toFixed(2)}, peak exposure $${portfolio.peakExposure.toFixed(2)}, avg utilisation ${portfolio.averageUtilisation.toFixed(1)}%`);
+    console.log(`Trading costs: $${costBreakdown.total.toFixed(2)} (fees $${costBreakdown.fees.toFixed(2)}, slippage $${costBreakdown.slippage.toFixed(2)}, fixed $${costBreakdown.fixedCosts.toFixed(2)})`);
+
+    const metrics = calculatePerformanceMetrics(
+      backtestBets,
+      portfolio.equityCurve,
+      testMarkets
+    );
+    console.log(`Sharpe ${metrics.sharpeRatio.toFixed(2)}, Sortino ${metrics.sortinoRatio.toFixed(2)}, max drawdown ${metrics.maxDrawdownPercent.toFixed(1)}%, Brier ${metrics.brierScore.toFixed(3)}`);
+
+    const confidence = calculateConfidenceIntervals(
+      backtestBets,
+      initialBankroll,
+      confidenceIterations,
+      seed
+    );
+    console.log(`ROI 95% CI [${confidence.roi.lower.toFixed(1)}%, ${confidence.roi.upper.toFixed(1)}%], p = ${confidence.pValue.toFixed(3)}`);
 
     return {
       strategyId: strategy.id,
       strategyName: strategy.name,
-      totalBets: backtestBets.length,
+      totalBets: filledBets.length,
       wins,
       losses,
-      winRate: backtestBets.length > 0 ? (wins / backtestBets.length) * 100 : 0,
+      winRate: filledBets.length > 0 ? (wins / filledBets.length) * 100 : 0,
       totalCost,
       totalWinnings,
       netProfit,
       roi,
+      grossProfit: netProfit + costBreakdown.total,
+      costBreakdown,
+      unfilledBets,
+      fillRate:
+        backtestBets.length > 0
+          ? ((backtestBets.length - unfilledBets) / backtestBets.length) * 100
+          : 0,
+      leakageFlags,
+      rejectionLog,
       bets: backtestBets,
       earningsOverTime,
+      portfolio,
+      metrics,
+      confidence,
+      dataProvenance: summarizeProvenance(testMarkets),
     };
   }
 
-  /**
-   * Determine if a bet won based on market resolution
-   */
-  private static isBetWinner(bet: Bet, resolvedOutcome: string): boolean {
-    // Simplified logic: buy bets win if outcome matches
-    if (bet.side === 'buy') {
-      return bet.outcome.toLowerCase() === resolvedOutcome.toLowerCase();
-    } else {
-      // Sell bets win if outcome doesn't match
-      return bet.outcome.toLowerCase() !== resolvedOutcome.toLowerCase();
-    }
-  }
-
   /**
    * Calculate summary statistics for historical data
    */
@@ -159,30 +549,4 @@ export class BacktestEngine {
       topOutcomes: outcomeFreq,
     };
   }
-
-  /**
-   * Prepare a market snapshot for backtesting so strategies see unresolved data
-   */
-  private static prepareMarketSnapshot(
-    market: PolymarketMarket
-  ): PolymarketMarket {
-    const historicalPrices = orderBy(
-      market.historicalPrices.map((price) => ({ ...price })),
-      ['timestamp'],
-      ['asc']
-    );
-    const trades = orderBy(
-      market.trades.map((trade) => ({ ...trade })),
-      ['timestamp'],
-      ['asc']
-    );
-
-    return {
-      ...market,
-      active: true,
-      resolvedOutcome: null,
-      historicalPrices,
-      trades,
-    };
-  }
 }
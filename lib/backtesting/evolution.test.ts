@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { EvolutionOptions, ParameterRange, Strategy } from '@/types';
+import { createEvolution, Evolution } from './evolution';
+import { at, market, pricePoint } from './test-utils';
+
+// Cheap Yes tokens win and expensive ones lose, so a low price cap is best
+const markets = Array.from({ length: 12 }, (_, i) => {
+  const cheap = i % 2 === 0;
+  return market({
+    marketId: `m${i}`,
+    endDate: at(i * 24 + 20),
+    resolutionDate: at(i * 24 + 20),
+    resolvedOutcome: cheap ? 'Yes' : 'No',
+    historicalPrices: [pricePoint(i * 24, cheap ? 0.3 : 0.7), pricePoint(i * 24 + 10, cheap ? 0.3 : 0.7)],
+  });
+});
+
+const priceCap: Strategy = {
+  id: 'price-cap',
+  name: 'Price Cap',
+  description: 'Buys Yes below a price cap',
+  type: 'spike_detection',
+  parameters: { maxPrice: 0.9 },
+  generateBets: (list, context) =>
+    list.flatMap((m) => {
+      const first = m.historicalPrices[0];
+      if (!first || first.price > context.parameters?.maxPrice) return [];
+      return [
+        {
+          marketId: m.marketId,
+          outcome: 'Yes',
+          side: 'buy' as const,
+          amount: 10,
+          priceLimit: first.price + 0.05,
+          reason: 'Under the cap',
+          timestamp: first.timestamp,
+        },
+      ];
+    }),
+};
+
+const ranges: Record<string, ParameterRange[]> = {
+  'price-cap': [{ name: 'maxPrice', min: 0.1, max: 0.9, step: 0.1 }],
+};
+
+const options: EvolutionOptions = {
+  mode: 'walk_forward',
+  folds: 2,
+  populationSize: 6,
+  hallOfFameSize: 3,
+  objective: 'net_profit',
+  seed: 11,
+};
+
+const run = async (generations: number) => {
+  const evolution = createEvolution([priceCap], ranges, markets, options);
+  for (let i = 0; i < generations; i++) await evolution.step();
+  return evolution;
+};
+const fitnesses = (evolution: Evolution) => evolution.population().map((i) => i.fitness);
+
+describe('createEvolution', () => {
+  it('seeds the population from the strategy and fills it to size', async () => {
+    const evolution = await run(1);
+    expect(evolution.population()).toHaveLength(6);
+    expect(evolution.population()[0].parameters).toEqual({ maxPrice: 0.9 });
+  });
+
+  it('repeats a run for the same seed', async () => {
+    expect(fitnesses(await run(3))).toEqual(fitnesses(await run(3)));
+  });
+
+  it('keeps the best individuals in the hall of fame', async () => {
+    const evolution = await run(3);
+    const hallOfFame = evolution.hallOfFame();
+    expect(hallOfFame).toHaveLength(3);
+    expect(hallOfFame[0].parameters.maxPrice).toBeLessThan(0.7);
+    expect(hallOfFame[0].fitness).toBeGreaterThanOrEqual(Math.max(...fitnesses(evolution)));
+  });
+
+  it('resumes from a checkpoint where the uninterrupted run would be', async () => {
+    const first = await run(2);
+    const resumed = createEvolution([priceCap], ranges, markets, options, first.checkpoint());
+    await resumed.step();
+
+    const uninterrupted = await run(3);
+    expect(resumed.population().map((i) => i.parameters)).toEqual(
+      uninterrupted.population().map((i) => i.parameters)
+    );
+    expect(resumed.hallOfFame().map((i) => i.id)).toEqual(uninterrupted.hallOfFame().map((i) => i.id));
+  });
+});
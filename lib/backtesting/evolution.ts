@@ -0,0 +1,259 @@
+/**
+ * Evolutionary Strategy Search
+ *
+ * A genetic algorithm over strategy parameters, as an alternative to asking
+ * the LLM for improvements: a population of parameter sets per strategy is
+ * scored on out-of-sample validation, and each generation keeps the elite,
+ * breeds the rest by tournament selection, uniform crossover and Gaussian
+ * mutation, and records the best individuals ever seen in a hall of fame.
+ * Runs are reproducible for a given seed and need no API key.
+ */
+
+import {
+  EvolutionCheckpoint,
+  EvolutionOptions,
+  EvolvedIndividual,
+  GenerationSummary,
+  ParameterRange,
+  PolymarketMarket,
+  Strategy,
+} from '@/types';
+import { omit, orderBy, uniqBy } from 'lodash';
+import { createRandom, Random, randomInt, randomNormal, DEFAULT_SEED } from '@/lib/random';
+import { BacktestEngine } from './engine';
+import { average } from './metrics';
+import {
+  objectiveScore,
+  sampleParameters,
+  snapToRange,
+  DEFAULT_OPTIMIZATION_OBJECTIVE,
+} from './optimizer';
+
+export const DEFAULT_POPULATION_SIZE = 12;
+export const DEFAULT_ELITE_COUNT = 2;
+export const DEFAULT_TOURNAMENT_SIZE = 3;
+export const DEFAULT_CROSSOVER_RATE = 0.7;
+export const DEFAULT_MUTATION_RATE = 0.25;
+export const DEFAULT_MUTATION_SCALE = 0.15;
+export const DEFAULT_HALL_OF_FAME_SIZE = 5;
+
+type Parameters = Record<string, number>;
+
+interface Genome {
+  strategy: Strategy;
+  parameters: Parameters;
+  parents: string[];
+}
+
+export interface Evolution {
+  /** Score the current population and breed the next one */
+  step: () => Promise<GenerationSummary>;
+  population: () => EvolvedIndividual[];
+  hallOfFame: () => EvolvedIndividual[];
+  /** State needed to continue the search with `createEvolution` later */
+  checkpoint: () => EvolutionCheckpoint;
+}
+
+const parameterKey = (strategyId: string, parameters: Parameters) =>
+  `${strategyId}:${JSON.stringify(parameters)}`;
+
+/**
+ * Start an evolutionary search over the strategies that have parameter
+ * ranges. Each strategy's current parameters seed the population, topped up
+ * with random parameter sets, unless a checkpoint is given to resume from.
+ */
+export function createEvolution(
+  strategies: Strategy[],
+  ranges: Record<string, ParameterRange[]>,
+  markets: PolymarketMarket[],
+  options: EvolutionOptions,
+  resumeFrom?: EvolutionCheckpoint
+): Evolution {
+  const {
+    populationSize = DEFAULT_POPULATION_SIZE,
+    eliteCount = DEFAULT_ELITE_COUNT,
+    tournamentSize = DEFAULT_TOURNAMENT_SIZE,
+    crossoverRate = DEFAULT_CROSSOVER_RATE,
+    mutationRate = DEFAULT_MUTATION_RATE,
+    mutationScale = DEFAULT_MUTATION_SCALE,
+    hallOfFameSize = DEFAULT_HALL_OF_FAME_SIZE,
+    objective = DEFAULT_OPTIMIZATION_OBJECTIVE,
+    seed = DEFAULT_SEED,
+  } = options;
+  const validationOptions = {
+    ...omit(options, [
+      'populationSize',
+      'eliteCount',
+      'tournamentSize',
+      'crossoverRate',
+      'mutationRate',
+      'mutationScale',
+      'hallOfFameSize',
+      'objective',
+    ]),
+    // Bootstrap intervals do not affect fitness, so skip them unless asked for
+    confidenceIterations: options.confidenceIterations ?? 0,
+  };
+
+  // Each generation breeds from its own stream, so resumed runs match uninterrupted ones
+  let random: Random = createRandom(seed);
+  const evolvable = strategies.filter((s) => (ranges[s.id] ?? []).length > 0);
+  const cache = new Map<string, EvolvedIndividual>();
+  let generation = resumeFrom?.generation ?? 0;
+  let bornCount = resumeFrom?.bornCount ?? 0;
+  let population: EvolvedIndividual[] = [];
+  let hallOfFame: EvolvedIndividual[] = resumeFrom?.hallOfFame ?? [];
+  // Resumed elites keep their IDs instead of re-entering the hall of fame as new individuals
+  hallOfFame.forEach((i) => cache.set(parameterKey(i.strategyId, i.parameters), i));
+
+  const genesOf = (strategy: Strategy, parameters: Record<string, unknown>): Parameters =>
+    Object.fromEntries(
+      ranges[strategy.id].map((range) => {
+        const value = Number(parameters[range.name]);
+        return [range.name, Number.isFinite(value) ? snapToRange(range, value) : range.min];
+      })
+    );
+
+  let genomes: Genome[] = resumeFrom
+    ? resumeFrom.genomes.flatMap((genome) => {
+        const strategy = evolvable.find((s) => s.id === genome.strategyId);
+        return strategy ? [{ ...genome, strategy }] : [];
+      })
+    : evolvable.map((strategy) => ({
+        strategy,
+        parameters: genesOf(strategy, strategy.parameters),
+        parents: [],
+      }));
+  while (!resumeFrom && evolvable.length > 0 && genomes.length < populationSize) {
+    const strategy = evolvable[genomes.length % evolvable.length];
+    genomes.push({ strategy, parameters: sampleParameters(ranges[strategy.id], random), parents: [] });
+  }
+
+  // Validate a genome out of sample; repeat parameter sets reuse their score
+  const evaluate = async (genome: Genome): Promise<{ individual: EvolvedIndividual; fresh: boolean }> => {
+    const key = parameterKey(genome.strategy.id, genome.parameters);
+    const cached = cache.get(key);
+    if (cached) return { individual: cached, fresh: false };
+
+    const id = `g${generation}-${++bornCount}`;
+    const { combined: result } = await BacktestEngine.validate(
+      {
+        ...genome.strategy,
+        id: `${genome.strategy.id}:${id}`,
+        name: `${genome.strategy.name} (${id})`,
+        parameters: { ...genome.strategy.parameters, ...genome.parameters },
+      },
+      markets,
+      validationOptions
+    );
+    const individual: EvolvedIndividual = {
+      id,
+      strategyId: genome.strategy.id,
+      strategyName: genome.strategy.name,
+      generation,
+      parents: genome.parents,
+      parameters: genome.parameters,
+      fitness: objectiveScore(result, objective),
+      result,
+    };
+    cache.set(key, individual);
+    return { individual, fresh: true };
+  };
+
+  const tournament = (candidates: EvolvedIndividual[]) => {
+    let winner = candidates[randomInt(random, candidates.length)];
+    for (let i = 1; i < tournamentSize; i++) {
+      const challenger = candidates[randomInt(random, candidates.length)];
+      if (challenger.fitness > winner.fitness) winner = challenger;
+    }
+    return winner;
+  };
+
+  const mutate = (strategy: Strategy, parameters: Parameters): Parameters =>
+    Object.fromEntries(
+      ranges[strategy.id].map((range) => {
+        const value = parameters[range.name];
+        if (random() >= mutationRate) return [range.name, value];
+        const step = randomNormal(random) * mutationScale * (range.max - range.min);
+        return [range.name, snapToRange(range, value + step)];
+      })
+    );
+
+  // Children only mix parents evolving the same strategy
+  const breed = (ranked: EvolvedIndividual[]): Genome => {
+    const first = tournament(ranked);
+    const strategy = evolvable.find((s) => s.id === first.strategyId) as Strategy;
+    const mates = ranked.filter((i) => i.strategyId === first.strategyId && i.id !== first.id);
+
+    let parameters = { ...first.parameters };
+    const parents = [first.id];
+    if (mates.length > 0 && random() < crossoverRate) {
+      const second = tournament(mates);
+      parameters = Object.fromEntries(
+        Object.keys(parameters).map((name) => [
+          name,
+          random() < 0.5 ? first.parameters[name] : second.parameters[name],
+        ])
+      );
+      parents.push(second.id);
+    }
+    return { strategy, parameters: mutate(strategy, parameters), parents };
+  };
+
+  const step = async (): Promise<GenerationSummary> => {
+    generation++;
+    console.log(`\n=== Evolution generation ${generation}: ${genomes.length} individuals ===`);
+
+    let evaluated = 0;
+    population = [];
+    for (const genome of genomes) {
+      const { individual, fresh } = await evaluate(genome);
+      if (fresh) evaluated++;
+      population.push(individual);
+    }
+    const ranked = orderBy(population, ['fitness'], ['desc']);
+
+    hallOfFame = orderBy(uniqBy([...hallOfFame, ...ranked], 'id'), ['fitness'], ['desc']).slice(
+      0,
+      hallOfFameSize
+    );
+
+    // Elites survive unchanged, everyone else is bred from the ranked population
+    random = createRandom(seed + generation);
+    const elites = ranked.slice(0, eliteCount).map((individual) => ({
+      strategy: evolvable.find((s) => s.id === individual.strategyId) as Strategy,
+      parameters: individual.parameters,
+      parents: [individual.id],
+    }));
+    genomes = [...elites];
+    while (ranked.length > 0 && genomes.length < populationSize) {
+      genomes.push(breed(ranked));
+    }
+
+    const summary: GenerationSummary = {
+      generation,
+      bestFitness: ranked[0]?.fitness ?? 0,
+      meanFitness: average(ranked.map((i) => i.fitness)),
+      best: ranked[0] ?? null,
+      evaluated,
+    };
+    console.log(`Generation ${generation}: best ${objective} ${summary.bestFitness.toFixed(3)}, mean ${summary.meanFitness.toFixed(3)}, ${evaluated} new backtests`);
+    return summary;
+  };
+
+  return {
+    step,
+    population: () => population,
+    hallOfFame: () => hallOfFame,
+    checkpoint: () => ({
+      generation,
+      genomes: genomes.map(({ strategy, parameters, parents }) => ({
+        strategyId: strategy.id,
+        parameters,
+        parents,
+      })),
+      hallOfFame,
+      bornCount,
+    }),
+  };
+}
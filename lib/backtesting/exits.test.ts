@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { findExit } from './exits';
+import { at, bet, market, pricePoint } from './test-utils';
+
+const path = market({
+  historicalPrices: [
+    pricePoint(1, 0.5),
+    pricePoint(2, 0.45),
+    pricePoint(3, 0.7),
+    pricePoint(4, 0.3),
+    pricePoint(2, 0.9, 'No'),
+  ],
+});
+
+const exitFor = (fields: Parameters<typeof bet>[0], settleAt = at(100)) =>
+  findExit(bet(fields), path, at(0), settleAt);
+
+describe('findExit', () => {
+  it('takes profit on a long once the outcome price reaches the target', () => {
+    expect(exitFor({ exit: { takeProfit: 0.65 } })).toMatchObject({
+      timestamp: at(3),
+      price: 0.7,
+      reason: 'take_profit',
+    });
+  });
+
+  it('stops out a long when the price falls to the stop', () => {
+    expect(exitFor({ exit: { stopLoss: 0.45 } })).toMatchObject({ timestamp: at(2), reason: 'stop_loss' });
+  });
+
+  it('flips the targets for a short', () => {
+    expect(exitFor({ side: 'sell', exit: { takeProfit: 0.4 } })).toMatchObject({
+      timestamp: at(4),
+      reason: 'take_profit',
+    });
+    expect(exitFor({ side: 'sell', exit: { stopLoss: 0.6 } })).toMatchObject({
+      timestamp: at(3),
+      reason: 'stop_loss',
+    });
+  });
+
+  it('closes at the first price after the holding time', () => {
+    expect(exitFor({ exit: { maxHoldSeconds: 2.5 * 3600 } })).toMatchObject({
+      timestamp: at(3),
+      price: 0.7,
+      reason: 'time',
+    });
+  });
+
+  it('only reads the outcome held, and only before settlement', () => {
+    expect(exitFor({ exit: { takeProfit: 0.8 } })).toBeNull();
+    expect(exitFor({ exit: { takeProfit: 0.65 } }, at(3))).toBeNull();
+  });
+
+  it('holds to resolution without an exit rule', () => {
+    expect(exitFor({})).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Exit Simulation
+ *
+ * Replays a market's price history after a position is opened to find the
+ * first take-profit, stop-loss or time-based exit, so positions can be closed
+ * at the market price before the market resolves.
+ */
+
+import { BacktestExit, Bet, PolymarketMarket } from '@/types';
+import { sameOutcome } from '@/lib/outcomes';
+
+/**
+ * Take-profit and stop-loss are quoted as prices of the bet's outcome, so
+ * their direction flips for sells (which profit when the outcome falls)
+ */
+const hitsTakeProfit = (side: Bet['side'], price: number, target: number) =>
+  side === 'buy' ? price >= target : price <= target;
+
+const hitsStopLoss = (side: Bet['side'], price: number, stop: number) =>
+  side === 'buy' ? price <= stop : price >= stop;
+
+/**
+ * Find the first exit triggered by a bet's exit rule between entry and settlement
+ */
+export function findExit(
+  bet: Bet,
+  market: PolymarketMarket,
+  enteredAt: Date,
+  settleAt: Date
+): BacktestExit | null {
+  const rule = bet.exit;
+  if (!rule) return null;
+
+  const start = enteredAt.getTime();
+  const end = settleAt.getTime();
+  const deadline =
+    rule.maxHoldSeconds !== undefined ? start + rule.maxHoldSeconds * 1000 : Infinity;
+
+  const path = market.historicalPrices
+    .filter((p) => {
+      const time = p.timestamp.getTime();
+      return sameOutcome(p.outcome, bet.outcome) && time > start && time < end;
+    })
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const point of path) {
+    if (rule.takeProfit !== undefined && hitsTakeProfit(bet.side, point.price, rule.takeProfit)) {
+      return { timestamp: point.timestamp, price: point.price, reason: 'take_profit' };
+    }
+    if (rule.stopLoss !== undefined && hitsStopLoss(bet.side, point.price, rule.stopLoss)) {
+      return { timestamp: point.timestamp, price: point.price, reason: 'stop_loss' };
+    }
+    if (point.timestamp.getTime() >= deadline) {
+      return { timestamp: point.timestamp, price: point.price, reason: 'time' };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createTradeLiquidity, simulateFills } from './fills';
+import { bet, market, pricePoint, trade } from './test-utils';
+
+const LIMIT = { fillModel: 'limit' as const, defaultExpirySeconds: 24 * 60 * 60 };
+
+describe('simulateFills', () => {
+  it('fills at the price of the trade that crossed the limit', () => {
+    const m = market({ trades: [trade(1, 0.55, 500), trade(2, 0.42, 500)] });
+    const result = simulateFills(bet({ priceLimit: 0.5 }), m, LIMIT);
+
+    expect(result.fills).toEqual([expect.objectContaining({ price: 0.42, amount: 100 })]);
+    expect(result.averagePrice).toBe(0.42);
+  });
+
+  it('fills sells only on trades at or above the limit', () => {
+    const m = market({ trades: [trade(1, 0.45, 500), trade(2, 0.6, 500)] });
+    const result = simulateFills(bet({ side: 'sell', priceLimit: 0.5 }), m, LIMIT);
+
+    expect(result.averagePrice).toBe(0.6);
+  });
+
+  it('partially fills from limited trade volume', () => {
+    const m = market({ trades: [trade(1, 0.4, 30), trade(2, 0.45, 50)] });
+    const result = simulateFills(bet({ priceLimit: 0.5 }), m, LIMIT);
+
+    expect(result.filledAmount).toBe(80);
+    expect(result.averagePrice).toBeCloseTo((0.4 * 30 + 0.45 * 50) / 80);
+  });
+
+  it('shares a trade between orders of one run', () => {
+    const m = market({ trades: [trade(1, 0.4, 150)] });
+    const liquidity = createTradeLiquidity();
+
+    const first = simulateFills(bet(), m, { ...LIMIT, liquidity });
+    const second = simulateFills(bet(), m, { ...LIMIT, liquidity });
+    const third = simulateFills(bet(), m, { ...LIMIT, liquidity });
+
+    expect([first.filledAmount, second.filledAmount, third.filledAmount]).toEqual([100, 50, 0]);
+  });
+
+  it('ignores activity outside the order window', () => {
+    const m = market({ trades: [trade(-1, 0.4, 500), trade(30, 0.4, 500)] });
+    expect(simulateFills(bet(), m, LIMIT).filledAmount).toBe(0);
+  });
+
+  it('falls back to the price path only when nothing traded', () => {
+    const prices = [pricePoint(1, 0.6), pricePoint(2, 0.45)];
+    const fromPath = simulateFills(bet(), market({ historicalPrices: prices }), LIMIT);
+    expect(fromPath.fills).toEqual([expect.objectContaining({ price: 0.45, amount: 100 })]);
+
+    const withTrades = market({ historicalPrices: prices, trades: [trade(1, 0.6, 500)] });
+    expect(simulateFills(bet(), withTrades, LIMIT).filledAmount).toBe(0);
+  });
+
+  it('fills instant orders in full at the limit', () => {
+    const result = simulateFills(bet({ priceLimit: 0.3 }), market(), { ...LIMIT, fillModel: 'instant' });
+    expect(result).toMatchObject({ filledAmount: 100, averagePrice: 0.3 });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Fill Simulation
+ *
+ * Replays a market's trades and price history after a bet is placed to decide
+ * whether (and how much of) a limit order would actually have been filled.
+ * Orders fill at the price that crossed their limit, and within one run a
+ * trade's volume is used up by the orders it fills, so it cannot fill more
+ * than its own amount across bets.
+ */
+
+import { Bet, BacktestFill, FillModel, PolymarketMarket, Trade } from '@/types';
+import { sameOutcome } from '@/lib/outcomes';
+
+export const DEFAULT_FILL_EXPIRY_SECONDS = 24 * 60 * 60; // Orders rest for 1 day
+
+// Volume of each trade not yet taken by earlier orders in the run
+export type TradeLiquidity = Map<Trade, number>;
+
+export const createTradeLiquidity = (): TradeLiquidity => new Map();
+
+export interface FillSimulationOptions {
+  fillModel: FillModel;
+  defaultExpirySeconds: number;
+  liquidity?: TradeLiquidity; // Shared across a run's orders; each order sees a trade's full amount without it
+}
+
+export interface FillSimulation {
+  fills: BacktestFill[];
+  filledAmount: number;
+  averagePrice: number;
+}
+
+/**
+ * A buy limit fills when the market trades at or below it, a sell limit when
+ * the market trades at or above it.
+ */
+const tradesThroughLimit = (side: Bet['side'], price: number, limit: number) =>
+  side === 'buy' ? price <= limit : price >= limit;
+
+/**
+ * Simulate fills for a single bet against the market's recorded activity
+ */
+export function simulateFills(
+  bet: Bet,
+  market: PolymarketMarket,
+  options: FillSimulationOptions
+): FillSimulation {
+  if (options.fillModel === 'instant') {
+    return {
+      fills: [{ timestamp: bet.timestamp, price: bet.priceLimit, amount: bet.amount }],
+      filledAmount: bet.amount,
+      averagePrice: bet.priceLimit,
+    };
+  }
+
+  const start = bet.timestamp.getTime();
+  const expirySeconds = bet.expirySeconds ?? options.defaultExpirySeconds;
+  const end = start + expirySeconds * 1000;
+  const inWindow = (timestamp: Date) => {
+    const time = timestamp.getTime();
+    return time > start && time <= end;
+  };
+
+  const fills: BacktestFill[] = [];
+  let remaining = bet.amount;
+
+  // Trades carry volume, so they can partially fill the order
+  const trades = market.trades
+    .filter((t) => sameOutcome(t.outcome, bet.outcome) && inWindow(t.timestamp))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const trade of trades) {
+    if (remaining <= 0) break;
+    if (!tradesThroughLimit(bet.side, trade.price, bet.priceLimit)) continue;
+
+    const available = options.liquidity?.get(trade) ?? trade.amount;
+    if (available <= 0) continue;
+    const amount = Math.min(remaining, available);
+    options.liquidity?.set(trade, available - amount);
+    fills.push({ timestamp: trade.timestamp, price: trade.price, amount });
+    remaining -= amount;
+  }
+
+  // Trades are the only evidence of volume, so the price path is used only
+  // when the outcome did not trade at all while the order rested: the first
+  // point that crosses the limit then fills the whole order at that price. An
+  // order whose window had trades, none through its limit, stays unfilled.
+  if (trades.length === 0) {
+    const crossing = market.historicalPrices
+      .filter((p) => sameOutcome(p.outcome, bet.outcome) && inWindow(p.timestamp))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .find((p) => tradesThroughLimit(bet.side, p.price, bet.priceLimit));
+
+    if (crossing) {
+      fills.push({ timestamp: crossing.timestamp, price: crossing.price, amount: remaining });
+      remaining = 0;
+    }
+  }
+
+  const filledAmount = bet.amount - remaining;
+  const averagePrice =
+    filledAmount > 0
+      ? fills.reduce((sum, f) => sum + f.price * f.amount, 0) / filledAmount
+      : 0;
+
+  return { fills, filledAmount, averagePrice };
+}
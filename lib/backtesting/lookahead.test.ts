@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PolymarketMarket, Strategy } from '@/types';
+import { generateSyntheticMarket } from '@/lib/synthetic';
+import { decideAtSnapshots, snapshotMarket } from './snapshots';
+import { replayEvents } from './replay';
+
+const END = new Date(Date.UTC(2025, 0, 10));
+
+const resolvedMarket = (): PolymarketMarket =>
+  generateSyntheticMarket({ seed: 1, end: END, hours: 48, tradeCount: 20, resolved: true }).market;
+
+// A strategy that records every market it is shown and never bets
+const observer = (seen: PolymarketMarket[]): Strategy => ({
+  id: 'observer',
+  name: 'Observer',
+  description: 'Records the markets it sees',
+  type: 'ai_generated',
+  parameters: {},
+  generateBets: (markets) => {
+    seen.push(...markets.map((m) => ({ ...m })));
+    return [];
+  },
+});
+
+describe('point-in-time market views', () => {
+  it('settles the fixture market with payouts', () => {
+    expect(resolvedMarket().resolution?.payouts).toHaveLength(2);
+  });
+
+  it('hides the resolution from a snapshot', () => {
+    const snapshot = snapshotMarket(resolvedMarket(), new Date(END.getTime() - 24 * 60 * 60 * 1000));
+    expect(snapshot.resolvedOutcome).toBeNull();
+    expect(snapshot).not.toHaveProperty('resolution');
+  });
+
+  it('never shows payouts to a strategy deciding at snapshots', async () => {
+    const seen: PolymarketMarket[] = [];
+    await decideAtSnapshots(observer(seen), [], [resolvedMarket()], { decisionIntervalHours: 6 });
+    expect(seen.length).toBeGreaterThan(0);
+    seen.forEach((market) => expect(market).not.toHaveProperty('resolution'));
+  });
+
+  it('reveals payouts in a replay only at the resolution event', async () => {
+    const market = resolvedMarket();
+    const beforeResolution: PolymarketMarket[] = [];
+    const atResolution: PolymarketMarket[] = [];
+    const strategy: Strategy = {
+      ...observer(beforeResolution),
+      onTick: (_tick, view) => {
+        beforeResolution.push({ ...view });
+      },
+      onResolution: (view) => {
+        atResolution.push({ ...view });
+      },
+    };
+
+    await replayEvents(strategy, [], [market], {});
+    expect(beforeResolution.length).toBeGreaterThan(0);
+    beforeResolution.forEach((view) => expect(view).not.toHaveProperty('resolution'));
+    expect(atResolution).toHaveLength(1);
+    expect(atResolution[0].resolution).toEqual(market.resolution);
+  });
+});
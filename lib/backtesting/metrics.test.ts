@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { EquityPoint } from '@/types';
+import {
+  calculatePerformanceMetrics,
+  calibrationBuckets,
+  dailyEquity,
+  drawdownStats,
+  sharpeRatio,
+  sortinoRatio,
+  standardDeviation,
+} from './metrics';
+import { at, filledBet, market } from './test-utils';
+
+const point = (hours: number, equity: number): EquityPoint => ({
+  timestamp: at(hours),
+  cash: equity,
+  lockedCapital: 0,
+  equity,
+  utilisation: 0,
+});
+
+describe('dailyEquity', () => {
+  it('keeps the last equity of each day and carries it over empty days', () => {
+    const curve = [point(0, 100), point(5, 110), point(50, 90)];
+    expect(dailyEquity(curve)).toEqual([110, 110, 90]);
+  });
+});
+
+describe('return ratios', () => {
+  it('uses the sample standard deviation', () => {
+    expect(standardDeviation([1, 3])).toBeCloseTo(Math.SQRT2);
+    expect(standardDeviation([5])).toBe(0);
+  });
+
+  it('annualises Sharpe over 365 days and is zero without variance', () => {
+    expect(sharpeRatio([0.01, 0.03])).toBeCloseTo((0.02 / standardDeviation([0.01, 0.03])) * Math.sqrt(365));
+    expect(sharpeRatio([0.01, 0.01])).toBe(0);
+  });
+
+  it('only counts downside moves for Sortino', () => {
+    expect(sortinoRatio([0.02, 0.04])).toBe(0);
+    expect(sortinoRatio([0.04, -0.02])).toBeCloseTo((0.01 / Math.sqrt(0.0002)) * Math.sqrt(365));
+  });
+});
+
+describe('drawdownStats', () => {
+  it('measures the deepest fall from a peak and the longest time under it', () => {
+    const stats = drawdownStats([point(0, 100), point(24, 80), point(48, 120), point(60, 90), point(120, 125)]);
+    expect(stats.maxDrawdown).toBe(30);
+    expect(stats.maxDrawdownPercent).toBeCloseTo(25);
+    expect(stats.maxDrawdownDurationDays).toBeCloseTo(1);
+  });
+});
+
+describe('calibrationBuckets', () => {
+  it('groups forecasts by implied probability, including 1 in the top bucket', () => {
+    const buckets = calibrationBuckets([
+      { probability: 0.25, outcome: 1 },
+      { probability: 0.28, outcome: 0 },
+      { probability: 1, outcome: 1 },
+    ]);
+    expect(buckets[2]).toMatchObject({ count: 2, realizedRate: 0.5 });
+    expect(buckets[2].averageImplied).toBeCloseTo(0.265);
+    expect(buckets[9].count).toBe(1);
+  });
+});
+
+describe('calculatePerformanceMetrics', () => {
+  it('scores PnL and forecasts of executed bets only', () => {
+    const bets = [
+      filledBet({ fillPrice: 0.4, cost: 40, payout: 100 }),
+      filledBet({ fillPrice: 0.8, cost: 80, payout: 0, result: 'loss', outcome: 'No' }),
+      filledBet({ result: 'unfilled', cost: 0, payout: 0 }),
+    ];
+    const metrics = calculatePerformanceMetrics(bets, [point(0, 1000), point(48, 1020)], [market()]);
+
+    expect(metrics.averageWin).toBe(60);
+    expect(metrics.averageLoss).toBe(-80);
+    expect(metrics.expectancy).toBe(-10);
+    expect(metrics.profitFactor).toBeCloseTo(0.75);
+    // Paid 0.4 for a winner and 0.8 for a loser
+    expect(metrics.brierScore).toBeCloseTo((0.36 + 0.64) / 2);
+  });
+
+  it('reports an infinite profit factor when nothing lost', () => {
+    const metrics = calculatePerformanceMetrics([filledBet({ cost: 40, payout: 100 })], [], [market()]);
+    expect(metrics.profitFactor).toBe(Infinity);
+  });
+});
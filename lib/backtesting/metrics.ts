@@ -0,0 +1,196 @@
+/**
+ * Performance Metrics
+ *
+ * Risk-adjusted statistics for a backtest: return ratios and drawdowns from
+ * the equity curve, per-bet PnL statistics, and how well the prices the
+ * strategy paid predicted the outcomes (Brier score, log-loss, calibration).
+ */
+
+import {
+  BacktestBet,
+  CalibrationBucket,
+  EquityPoint,
+  PerformanceMetrics,
+  PolymarketMarket,
+} from '@/types';
+import { collateralPerShare, payoutPerShare } from './positions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRADING_DAYS_PER_YEAR = 365; // Prediction markets trade every day
+const CALIBRATION_BUCKETS = 10;
+const PROBABILITY_EPSILON = 1e-6;
+
+export const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+export const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mu = average(values);
+  return Math.sqrt(
+    values.reduce((sum, v) => sum + Math.pow(v - mu, 2), 0) / (values.length - 1)
+  );
+};
+
+/**
+ * Resample the event-driven equity curve to end-of-day equity values
+ */
+export function dailyEquity(curve: EquityPoint[]): number[] {
+  if (curve.length === 0) return [];
+
+  const points = [...curve].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const firstDay = Math.floor(points[0].timestamp.getTime() / DAY_MS);
+  const lastDay = Math.floor(points[points.length - 1].timestamp.getTime() / DAY_MS);
+
+  const values: number[] = [];
+  let index = 0;
+  let equity = points[0].equity;
+  for (let day = firstDay; day <= lastDay; day++) {
+    const endOfDay = (day + 1) * DAY_MS;
+    while (index < points.length && points[index].timestamp.getTime() < endOfDay) {
+      equity = points[index].equity;
+      index++;
+    }
+    values.push(equity);
+  }
+  return values;
+}
+
+const periodReturns = (equity: number[]) =>
+  equity
+    .slice(1)
+    .map((value, i) => (equity[i] > 0 ? value / equity[i] - 1 : 0));
+
+/**
+ * Annualised Sharpe ratio of daily returns (zero risk-free rate)
+ */
+export function sharpeRatio(returns: number[]): number {
+  const deviation = standardDeviation(returns);
+  return deviation > 0
+    ? (average(returns) / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+    : 0;
+}
+
+/**
+ * Annualised Sortino ratio: like Sharpe but only penalises downside moves
+ */
+export function sortinoRatio(returns: number[]): number {
+  if (returns.length < 2) return 0;
+  const downside = Math.sqrt(
+    returns.reduce((sum, r) => sum + Math.pow(Math.min(r, 0), 2), 0) / returns.length
+  );
+  return downside > 0
+    ? (average(returns) / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+    : 0;
+}
+
+/**
+ * Largest peak-to-trough fall of the equity curve and the longest time spent
+ * below a previous peak
+ */
+export function drawdownStats(curve: EquityPoint[]) {
+  let peak = -Infinity;
+  let peakTime = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  let maxDurationMs = 0;
+
+  [...curve]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach((point) => {
+      const time = point.timestamp.getTime();
+      if (point.equity >= peak) {
+        peak = point.equity;
+        peakTime = time;
+        return;
+      }
+      const drawdown = peak - point.equity;
+      maxDrawdown = Math.max(maxDrawdown, drawdown);
+      maxDrawdownPercent = Math.max(maxDrawdownPercent, peak > 0 ? (drawdown / peak) * 100 : 0);
+      maxDurationMs = Math.max(maxDurationMs, time - peakTime);
+    });
+
+  return {
+    maxDrawdown,
+    maxDrawdownPercent,
+    maxDrawdownDurationDays: maxDurationMs / DAY_MS,
+  };
+}
+
+/**
+ * Implied probability of each executed bet paying out, paired with what it
+ * paid per share (1 or 0, or a fraction on a split resolution)
+ */
+function forecasts(bets: BacktestBet[], markets: PolymarketMarket[]) {
+  const byId = new Map(markets.map((m) => [m.marketId, m]));
+
+  return bets.flatMap((bet) => {
+    const market = byId.get(bet.marketId);
+    if (!market?.resolvedOutcome) return [];
+    return [
+      {
+        probability: collateralPerShare(bet.side, bet.fillPrice),
+        outcome: payoutPerShare(bet, market),
+      },
+    ];
+  });
+}
+
+export function calibrationBuckets(
+  pairs: { probability: number; outcome: number }[],
+  buckets = CALIBRATION_BUCKETS
+): CalibrationBucket[] {
+  return Array.from({ length: buckets }, (_, i) => {
+    const lower = i / buckets;
+    const upper = (i + 1) / buckets;
+    const inBucket = pairs.filter(
+      (p) => p.probability >= lower && (p.probability < upper || (i === buckets - 1 && p.probability <= upper))
+    );
+    return {
+      lower,
+      upper,
+      count: inBucket.length,
+      averageImplied: average(inBucket.map((p) => p.probability)),
+      realizedRate: average(inBucket.map((p) => p.outcome)),
+    };
+  });
+}
+
+/**
+ * Compute the full set of risk-adjusted metrics for a backtest
+ */
+export function calculatePerformanceMetrics(
+  bets: BacktestBet[],
+  equityCurve: EquityPoint[],
+  markets: PolymarketMarket[]
+): PerformanceMetrics {
+  const executed = bets.filter((b) => b.result === 'win' || b.result === 'loss');
+  const pnl = executed.map((b) => b.payout - b.cost);
+  const gains = pnl.filter((p) => p > 0);
+  const losses = pnl.filter((p) => p < 0);
+  const grossProfit = gains.reduce((sum, p) => sum + p, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, p) => sum + p, 0));
+
+  const returns = periodReturns(dailyEquity(equityCurve));
+
+  const pairs = forecasts(executed, markets);
+  const brierScore = average(pairs.map((p) => Math.pow(p.probability - p.outcome, 2)));
+  const logLoss = average(
+    pairs.map((p) => {
+      const q = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, p.probability));
+      return -(p.outcome * Math.log(q) + (1 - p.outcome) * Math.log(1 - q));
+    })
+  );
+
+  return {
+    sharpeRatio: sharpeRatio(returns),
+    sortinoRatio: sortinoRatio(returns),
+    ...drawdownStats(equityCurve),
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    averageWin: average(gains),
+    averageLoss: average(losses),
+    expectancy: average(pnl),
+    brierScore,
+    logLoss,
+    calibration: calibrationBuckets(pairs),
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestResult, ParameterRange } from '@/types';
+import {
+  gridPoints,
+  objectiveScore,
+  parameterValues,
+  rankTrials,
+  searchParameters,
+  searchSteps,
+  snapToRange,
+} from './optimizer';
+
+const RANGES: ParameterRange[] = [
+  { name: 'x', min: 0, max: 10, step: 1, integer: true },
+  { name: 'y', min: 0, max: 1, step: 0.25 },
+];
+
+// A fake backtest whose ROI peaks at x = 7, y = 0.5
+const result = (roi: number) =>
+  ({ roi, netProfit: roi * 10, winRate: 50, totalBets: 10, metrics: { sharpeRatio: roi / 10 } }) as BacktestResult;
+const peakAtSeven = ({ x, y }: Record<string, number>) => result(100 - (x - 7) ** 2 - 10 * (y - 0.5) ** 2);
+
+describe('parameter grids', () => {
+  it('snaps values onto the range step and bounds', () => {
+    expect(snapToRange(RANGES[1], 0.3)).toBe(0.25);
+    expect(snapToRange(RANGES[1], 4)).toBe(1);
+    expect(snapToRange({ name: 'z', min: 0, max: 1, step: 0.1 }, 0.30000000000000004)).toBe(0.3);
+  });
+
+  it('lists each value of a range once', () => {
+    expect(parameterValues(RANGES[1])).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(parameterValues({ name: 'z', min: 0, max: 1, values: [3, 3, 5] })).toEqual([3, 5]);
+    expect(parameterValues({ name: 'z', min: 0, max: 1 })).toHaveLength(5);
+  });
+
+  it('combines every value of every range', () => {
+    expect(gridPoints(RANGES)).toHaveLength(11 * 5);
+  });
+});
+
+describe('searchParameters', () => {
+  it('runs every grid point and ranks the best first', async () => {
+    const trials = rankTrials(await searchParameters({ method: 'grid', ranges: RANGES, objective: 'roi' }, peakAtSeven));
+    expect(trials).toHaveLength(55);
+    expect(trials[0]).toMatchObject({ rank: 1, parameters: { x: 7, y: 0.5 }, roi: 100 });
+  });
+
+  it('repeats random search for the same seed, without repeating points', async () => {
+    const options = { method: 'random' as const, ranges: RANGES, iterations: 20, seed: 3 };
+    const first = (await searchParameters(options, peakAtSeven)).map((t) => t.parameters);
+    const second = (await searchParameters(options, peakAtSeven)).map((t) => t.parameters);
+
+    expect(first).toEqual(second);
+    expect(new Set(first.map((p) => JSON.stringify(p))).size).toBe(20);
+  });
+
+  it('finds the peak with Bayesian search', async () => {
+    const trials = await searchParameters(
+      { method: 'bayesian', ranges: RANGES, iterations: 20, seed: 1, objective: 'roi' },
+      peakAtSeven
+    );
+    const best = Math.max(...trials.map((t) => t.score));
+    expect(best).toBeGreaterThan(95);
+  });
+
+  it('runs trials one step at a time', async () => {
+    let calls = 0;
+    const steps = searchSteps({ method: 'grid', ranges: RANGES }, (parameters) => {
+      calls++;
+      return peakAtSeven(parameters);
+    });
+    await steps.next();
+    await steps.next();
+    expect(calls).toBe(2);
+  });
+});
+
+describe('objectiveScore', () => {
+  it('caps non-finite ratios', () => {
+    expect(objectiveScore(result(Infinity), 'roi')).toBe(1e6);
+    expect(objectiveScore(result(NaN), 'sharpe')).toBe(0);
+  });
+});
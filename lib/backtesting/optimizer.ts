@@ -0,0 +1,364 @@
+/**
+ * Parameter Optimiser
+ *
+ * Searches a strategy's numeric parameters for the best backtest: an
+ * exhaustive grid, seeded random sampling, or Bayesian optimisation with a
+ * small Gaussian process and expected improvement. Trials are ranked by the
+ * chosen objective and summarised as heatmaps over every parameter pair.
+ * The engine decides which markets a trial may see.
+ */
+
+import {
+  BacktestResult,
+  HeatmapCell,
+  OptimizationObjective,
+  OptimizationOptions,
+  OptimizationTrial,
+  ParameterHeatmap,
+  ParameterRange,
+} from '@/types';
+import { maxBy, orderBy, uniq } from 'lodash';
+import { createRandom, Random } from '@/lib/random';
+import { average, standardDeviation } from './metrics';
+
+export const DEFAULT_OPTIMIZATION_ITERATIONS = 30;
+export const DEFAULT_OPTIMIZATION_OBJECTIVE: OptimizationObjective = 'sharpe';
+export const DEFAULT_GRID_STEPS = 5; // Values per parameter when a range has no step
+const MAX_HEATMAP_BINS = 10;
+const BAYESIAN_CANDIDATES = 200; // Random points scored by expected improvement
+const KERNEL_LENGTH_SCALE = 0.25; // In units of each parameter's range
+const KERNEL_NOISE = 1e-4;
+const EXPLORATION = 0.01; // Expected improvement margin, in score standard deviations
+
+type Parameters = Record<string, number>;
+
+export interface EvaluatedTrial {
+  parameters: Parameters;
+  result: BacktestResult;
+  score: number;
+}
+
+// Backtests one parameter set
+export type TrialRunner = (parameters: Parameters) => Promise<BacktestResult> | BacktestResult;
+
+/**
+ * The value a trial is ranked by. Non-finite ratios (no losing days) are
+ * capped so they cannot swamp the search.
+ */
+export function objectiveScore(result: BacktestResult, objective: OptimizationObjective): number {
+  const value =
+    objective === 'roi'
+      ? result.roi
+      : objective === 'net_profit'
+        ? result.netProfit
+        : result.metrics.sharpeRatio;
+  if (Number.isNaN(value)) return 0;
+  return Math.max(-1e6, Math.min(1e6, value));
+}
+
+/**
+ * Clamp a value into its range, on the range's step and integer grid
+ */
+export const snapToRange = (range: ParameterRange, value: number) => {
+  let snapped = range.step
+    ? range.min + Math.round((value - range.min) / range.step) * range.step
+    : value;
+  snapped = Math.max(range.min, Math.min(range.max, snapped));
+  // Trim floating-point noise from stepping (0.1 + 0.2)
+  return range.integer ? Math.round(snapped) : Number(snapped.toPrecision(10));
+};
+
+/**
+ * Candidate values of one parameter for grid search
+ */
+export function parameterValues(range: ParameterRange): number[] {
+  if (range.values && range.values.length > 0) return uniq(range.values);
+  if (range.max <= range.min) return [snapToRange(range, range.min)];
+
+  const count = range.step
+    ? Math.floor((range.max - range.min) / range.step + 1e-9) + 1
+    : DEFAULT_GRID_STEPS;
+  const width = range.step ?? (range.max - range.min) / (count - 1);
+  return uniq(Array.from({ length: count }, (_, i) => snapToRange(range, range.min + i * width)));
+}
+
+/**
+ * Every combination of the ranges' grid values
+ */
+export function gridPoints(ranges: ParameterRange[]): Parameters[] {
+  return ranges.reduce<Parameters[]>(
+    (points, range) =>
+      points.flatMap((point) =>
+        parameterValues(range).map((value) => ({ ...point, [range.name]: value }))
+      ),
+    [{}]
+  );
+}
+
+/**
+ * Uniformly random parameter set within the ranges
+ */
+export const sampleParameters = (ranges: ParameterRange[], random: Random): Parameters =>
+  Object.fromEntries(
+    ranges.map((range) => [
+      range.name,
+      range.values && range.values.length > 0
+        ? range.values[Math.floor(random() * range.values.length)]
+        : snapToRange(range, range.min + random() * (range.max - range.min)),
+    ])
+  );
+
+const pointKey = (point: Parameters) => JSON.stringify(point);
+
+// Position of a point in the unit cube spanned by the ranges
+const normalise = (ranges: ParameterRange[], point: Parameters) =>
+  ranges.map((range) => {
+    const min = range.values?.length ? Math.min(...range.values) : range.min;
+    const max = range.values?.length ? Math.max(...range.values) : range.max;
+    return max > min ? (point[range.name] - min) / (max - min) : 0;
+  });
+
+const kernel = (a: number[], b: number[]) =>
+  Math.exp(
+    -a.reduce((sum, x, i) => sum + (x - b[i]) ** 2, 0) /
+      (2 * KERNEL_LENGTH_SCALE ** 2)
+  );
+
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      lower[i][j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / lower[j][j];
+    }
+  }
+  return lower;
+}
+
+// Solve L x = b
+const forwardSubstitute = (lower: number[][], b: number[]) => {
+  const x: number[] = [];
+  b.forEach((value, i) => {
+    let sum = value;
+    for (let k = 0; k < i; k++) sum -= lower[i][k] * x[k];
+    x.push(sum / lower[i][i]);
+  });
+  return x;
+};
+
+// Solve Lᵀ x = b
+const backSubstitute = (lower: number[][], b: number[]) => {
+  const n = b.length;
+  const x = new Array<number>(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let k = i + 1; k < n; k++) sum -= lower[k][i] * x[k];
+    x[i] = sum / lower[i][i];
+  }
+  return x;
+};
+
+/**
+ * Gaussian process posterior over standardised scores, as mean and standard
+ * deviation at a point
+ */
+function fitGaussianProcess(points: number[][], scores: number[]) {
+  const mu = average(scores);
+  const sigma = standardDeviation(scores) || 1;
+  const y = scores.map((s) => (s - mu) / sigma);
+
+  const lower = cholesky(
+    points.map((a, i) => points.map((b, j) => kernel(a, b) + (i === j ? KERNEL_NOISE : 0)))
+  );
+  const alpha = backSubstitute(lower, forwardSubstitute(lower, y));
+
+  return {
+    best: Math.max(...y),
+    predict: (point: number[]) => {
+      const k = points.map((p) => kernel(p, point));
+      const mean = k.reduce((sum, value, i) => sum + value * alpha[i], 0);
+      const v = forwardSubstitute(lower, k);
+      const variance = 1 + KERNEL_NOISE - v.reduce((sum, value) => sum + value * value, 0);
+      return { mean, sd: Math.sqrt(Math.max(variance, 1e-12)) };
+    },
+  };
+}
+
+// Abramowitz-Stegun approximation of the standard normal CDF
+const normalCdf = (z: number) => {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2));
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const normalPdf = (z: number) => Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+
+const expectedImprovement = (mean: number, sd: number, best: number) => {
+  const gain = mean - best - EXPLORATION;
+  const z = gain / sd;
+  return gain * normalCdf(z) + sd * normalPdf(z);
+};
+
+/**
+ * Run the search, calling `runTrial` once per parameter set. Random and
+ * Bayesian search are reproducible for a given seed.
+ */
+export async function searchParameters(
+  options: OptimizationOptions,
+  runTrial: TrialRunner
+): Promise<EvaluatedTrial[]> {
+  const trials: EvaluatedTrial[] = [];
+  for await (const trial of searchSteps(options, runTrial)) trials.push(trial);
+  return trials;
+}
+
+/**
+ * The search one trial at a time, so callers can yield between trials
+ */
+export async function* searchSteps(
+  options: OptimizationOptions,
+  runTrial: TrialRunner
+): AsyncGenerator<EvaluatedTrial> {
+  const {
+    method,
+    ranges,
+    iterations = DEFAULT_OPTIMIZATION_ITERATIONS,
+    objective = DEFAULT_OPTIMIZATION_OBJECTIVE,
+    seed,
+  } = options;
+  const random = createRandom(seed);
+  const trials: EvaluatedTrial[] = [];
+  const seen = new Set<string>();
+
+  const run = async (parameters: Parameters) => {
+    seen.add(pointKey(parameters));
+    const result = await runTrial(parameters);
+    const trial = { parameters, result, score: objectiveScore(result, objective) };
+    trials.push(trial);
+    console.log(`Trial ${trials.length}: ${pointKey(parameters)} → ${objective} ${trial.score.toFixed(3)}`);
+    return trial;
+  };
+
+  // Fresh point, or null once repeated draws keep landing on tried ones
+  const drawUnseen = () => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const point = sampleParameters(ranges, random);
+      if (!seen.has(pointKey(point))) return point;
+    }
+    return null;
+  };
+
+  if (method === 'grid') {
+    for (const point of gridPoints(ranges)) yield await run(point);
+    return;
+  }
+
+  // Bayesian search starts from a random design large enough to fit on
+  const warmup = method === 'bayesian' ? Math.min(iterations, ranges.length + 3) : iterations;
+  for (let i = 0; i < warmup; i++) {
+    const point = drawUnseen();
+    if (!point) return;
+    yield await run(point);
+  }
+
+  while (trials.length < iterations) {
+    const gp = fitGaussianProcess(
+      trials.map((t) => normalise(ranges, t.parameters)),
+      trials.map((t) => t.score)
+    );
+    const candidates = Array.from({ length: BAYESIAN_CANDIDATES }, () => sampleParameters(ranges, random))
+      .filter((point) => !seen.has(pointKey(point)));
+    const next = maxBy(candidates, (point) => {
+      const { mean, sd } = gp.predict(normalise(ranges, point));
+      return expectedImprovement(mean, sd, gp.best);
+    });
+    if (!next) break;
+    yield await run(next);
+  }
+}
+
+/**
+ * Trials best first by score, with summary metrics for the table
+ */
+export function rankTrials(trials: EvaluatedTrial[]): OptimizationTrial[] {
+  return orderBy(trials, ['score'], ['desc']).map(({ parameters, result, score }, i) => ({
+    rank: i + 1,
+    parameters,
+    score,
+    roi: result.roi,
+    sharpeRatio: result.metrics.sharpeRatio,
+    netProfit: result.netProfit,
+    winRate: result.winRate,
+    totalBets: result.totalBets,
+  }));
+}
+
+/**
+ * Axis values of one parameter: the tried values themselves, or evenly
+ * spaced bin centres when there are too many to show
+ */
+function heatmapAxis(values: number[]) {
+  const distinct = uniq(values).sort((a, b) => a - b);
+  if (distinct.length <= MAX_HEATMAP_BINS) {
+    return { values: distinct, bin: (value: number) => distinct.indexOf(value) };
+  }
+
+  const min = distinct[0];
+  const width = (distinct[distinct.length - 1] - min) / MAX_HEATMAP_BINS;
+  return {
+    values: Array.from({ length: MAX_HEATMAP_BINS }, (_, i) =>
+      Number((min + (i + 0.5) * width).toPrecision(6))
+    ),
+    bin: (value: number) => Math.min(MAX_HEATMAP_BINS - 1, Math.floor((value - min) / width)),
+  };
+}
+
+/**
+ * Best ROI and Sharpe over every pair of parameters
+ */
+export function buildHeatmaps(
+  trials: OptimizationTrial[],
+  ranges: ParameterRange[]
+): ParameterHeatmap[] {
+  const heatmaps: ParameterHeatmap[] = [];
+
+  ranges.forEach((xRange, i) => {
+    ranges.slice(i + 1).forEach((yRange) => {
+      const xAxis = heatmapAxis(trials.map((t) => t.parameters[xRange.name]));
+      const yAxis = heatmapAxis(trials.map((t) => t.parameters[yRange.name]));
+      const cells = new Map<string, HeatmapCell>();
+
+      trials.forEach((trial) => {
+        const x = xAxis.values[xAxis.bin(trial.parameters[xRange.name])];
+        const y = yAxis.values[yAxis.bin(trial.parameters[yRange.name])];
+        const key = `${x}:${y}`;
+        const cell = cells.get(key);
+        cells.set(
+          key,
+          cell
+            ? {
+                x,
+                y,
+                roi: Math.max(cell.roi, trial.roi),
+                sharpeRatio: Math.max(cell.sharpeRatio, trial.sharpeRatio),
+                trials: cell.trials + 1,
+              }
+            : { x, y, roi: trial.roi, sharpeRatio: trial.sharpeRatio, trials: 1 }
+        );
+      });
+
+      heatmaps.push({
+        xParameter: xRange.name,
+        yParameter: yRange.name,
+        xValues: xAxis.values,
+        yValues: yAxis.values,
+        cells: Array.from(cells.values()),
+      });
+    });
+  });
+  return heatmaps;
+}
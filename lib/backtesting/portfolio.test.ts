@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { simulatePortfolio } from './portfolio';
+import { at, filledBet, market, pricePoint } from './test-utils';
+
+describe('simulatePortfolio', () => {
+  it('locks collateral until the market resolves, then pays out', () => {
+    const { summary } = simulatePortfolio(
+      [filledBet({ amount: 1000, fillPrice: 0.4, payout: 1000 })],
+      [market()],
+      { initialBankroll: 1000 }
+    );
+
+    expect(summary.equityCurve[1]).toMatchObject({ cash: 600, lockedCapital: 400 });
+    expect(summary.finalCash).toBeCloseTo(1600);
+    expect(summary.finalEquity).toBeCloseTo(1600);
+  });
+
+  it('rejects bets the free cash cannot cover', () => {
+    const { bets, summary } = simulatePortfolio(
+      [filledBet({ amount: 1000, fillPrice: 0.6 }), filledBet({ amount: 1000, fillPrice: 0.6, timestamp: at(1) })],
+      [market()],
+      { initialBankroll: 1000 }
+    );
+
+    expect(bets.map((b) => b.result)).toEqual(['win', 'rejected']);
+    expect(bets[1].rejectionReason).toMatch(/Insufficient cash/);
+    expect(summary.rejectedBets).toBe(1);
+  });
+
+  it('marks open positions to market on the equity curve', () => {
+    const falling = market({ historicalPrices: [pricePoint(0, 0.5), pricePoint(5, 0.1)] });
+    const { summary } = simulatePortfolio(
+      [
+        filledBet({ marketId: 'm1', amount: 1000, fillPrice: 0.5 }),
+        filledBet({ marketId: 'm2', amount: 10, fillPrice: 0.5, timestamp: at(6) }),
+      ],
+      [falling, market({ marketId: 'm2' })],
+      { initialBankroll: 1000 }
+    );
+
+    // The second entry sees the first position worth 1000 * 0.1, not its $500 cost
+    const second = summary.equityCurve.find((p) => p.timestamp.getTime() === at(6).getTime());
+    expect(second?.equity).toBeCloseTo(500 + 100);
+    expect(second?.lockedCapital).toBeCloseTo(505);
+  });
+
+  it('closes an opposite position and realises its PnL at once', () => {
+    const { bets, summary } = simulatePortfolio(
+      [
+        filledBet({ amount: 100, fillPrice: 0.4, payout: 100 }),
+        filledBet({ side: 'sell', amount: 100, fillPrice: 0.7, timestamp: at(1), intent: 'close' }),
+      ],
+      [market()],
+      { initialBankroll: 1000 }
+    );
+
+    expect(bets[0].result).toBe('closed');
+    expect(bets[1]).toMatchObject({ result: 'win', closedAmount: 100 });
+    expect(bets[1].payout - bets[1].cost).toBeCloseTo(30);
+    expect(summary.finalCash).toBeCloseTo(1030);
+  });
+});
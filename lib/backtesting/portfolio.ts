@@ -0,0 +1,346 @@
+/**
+ * Portfolio Simulation
+ *
+ * Replays filled bets against a finite bankroll: bets are entered in time
+ * order, rejected when there is not enough free cash, and their capital stays
+ * locked until the market resolves (or the bet's exit fires) and pays out. A
+ * bet in the opposite direction on a token already held closes that position
+ * first and realises its PnL immediately. Strategies with a sizing rule have
+ * their opening bets resized against equity at entry, and risk limits can
+ * veto any new position. Equity (on the curve, for sizing and for the limits)
+ * marks open positions at the replayed market price, so unrealised losses
+ * show before they settle.
+ */
+
+import {
+  BacktestBet,
+  EquityPoint,
+  PolymarketMarket,
+  PortfolioSummary,
+  RiskLimits,
+  RiskRule,
+  SizingRule,
+} from '@/types';
+import { orderBy, sortedLastIndex } from 'lodash';
+import { emptyCostBreakdown, scaleCostBreakdown } from './costs';
+import {
+  PositionDirection,
+  positionDirection,
+  positionKey,
+  collateralPerShare,
+  closeProceedsPerShare,
+} from './positions';
+import { sizePosition, resizeBet } from './sizing';
+import { createRiskManager, RiskExposure } from '@/lib/risk';
+import { outcomeSeries } from '@/lib/outcomes';
+
+export const DEFAULT_INITIAL_BANKROLL = 10000; // $10k starting cash
+
+interface OpenPosition {
+  index: number; // Bet that opened the position
+  key: string;
+  marketId: string;
+  category?: string;
+  resolvesAt: Date;
+  direction: PositionDirection;
+  priceTimes: number[]; // The outcome's price history, for marking to market
+  prices: number[];
+  shares: number;
+  cost: number;
+  payout: number;
+  settleAt: Date;
+}
+
+/**
+ * Time at which a bet's capital is committed
+ */
+export const entryTime = (bet: BacktestBet): Date =>
+  bet.fills.length > 0 ? bet.fills[0].timestamp : bet.timestamp;
+
+/**
+ * Time at which a market pays out, never earlier than the entry itself
+ */
+export const settlementTime = (market: PolymarketMarket | undefined, entry: Date): Date => {
+  const resolution = market?.resolutionDate ?? market?.endDate;
+  if (!resolution || resolution.getTime() < entry.getTime()) return entry;
+  return new Date(resolution);
+};
+
+export interface PortfolioOptions {
+  initialBankroll?: number;
+  sizing?: SizingRule;
+  riskLimits?: RiskLimits;
+}
+
+/**
+ * Simulate cash, locked capital and equity for a set of filled bets
+ */
+export function simulatePortfolio(
+  bets: BacktestBet[],
+  markets: PolymarketMarket[],
+  { initialBankroll = DEFAULT_INITIAL_BANKROLL, sizing, riskLimits }: PortfolioOptions = {}
+): { bets: BacktestBet[]; summary: PortfolioSummary } {
+  const marketsById = new Map(markets.map((m) => [m.marketId, m]));
+  const result = bets.map((bet) => ({ ...bet }));
+  const risk = riskLimits ? createRiskManager(riskLimits) : null;
+
+  let cash = initialBankroll;
+  let locked = 0;
+  let peakExposure = 0;
+  let rejectedBets = 0;
+  const open: OpenPosition[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  // Open positions at their latest price at `time` (cost basis before the first)
+  const markedEquity = (time: number) =>
+    open.reduce((equity, p) => {
+      const i = sortedLastIndex(p.priceTimes, time) - 1;
+      const side = p.direction === 'long' ? 'buy' : 'sell';
+      return equity + (i >= 0 ? p.shares * collateralPerShare(side, p.prices[i]) : p.cost);
+    }, cash);
+
+  // Equity is marked to market; cost basis only counts as locked capital
+  const record = (timestamp: Date) => {
+    const equity = markedEquity(timestamp.getTime());
+    equityCurve.push({
+      timestamp,
+      cash,
+      lockedCapital: locked,
+      equity,
+      utilisation: equity > 0 ? (locked / equity) * 100 : 0,
+    });
+    risk?.markEquity(timestamp, equity);
+  };
+
+  const reject = (index: number, bet: BacktestBet, reason: string, riskRule?: RiskRule) => {
+    rejectedBets++;
+    result[index] = {
+      ...bet,
+      result: 'rejected',
+      payout: 0,
+      cost: 0,
+      costBreakdown: emptyCostBreakdown(),
+      rejectionReason: reason,
+      ...(riskRule ? { riskRule } : {}),
+    };
+  };
+
+  const openCapital = (include: (position: OpenPosition) => boolean) =>
+    open.filter(include).reduce((sum, p) => sum + p.cost, 0);
+
+  const settleUntil = (time: number) => {
+    const due = orderBy(
+      open.filter((p) => p.settleAt.getTime() <= time),
+      [(p) => p.settleAt.getTime()],
+      ['asc']
+    );
+    due.forEach((position) => {
+      open.splice(open.indexOf(position), 1);
+      locked -= position.cost;
+      cash += position.payout;
+      record(position.settleAt);
+    });
+  };
+
+  const entries = orderBy(
+    result
+      .map((bet, index) => ({ bet, index }))
+      .filter(({ bet }) => bet.result === 'win' || bet.result === 'loss'),
+    [({ bet }) => entryTime(bet).getTime()],
+    ['asc']
+  );
+
+  // Starting point of the equity curve
+  if (entries.length > 0) {
+    record(entryTime(entries[0].bet));
+  }
+
+  entries.forEach(({ bet: simulated, index }) => {
+    const enteredAt = entryTime(simulated);
+    settleUntil(enteredAt.getTime());
+
+    const key = positionKey(simulated);
+    const direction = positionDirection(simulated.side);
+    const market = marketsById.get(simulated.marketId);
+
+    // Opposite positions on the same token are closed before opening anything
+    const opposite = open.filter((p) => p.key === key && p.direction !== direction);
+
+    // Only pure opening bets are resized; closes keep the size they unwind
+    let bet = simulated;
+    if (sizing && market && bet.intent !== 'close' && opposite.length === 0) {
+      const decision = sizePosition(
+        bet,
+        market,
+        {
+          equity: markedEquity(enteredAt.getTime()),
+          marketExposure: openCapital((p) => p.marketId === bet.marketId),
+          categoryExposure: market.category
+            ? openCapital((p) => p.category === market.category)
+            : 0,
+        },
+        sizing
+      );
+      if (decision.shares <= 0) {
+        reject(index, bet, decision.reason ?? 'Sizing: zero stake');
+        return;
+      }
+      bet = resizeBet(bet, decision.shares);
+    }
+
+    const frictionPerShare = bet.costBreakdown.total / bet.filledAmount;
+    let toClose = Math.min(
+      bet.filledAmount,
+      opposite.reduce((sum, p) => sum + p.shares, 0)
+    );
+    const closedAmount = toClose;
+    // Explicit close orders never flip into a new position
+    let openAmount = bet.intent === 'close' ? 0 : bet.filledAmount - closedAmount;
+
+    if (bet.intent === 'close' && closedAmount === 0) {
+      reject(index, bet, 'No open position to close');
+      return;
+    }
+
+    const proceeds =
+      closedAmount *
+      (closeProceedsPerShare(bet.side, bet.fillPrice) - frictionPerShare);
+    const costPerShare = collateralPerShare(bet.side, bet.fillPrice) + frictionPerShare;
+    const resolvesAt = settlementTime(market, enteredAt);
+
+    // Risk limits only ever stop new exposure; the closing part still goes through
+    if (risk && openAmount > 0) {
+      risk.markEquity(enteredAt, markedEquity(enteredAt.getTime()));
+      const breach = risk.check(
+        {
+          marketId: bet.marketId,
+          category: market?.category,
+          resolvesAt,
+          capital: openAmount * costPerShare,
+        },
+        open.map(
+          (p): RiskExposure => ({
+            marketId: p.marketId,
+            category: p.category,
+            resolvesAt: p.resolvesAt,
+            capital: p.cost,
+          })
+        )
+      );
+      if (breach && closedAmount === 0) {
+        reject(index, bet, breach.reason, breach.rule);
+        return;
+      }
+      if (breach) openAmount = 0;
+    }
+    const openCost = openAmount * costPerShare;
+
+    if (openCost > cash + proceeds) {
+      reject(
+        index,
+        bet,
+        `Insufficient cash: needs $${openCost.toFixed(2)}, $${(cash + proceeds).toFixed(2)} free`
+      );
+      return;
+    }
+
+    // Release the cost basis of the closed shares, oldest position first
+    let closedBasis = 0;
+    for (const position of opposite) {
+      if (toClose <= 0) break;
+      const shares = Math.min(toClose, position.shares);
+      const fraction = shares / position.shares;
+      const basis = position.cost * fraction;
+      const forgonePayout = position.payout * fraction;
+
+      position.shares -= shares;
+      position.cost -= basis;
+      position.payout -= forgonePayout;
+      locked -= basis;
+      closedBasis += basis;
+      toClose -= shares;
+
+      const opener = result[position.index];
+      const openerCost = opener.cost - basis;
+      const openerPayout = opener.payout - forgonePayout;
+      // A bet that also closed something keeps its realised PnL in the results
+      const unwound = opener.closedAmount
+        ? openerPayout > openerCost ? 'win' : 'loss'
+        : 'closed';
+      result[position.index] = {
+        ...opener,
+        cost: openerCost,
+        payout: openerPayout,
+        result: position.shares > 0 ? opener.result : unwound,
+      };
+      if (position.shares <= 0) {
+        open.splice(open.indexOf(position), 1);
+      }
+    }
+
+    const openPayout = bet.payout * (openAmount / bet.filledAmount);
+    const tradedAmount = closedAmount + openAmount;
+    const cost = closedBasis + openCost;
+    const payout = proceeds + openPayout;
+    const settleAt = bet.exitFill?.timestamp ?? resolvesAt;
+
+    cash += proceeds - openCost;
+    locked += openCost;
+    peakExposure = Math.max(peakExposure, locked);
+
+    if (openAmount > 0) {
+      const series = market ? outcomeSeries(market, bet.outcome) : [];
+      open.push({
+        index,
+        key,
+        marketId: bet.marketId,
+        category: market?.category,
+        resolvesAt,
+        direction,
+        priceTimes: series.map((p) => p.timestamp.getTime()),
+        prices: series.map((p) => p.price),
+        shares: openAmount,
+        cost: openCost,
+        payout: openPayout,
+        settleAt,
+      });
+    }
+
+    result[index] = {
+      ...bet,
+      cost,
+      payout,
+      closedAmount,
+      filledAmount: tradedAmount,
+      costBreakdown: scaleCostBreakdown(bet.costBreakdown, tradedAmount / bet.filledAmount),
+      realizedAt: openAmount > 0 ? settleAt : enteredAt,
+      // A pure opening bet keeps its resolution result; closes are judged on realised PnL
+      result: closedAmount > 0 ? (payout > cost ? 'win' : 'loss') : bet.result,
+    };
+    record(enteredAt);
+  });
+
+  settleUntil(Infinity);
+
+  const utilisations = equityCurve.map((p) => p.utilisation);
+  const haltedAt = risk?.haltedAt();
+  const finalEquity = cash + locked;
+
+  return {
+    bets: result,
+    summary: {
+      initialBankroll,
+      finalCash: cash,
+      finalEquity,
+      equityCurve,
+      averageUtilisation:
+        utilisations.length > 0
+          ? utilisations.reduce((sum, u) => sum + u, 0) / utilisations.length
+          : 0,
+      peakUtilisation: utilisations.length > 0 ? Math.max(...utilisations) : 0,
+      peakExposure,
+      rejectedBets,
+      ...(haltedAt ? { haltedAt } : {}),
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  closeProceedsPerShare,
+  collateralPerShare,
+  isWinningPosition,
+  payoutPerShare,
+  positionKey,
+} from './positions';
+import { market } from './test-utils';
+
+const CATEGORICAL = ['Red', 'Green', 'Blue'];
+
+describe('collateralPerShare', () => {
+  it('costs the price for a long and its complement for a short', () => {
+    expect(collateralPerShare('buy', 0.3)).toBe(0.3);
+    expect(collateralPerShare('sell', 0.3)).toBeCloseTo(0.7);
+  });
+
+  it('returns the rest of the dollar when closing', () => {
+    expect(closeProceedsPerShare('buy', 0.3)).toBeCloseTo(0.7);
+    expect(closeProceedsPerShare('sell', 0.3)).toBeCloseTo(0.3);
+  });
+});
+
+describe('isWinningPosition', () => {
+  it('pays a long only on its own outcome', () => {
+    expect(isWinningPosition({ side: 'buy', outcome: 'Red' }, 'Red')).toBe(true);
+    expect(isWinningPosition({ side: 'buy', outcome: 'Red' }, 'Blue')).toBe(false);
+  });
+
+  it('pays a short on every other outcome', () => {
+    expect(isWinningPosition({ side: 'sell', outcome: 'Red' }, 'Green')).toBe(true);
+    expect(isWinningPosition({ side: 'sell', outcome: 'Red' }, 'Blue')).toBe(true);
+    expect(isWinningPosition({ side: 'sell', outcome: 'Red' }, 'red')).toBe(false);
+  });
+});
+
+describe('payoutPerShare', () => {
+  it('pays $1 to the winning side without a recorded resolution', () => {
+    const resolved = market({ outcomes: CATEGORICAL, resolvedOutcome: 'Green' });
+    expect(payoutPerShare({ side: 'buy', outcome: 'Green' }, resolved)).toBe(1);
+    expect(payoutPerShare({ side: 'sell', outcome: 'Green' }, resolved)).toBe(0);
+    expect(payoutPerShare({ side: 'sell', outcome: 'Red' }, resolved)).toBe(1);
+  });
+
+  it('splits the dollar on a 50/50 resolution', () => {
+    const split = market({
+      resolvedOutcome: 'Yes',
+      resolution: { status: 'resolved', payouts: [0.5, 0.5], source: 'synthetic' },
+    });
+    expect(payoutPerShare({ side: 'buy', outcome: 'Yes' }, split)).toBe(0.5);
+    expect(payoutPerShare({ side: 'sell', outcome: 'No' }, split)).toBe(0.5);
+  });
+
+  it('pays nothing on an unresolved market', () => {
+    expect(payoutPerShare({ side: 'buy', outcome: 'Yes' }, market({ resolvedOutcome: null }))).toBe(0);
+  });
+});
+
+describe('positionKey', () => {
+  it('ignores direction and outcome case', () => {
+    expect(positionKey({ marketId: 'm1', outcome: ' Yes' })).toBe(positionKey({ marketId: 'm1', outcome: 'yes' }));
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Position Semantics
+ *
+ * Every bet ends up holding outcome tokens that pay $1 on resolution. Buying
+ * an outcome holds that outcome's token; selling an outcome without a long to
+ * close is modelled as buying its complement ("not X"), which costs
+ * `1 - price` per share and pays out when any other outcome resolves.
+ */
+
+import { Bet, PolymarketMarket } from '@/types';
+import { sameOutcome } from '@/lib/outcomes';
+
+export type PositionDirection = 'long' | 'short';
+
+export const positionDirection = (side: Bet['side']): PositionDirection =>
+  side === 'buy' ? 'long' : 'short';
+
+/**
+ * Collateral required per share for a fill at the quoted outcome price
+ */
+export const collateralPerShare = (side: Bet['side'], price: number): number =>
+  side === 'buy' ? price : 1 - price;
+
+/**
+ * Proceeds per share when an opposite fill at the quoted price closes a
+ * position (selling a long at `price`, or selling the complement at `1 - price`)
+ */
+export const closeProceedsPerShare = (side: Bet['side'], price: number): number =>
+  1 - collateralPerShare(side, price);
+
+/**
+ * Whether a position pays out once the market resolves. Works for any number
+ * of outcomes: a long wins only on its own outcome, a short on every other one.
+ */
+export function isWinningPosition(
+  bet: Pick<Bet, 'side' | 'outcome'>,
+  resolvedOutcome: string
+): boolean {
+  const matches = sameOutcome(bet.outcome, resolvedOutcome);
+  return bet.side === 'buy' ? matches : !matches;
+}
+
+/**
+ * What one share of a position pays at settlement. Markets with a recorded
+ * resolution pay each outcome's share (0.5 on a 50/50 split), the
+ * complement paying the rest; others pay $1 to the winning side.
+ */
+export function payoutPerShare(
+  bet: Pick<Bet, 'side' | 'outcome'>,
+  market: Pick<PolymarketMarket, 'outcomes' | 'resolvedOutcome' | 'resolution'>
+): number {
+  const { resolution } = market;
+  if (resolution && resolution.payouts.length === market.outcomes.length) {
+    const index = market.outcomes.findIndex((o) => sameOutcome(o, bet.outcome));
+    const payout = index >= 0 ? resolution.payouts[index] : 0;
+    return bet.side === 'buy' ? payout : 1 - payout;
+  }
+  return market.resolvedOutcome && isWinningPosition(bet, market.resolvedOutcome) ? 1 : 0;
+}
+
+/**
+ * Key identifying the token a bet trades, independent of direction
+ */
+export const positionKey = (bet: Pick<Bet, 'marketId' | 'outcome'>) =>
+  `${bet.marketId}:${bet.outcome.trim().toLowerCase()}`;
@@ -0,0 +1,177 @@
+/**
+ * Event-Driven Replay
+ *
+ * Replays every market's price ticks, trades and resolution as one merged
+ * stream in time order. Strategies react through onTick/onTrade/onResolution
+ * and only see each market as far as the replay has progressed. Batch
+ * strategies are driven through an adapter that calls generateBets at a fixed
+ * cadence of event time.
+ */
+
+import {
+  Bet,
+  BacktestOptions,
+  MarketEvent,
+  PolymarketMarket,
+  Strategy,
+  StrategyContext,
+} from '@/types';
+import { omit } from 'lodash';
+import { marketEnd } from './validation';
+import { Decision, DEFAULT_DECISION_INTERVAL_HOURS } from './snapshots';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Ticks are seen before the trades and resolutions that share their timestamp
+const EVENT_ORDER: Record<MarketEvent['type'], number> = {
+  tick: 0,
+  trade: 1,
+  resolution: 2,
+};
+
+type HandlerName = 'onTick' | 'onTrade' | 'onResolution';
+
+// A strategy's own handlers, or the batch adapter's, which wait on generateBets
+type EventHandlers = {
+  [K in HandlerName]?: (
+    ...args: Parameters<NonNullable<Strategy[K]>>
+  ) => Bet[] | void | Promise<Bet[]>;
+};
+
+export const isEventDriven = (strategy: Strategy) =>
+  Boolean(strategy.onTick || strategy.onTrade || strategy.onResolution);
+
+/**
+ * When a market's outcome becomes known, never before it stops trading
+ */
+const resolutionTime = (market: PolymarketMarket) => {
+  const end = marketEnd(market);
+  return Math.max(end, market.resolutionDate ? new Date(market.resolutionDate).getTime() : end);
+};
+
+/**
+ * Merge the tradable ticks and trades of all markets, plus their
+ * resolutions, into one time-ordered event stream
+ */
+export function mergeMarketEvents(markets: PolymarketMarket[]): MarketEvent[] {
+  const events: MarketEvent[] = [];
+
+  markets.forEach((market) => {
+    const end = marketEnd(market);
+    const { marketId } = market;
+
+    market.historicalPrices.forEach((tick) => {
+      if (tick.timestamp.getTime() > end) return;
+      events.push({ type: 'tick', timestamp: tick.timestamp, marketId, tick });
+    });
+    market.trades.forEach((trade) => {
+      if (trade.timestamp.getTime() > end) return;
+      events.push({ type: 'trade', timestamp: trade.timestamp, marketId, trade });
+    });
+    if (market.resolvedOutcome) {
+      events.push({
+        type: 'resolution',
+        timestamp: new Date(resolutionTime(market)),
+        marketId,
+        outcome: market.resolvedOutcome,
+      });
+    }
+  });
+
+  return events.sort(
+    (a, b) =>
+      a.timestamp.getTime() - b.timestamp.getTime() ||
+      EVENT_ORDER[a.type] - EVENT_ORDER[b.type]
+  );
+}
+
+/**
+ * Drive a batch strategy from the event stream: generateBets runs on every
+ * open market at most once per interval of event time
+ */
+export function batchAdapter(
+  strategy: Strategy,
+  intervalHours = DEFAULT_DECISION_INTERVAL_HOURS
+): EventHandlers {
+  const intervalMs = intervalHours * HOUR_MS;
+  let nextDecision = -Infinity;
+
+  const decide = (context: StrategyContext): Bet[] | Promise<Bet[]> => {
+    const time = context.asOf?.getTime() ?? Date.now();
+    if (time < nextDecision) return [];
+    nextDecision = time + intervalMs;
+    return strategy.generateBets(context.evaluationMarkets ?? [], context);
+  };
+
+  return {
+    onTick: (_tick, _market, context) => decide(context),
+    onTrade: (_trade, _market, context) => decide(context),
+  };
+}
+
+/**
+ * Replay the markets' events through a strategy's handlers and collect the
+ * bets it places, each decided at the event that triggered it
+ */
+export async function replayEvents(
+  strategy: Strategy,
+  trainingMarkets: PolymarketMarket[],
+  testMarkets: PolymarketMarket[],
+  options: BacktestOptions
+): Promise<Decision[]> {
+  const handlers: EventHandlers = isEventDriven(strategy)
+    ? strategy
+    : batchAdapter(strategy, options.decisionIntervalHours);
+  const marketsById = new Map(testMarkets.map((m) => [m.marketId, m]));
+  const events = mergeMarketEvents(testMarkets);
+  console.log(`Replaying ${events.length} events over ${testMarkets.length} test markets...`);
+
+  // What the strategy has seen of each market so far
+  const views = new Map<string, PolymarketMarket>();
+  const open: PolymarketMarket[] = [];
+  const decisions: Decision[] = [];
+
+  for (const event of events) {
+    let view = views.get(event.marketId);
+    if (!view) {
+      // Nothing of the resolution is visible until its event
+      view = {
+        ...omit(marketsById.get(event.marketId)!, 'resolution'),
+        active: true,
+        resolvedOutcome: null,
+        historicalPrices: [],
+        trades: [],
+      };
+      views.set(event.marketId, view);
+      open.push(view);
+    }
+
+    const context: StrategyContext = {
+      mode: 'backtest',
+      asOf: event.timestamp,
+      trainingMarkets,
+      evaluationMarkets: open,
+      parameters: strategy.parameters,
+    };
+
+    let bets: Bet[] | void;
+    if (event.type === 'tick') {
+      view.historicalPrices.push(event.tick);
+      bets = await handlers.onTick?.(event.tick, view, context);
+    } else if (event.type === 'trade') {
+      view.trades.push(event.trade);
+      bets = await handlers.onTrade?.(event.trade, view, context);
+    } else {
+      const { resolution } = marketsById.get(event.marketId)!;
+      view.resolvedOutcome = event.outcome;
+      if (resolution) view.resolution = resolution;
+      view.active = false;
+      open.splice(open.indexOf(view), 1);
+      bets = await handlers.onResolution?.(view, context);
+    }
+
+    (bets ?? []).forEach((bet) => decisions.push({ bet, asOf: event.timestamp }));
+  }
+
+  return decisions;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { kellyFraction, priceVolatility, resizeBet, sizePosition } from './sizing';
+import { at, bet, filledBet, market, pricePoint } from './test-utils';
+
+const STATE = { equity: 10000, marketExposure: 0, categoryExposure: 0 };
+
+describe('kellyFraction', () => {
+  it('is the edge over the price as a share of the payoff', () => {
+    expect(kellyFraction(0.6, 0.5)).toBeCloseTo(0.2);
+    expect(kellyFraction(0.4, 0.5)).toBeLessThan(0);
+    expect(kellyFraction(0.9, 1)).toBe(0);
+  });
+});
+
+describe('sizePosition', () => {
+  it('keeps the bet size under the fixed rule', () => {
+    expect(sizePosition(bet({ amount: 40 }), market(), STATE, { method: 'fixed' }).shares).toBe(40);
+  });
+
+  it('stakes a fraction of equity at the limit price', () => {
+    const decision = sizePosition(bet({ priceLimit: 0.4 }), market(), STATE, {
+      method: 'fixed_fraction',
+      equityFraction: 0.02,
+    });
+    expect(decision.shares).toBeCloseTo(200 / 0.4);
+  });
+
+  it('sizes sells on the complement price', () => {
+    const decision = sizePosition(bet({ side: 'sell', priceLimit: 0.8 }), market(), STATE, {
+      method: 'fixed_fraction',
+      equityFraction: 0.02,
+    });
+    expect(decision.shares).toBeCloseTo(200 / 0.2);
+  });
+
+  it('sizes fractional Kelly from the probability estimate', () => {
+    const decision = sizePosition(bet({ priceLimit: 0.5, probability: 0.6 }), market(), STATE, {
+      method: 'kelly',
+      kellyFraction: 0.25,
+    });
+    expect(decision.shares * 0.5).toBeCloseTo(10000 * 0.2 * 0.25);
+  });
+
+  it('skips bets without a Kelly edge', () => {
+    const decision = sizePosition(bet({ priceLimit: 0.5, probability: 0.4 }), market(), STATE, { method: 'kelly' });
+    expect(decision).toMatchObject({ shares: 0, reason: expect.stringMatching(/no Kelly edge/) });
+  });
+
+  it('caps the stake per bet and per market', () => {
+    const capped = sizePosition(bet({ priceLimit: 0.5 }), market(), STATE, {
+      method: 'fixed_fraction',
+      equityFraction: 0.5,
+      maxBetFraction: 0.1,
+    });
+    expect(capped.shares * 0.5).toBeCloseTo(1000);
+
+    const full = sizePosition(bet(), market(), { ...STATE, marketExposure: 500 }, {
+      method: 'fixed_fraction',
+      maxMarketExposure: 0.05,
+    });
+    expect(full).toMatchObject({ shares: 0, reason: expect.stringMatching(/market exposure/) });
+  });
+
+  it('targets volatility from recent price changes', () => {
+    const prices = [0.5, 0.52, 0.5, 0.52, 0.5].map((p, i) => pricePoint(i, p));
+    const m = market({ historicalPrices: prices });
+    const sigma = priceVolatility(m, 'Yes', at(10));
+    const decision = sizePosition(bet({ timestamp: at(10) }), m, STATE, {
+      method: 'volatility_target',
+      targetVolatility: 0.001,
+      maxBetFraction: 1,
+    });
+    expect(sigma).toBeGreaterThan(0);
+    expect(decision.shares).toBeCloseTo((10000 * 0.001) / sigma);
+  });
+});
+
+describe('resizeBet', () => {
+  it('scales amounts and variable costs but not fixed costs', () => {
+    const original = filledBet({
+      amount: 100,
+      cost: 52,
+      payout: 100,
+      costBreakdown: { fees: 1, slippage: 0.5, fixedCosts: 0.5, total: 2 },
+    });
+    const resized = resizeBet(original, 200);
+    expect(resized).toMatchObject({ amount: 200, filledAmount: 200, payout: 200 });
+    expect(resized.costBreakdown).toEqual({ fees: 2, slippage: 1, fixedCosts: 0.5, total: 3.5 });
+    expect(resized.cost).toBeCloseTo(50 * 2 + 3.5);
+  });
+});
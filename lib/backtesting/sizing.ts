@@ -0,0 +1,149 @@
+/**
+ * Position Sizing
+ *
+ * Sizes a strategy's opening bets against current equity instead of using
+ * their flat `amount`: fractional Kelly from the strategy's probability
+ * estimate, a fixed fraction of equity, or volatility targeting from the
+ * outcome's recent prices, trimmed to per-market and per-category caps.
+ */
+
+import { BacktestBet, Bet, PolymarketMarket, SizingRule } from '@/types';
+import { outcomeSeries } from '@/lib/outcomes';
+import { collateralPerShare } from './positions';
+import { standardDeviation } from './metrics';
+
+export const DEFAULT_KELLY_FRACTION = 0.25; // Quarter Kelly
+export const DEFAULT_EQUITY_FRACTION = 0.02; // 2% of equity per bet
+export const DEFAULT_TARGET_VOLATILITY = 0.005; // A one-sigma move costs 0.5% of equity
+export const DEFAULT_VOLATILITY_LOOKBACK = 24;
+export const DEFAULT_MAX_BET_FRACTION = 0.1;
+
+export interface SizingState {
+  equity: number;
+  marketExposure: number; // Capital already open in the bet's market
+  categoryExposure: number; // Capital already open in the bet's category
+}
+
+export interface SizingDecision {
+  shares: number;
+  reason?: string; // Why the bet was sized to zero
+}
+
+/**
+ * Full-Kelly share of equity for a token costing `price` that pays $1 with
+ * the given probability
+ */
+export const kellyFraction = (probability: number, price: number) =>
+  price > 0 && price < 1 ? (probability - price) / (1 - price) : 0;
+
+/**
+ * Standard deviation of an outcome's price changes over its last `lookback`
+ * points up to `asOf`
+ */
+export function priceVolatility(
+  market: PolymarketMarket,
+  outcome: string,
+  asOf: Date,
+  lookback = DEFAULT_VOLATILITY_LOOKBACK
+): number {
+  const prices = outcomeSeries(market, outcome)
+    .filter((p) => p.timestamp.getTime() <= asOf.getTime())
+    .slice(-(lookback + 1))
+    .map((p) => p.price);
+  return standardDeviation(prices.slice(1).map((p, i) => p - prices[i]));
+}
+
+/**
+ * Dollar stake the sizing method asks for, before caps
+ */
+function targetStake(
+  bet: Bet,
+  market: PolymarketMarket,
+  equity: number,
+  price: number,
+  rule: SizingRule
+): { stake: number; reason?: string } {
+  const ownStake = bet.amount * price;
+
+  switch (rule.method) {
+    case 'kelly': {
+      // Without an estimate there is no edge to size from
+      if (bet.probability === undefined) return { stake: ownStake };
+      const winProbability = bet.side === 'buy' ? bet.probability : 1 - bet.probability;
+      const edge = kellyFraction(winProbability, price);
+      if (edge <= 0) return { stake: 0, reason: 'Sizing: no Kelly edge at this price' };
+      return { stake: equity * edge * (rule.kellyFraction ?? DEFAULT_KELLY_FRACTION) };
+    }
+    case 'fixed_fraction':
+      return { stake: equity * (rule.equityFraction ?? DEFAULT_EQUITY_FRACTION) };
+    case 'volatility_target': {
+      const sigma = priceVolatility(market, bet.outcome, bet.timestamp, rule.volatilityLookback);
+      if (sigma <= 0) return { stake: ownStake };
+      // Each share gains or loses sigma on a one-sigma move
+      const shares = (equity * (rule.targetVolatility ?? DEFAULT_TARGET_VOLATILITY)) / sigma;
+      return { stake: shares * price };
+    }
+    default:
+      return { stake: ownStake };
+  }
+}
+
+/**
+ * Number of shares to open for a bet, given current equity and exposure
+ */
+export function sizePosition(
+  bet: Bet,
+  market: PolymarketMarket,
+  state: SizingState,
+  rule: SizingRule
+): SizingDecision {
+  // Sized at the limit price: the fill price is not known when deciding
+  const price = collateralPerShare(bet.side, bet.priceLimit);
+  if (price <= 0 || state.equity <= 0) return { shares: 0, reason: 'Sizing: no equity to size from' };
+
+  const target = targetStake(bet, market, state.equity, price, rule);
+  if (target.reason) return { shares: 0, reason: target.reason };
+
+  let stake = target.stake;
+  if (rule.method !== 'fixed') {
+    stake = Math.min(stake, state.equity * (rule.maxBetFraction ?? DEFAULT_MAX_BET_FRACTION));
+  }
+  if (rule.maxMarketExposure !== undefined) {
+    stake = Math.min(stake, state.equity * rule.maxMarketExposure - state.marketExposure);
+    if (stake <= 0) return { shares: 0, reason: 'Sizing: market exposure cap reached' };
+  }
+  if (rule.maxCategoryExposure !== undefined && market.category) {
+    stake = Math.min(stake, state.equity * rule.maxCategoryExposure - state.categoryExposure);
+    if (stake <= 0) return { shares: 0, reason: 'Sizing: category exposure cap reached' };
+  }
+
+  return stake > 0
+    ? { shares: stake / price }
+    : { shares: 0, reason: 'Sizing: stake rounds to zero' };
+}
+
+/**
+ * Rescale a simulated bet to a new order size, keeping its fill ratio. Fees
+ * and slippage scale with size (slippage linearly, as an approximation);
+ * fixed costs stay per order.
+ */
+export function resizeBet(bet: BacktestBet, amount: number): BacktestBet {
+  const factor = amount / bet.amount;
+  const fees = bet.costBreakdown.fees * factor;
+  const slippage = bet.costBreakdown.slippage * factor;
+  const { fixedCosts } = bet.costBreakdown;
+  const total = fees + slippage + fixedCosts;
+  const cost = (bet.cost - bet.costBreakdown.total) * factor + total;
+  const payout = bet.payout * factor;
+
+  return {
+    ...bet,
+    amount,
+    filledAmount: bet.filledAmount * factor,
+    fills: bet.fills.map((fill) => ({ ...fill, amount: fill.amount * factor })),
+    cost,
+    payout,
+    costBreakdown: { fees, slippage, fixedCosts, total },
+    result: payout > cost ? 'win' : 'loss',
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Point-in-Time Market Snapshots
+ *
+ * Strategies are driven at explicit decision timestamps and only ever see
+ * each market as it looked at that instant: no resolution, and no prices or
+ * trades recorded after the decision time.
+ */
+
+import {
+  Bet,
+  BacktestBet,
+  BacktestOptions,
+  PolymarketMarket,
+  Strategy,
+  StrategyContext,
+} from '@/types';
+import { omit, orderBy } from 'lodash';
+import { marketEnd, marketStart } from './validation';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_DECISION_INTERVAL_HOURS = 24;
+export const DEFAULT_MAX_DECISION_POINTS = 60;
+const LEAKAGE_PREFIX = 'Look-ahead';
+
+/**
+ * A bet as proposed by a strategy, with the instant it was decided on
+ */
+export interface Decision {
+  bet: Bet;
+  asOf: Date;
+}
+
+/**
+ * Decision timestamps spanning the markets' trading period. The interval is
+ * widened when needed so long histories stay within `maxDecisionPoints`.
+ */
+export function createDecisionSchedule(
+  markets: PolymarketMarket[],
+  options: BacktestOptions
+): Date[] {
+  if (options.decisionTimes) {
+    return orderBy(options.decisionTimes.map((t) => new Date(t)), [(t) => t.getTime()], ['asc']);
+  }
+  if (markets.length === 0) return [];
+
+  const first = Math.min(...markets.map(marketStart));
+  const last = Math.max(...markets.map(marketEnd));
+  const maxPoints = options.maxDecisionPoints ?? DEFAULT_MAX_DECISION_POINTS;
+  const interval = Math.max(
+    (options.decisionIntervalHours ?? DEFAULT_DECISION_INTERVAL_HOURS) * HOUR_MS,
+    (last - first) / maxPoints
+  );
+
+  const schedule: Date[] = [];
+  for (let time = first + interval; time < last; time += interval) {
+    schedule.push(new Date(time));
+  }
+  return schedule;
+}
+
+/**
+ * Whether a market is listed and still tradable at the given instant
+ */
+export const isOpenAt = (market: PolymarketMarket, asOf: Date) => {
+  const time = asOf.getTime();
+  return marketStart(market) <= time && time < marketEnd(market);
+};
+
+/**
+ * The market as it was known at `asOf`: unresolved, with price and trade
+ * history truncated to that instant
+ */
+export function snapshotMarket(market: PolymarketMarket, asOf: Date): PolymarketMarket {
+  const cutoff = asOf.getTime();
+  const historicalPrices = orderBy(
+    market.historicalPrices
+      .filter((price) => price.timestamp.getTime() <= cutoff)
+      .map((price) => ({ ...price })),
+    ['timestamp'],
+    ['asc']
+  );
+  const trades = orderBy(
+    market.trades
+      .filter((trade) => trade.timestamp.getTime() <= cutoff)
+      .map((trade) => ({ ...trade })),
+    ['timestamp'],
+    ['asc']
+  );
+
+  // The resolution carries the winner's payout, so it goes with resolvedOutcome
+  return {
+    ...omit(market, 'resolution'),
+    active: true,
+    resolvedOutcome: null,
+    historicalPrices,
+    trades,
+  };
+}
+
+/**
+ * Call a batch strategy's generateBets at every scheduled decision time with
+ * the markets open at that instant
+ */
+export async function decideAtSnapshots(
+  strategy: Strategy,
+  trainingMarkets: PolymarketMarket[],
+  testMarkets: PolymarketMarket[],
+  options: BacktestOptions
+): Promise<Decision[]> {
+  const schedule = createDecisionSchedule(testMarkets, options);
+  console.log(`Generating bets at ${schedule.length} decision times over ${testMarkets.length} test markets...`);
+
+  const decisions: Decision[] = [];
+  for (const asOf of schedule) {
+    const snapshots = testMarkets
+      .filter((market) => isOpenAt(market, asOf))
+      .map((market) => snapshotMarket(market, asOf));
+    if (snapshots.length === 0) continue;
+
+    const context: StrategyContext = {
+      mode: 'backtest',
+      asOf,
+      trainingMarkets,
+      evaluationMarkets: snapshots,
+      parameters: strategy.parameters,
+    };
+    const bets = await strategy.generateBets(snapshots, context);
+    decisions.push(...bets.map((bet) => ({ bet, asOf })));
+  }
+  return decisions;
+}
+
+/**
+ * Reasons a bet could only have been made with information from the future,
+ * or null if it is clean
+ */
+export function checkLeakage(
+  bet: Bet,
+  market: PolymarketMarket,
+  asOf: Date
+): string | null {
+  const lastTradable = marketEnd(market);
+  if (bet.timestamp.getTime() > lastTradable) {
+    return `${LEAKAGE_PREFIX}: bet at ${bet.timestamp.toISOString()} is after the market's last tradable moment ${new Date(lastTradable).toISOString()}`;
+  }
+  if (bet.timestamp.getTime() > asOf.getTime()) {
+    return `${LEAKAGE_PREFIX}: bet at ${bet.timestamp.toISOString()} is after its decision time ${asOf.toISOString()}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a backtest bet was rejected by the leakage check
+ */
+export const isLeakageRejection = (bet: BacktestBet) =>
+  bet.result === 'rejected' && (bet.rejectionReason?.startsWith(LEAKAGE_PREFIX) ?? false);
@@ -0,0 +1,71 @@
+/**
+ * Test Builders
+ *
+ * Small markets, bets and backtest bets for the backtesting tests. Times are
+ * given in hours after a fixed start so expectations stay readable.
+ */
+
+import { BacktestBet, Bet, PolymarketMarket, PricePoint, Trade } from '@/types';
+
+const START = Date.UTC(2025, 0, 1);
+
+export const at = (hours: number) => new Date(START + hours * 60 * 60 * 1000);
+
+export const pricePoint = (hours: number, price: number, outcome = 'Yes'): PricePoint => ({
+  timestamp: at(hours),
+  price,
+  outcome,
+});
+
+export const trade = (hours: number, price: number, amount: number, outcome = 'Yes'): Trade => ({
+  timestamp: at(hours),
+  side: 'buy',
+  amount,
+  price,
+  outcome,
+});
+
+export const market = (fields: Partial<PolymarketMarket> = {}): PolymarketMarket => ({
+  marketId: 'm1',
+  question: 'Will it happen?',
+  outcomes: ['Yes', 'No'],
+  resolutionDate: at(100),
+  historicalPrices: [],
+  trades: [],
+  resolvedOutcome: 'Yes',
+  volume: 100000,
+  liquidity: 100000,
+  active: false,
+  endDate: at(100),
+  ...fields,
+});
+
+export const bet = (fields: Partial<Bet> = {}): Bet => ({
+  marketId: 'm1',
+  outcome: 'Yes',
+  side: 'buy',
+  amount: 100,
+  priceLimit: 0.5,
+  reason: 'test',
+  timestamp: at(0),
+  ...fields,
+});
+
+/**
+ * A filled backtest bet, entered at `fillPrice` with no trading costs
+ */
+export const filledBet = (fields: Partial<BacktestBet> = {}): BacktestBet => {
+  const base = bet(fields);
+  const fillPrice = fields.fillPrice ?? base.priceLimit;
+  return {
+    ...base,
+    result: 'win',
+    payout: 0,
+    cost: 0,
+    filledAmount: base.amount,
+    fillPrice,
+    fills: [{ timestamp: base.timestamp, price: fillPrice, amount: base.amount }],
+    costBreakdown: { fees: 0, slippage: 0, fixedCosts: 0, total: 0 },
+    ...fields,
+  };
+};
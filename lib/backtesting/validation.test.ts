@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createFoldSplits, splitHoldout } from './validation';
+import { at, market, pricePoint } from './test-utils';
+
+// Ten markets, each trading for 20 hours and ending 24 hours after the last
+const markets = Array.from({ length: 10 }, (_, i) =>
+  market({
+    marketId: `m${i}`,
+    endDate: at(i * 24 + 20),
+    resolutionDate: at(i * 24 + 20),
+    historicalPrices: [pricePoint(i * 24, 0.5)],
+  })
+);
+const ids = (list: { marketId: string }[]) => list.map((m) => m.marketId);
+
+describe('splitHoldout', () => {
+  it('holds out the latest markets', () => {
+    const { available, holdout } = splitHoldout([...markets].reverse(), 0.2);
+    expect(ids(holdout)).toEqual(['m8', 'm9']);
+    expect(ids(available)).toHaveLength(8);
+  });
+});
+
+describe('createFoldSplits', () => {
+  it('walks forward with training always before the test window', () => {
+    const splits = createFoldSplits(markets, { mode: 'walk_forward', folds: 3, trainSegments: 2 });
+    expect(splits).toHaveLength(3);
+    splits.forEach((split) => {
+      expect(split.test.length).toBeGreaterThan(0);
+      split.training.forEach((m) => expect(m.endDate!.getTime()).toBeLessThan(split.testStart.getTime()));
+    });
+  });
+
+  it('grows the training window when anchored', () => {
+    const rolling = createFoldSplits(markets, { mode: 'walk_forward', folds: 3, trainSegments: 2 });
+    const anchored = createFoldSplits(markets, { mode: 'walk_forward', folds: 3, trainSegments: 2, anchored: true });
+    expect(anchored[2].training.length).toBeGreaterThan(rolling[2].training.length);
+    expect(ids(anchored[2].training)).toContain('m0');
+  });
+
+  it('tests every market once in purged k-fold and never trains on overlaps', () => {
+    const splits = createFoldSplits(markets, { mode: 'purged_kfold', folds: 5, embargoDays: 1 });
+    expect(ids(splits.flatMap((s) => s.test)).sort()).toEqual(ids(markets).sort());
+
+    splits.forEach((split) => {
+      const test = new Set(ids(split.test));
+      split.training.forEach((m) => {
+        expect(test.has(m.marketId)).toBe(false);
+        const start = m.historicalPrices[0].timestamp.getTime();
+        // Embargo: nothing starting within a day after the test block
+        const embargoed = start > split.testEnd.getTime() && start <= split.testEnd.getTime() + 24 * 3600 * 1000;
+        expect(embargoed).toBe(false);
+      });
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Time-Series Validation
+ *
+ * Chronological train/test splitting for backtests: a held-out final slice
+ * that optimisers never see, rolling or anchored walk-forward windows, and
+ * purged k-fold with an embargo gap so markets that overlap the test period
+ * cannot leak into training.
+ */
+
+import { PolymarketMarket, ValidationFold, ValidationOptions } from '@/types';
+import { orderBy } from 'lodash';
+import { average } from './metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_VALIDATION_FOLDS = 5;
+export const DEFAULT_TRAIN_SEGMENTS = 2;
+export const DEFAULT_EMBARGO_DAYS = 1;
+
+export interface FoldSplit {
+  fold: number;
+  training: PolymarketMarket[];
+  test: PolymarketMarket[];
+  testStart: Date;
+  testEnd: Date;
+}
+
+/**
+ * When a market stops trading (its end date, or its last recorded activity)
+ */
+export const marketEnd = (market: PolymarketMarket): number => {
+  const end = market.endDate ?? market.resolutionDate;
+  if (end) return new Date(end).getTime();
+  const times = [...market.historicalPrices, ...market.trades].map((p) => p.timestamp.getTime());
+  return times.length > 0 ? Math.max(...times) : 0;
+};
+
+/**
+ * When a market starts carrying information (its first price or trade)
+ */
+export const marketStart = (market: PolymarketMarket): number => {
+  const times = [...market.historicalPrices, ...market.trades].map((p) => p.timestamp.getTime());
+  return times.length > 0 ? Math.min(...times) : marketEnd(market);
+};
+
+/**
+ * Sort markets chronologically and carve off the last `holdoutRatio` of them
+ */
+export function splitHoldout(markets: PolymarketMarket[], holdoutRatio: number) {
+  const sorted = orderBy(markets, [marketEnd], ['asc']);
+  const splitIndex = sorted.length - Math.floor(sorted.length * holdoutRatio);
+  return {
+    available: sorted.slice(0, splitIndex),
+    holdout: sorted.slice(splitIndex),
+  };
+}
+
+/**
+ * Divide the markets' end-date range into equal-width time segments
+ */
+function timeSegments(markets: PolymarketMarket[], count: number) {
+  if (markets.length === 0 || count <= 0) return [];
+
+  const ends = markets.map(marketEnd);
+  const first = Math.min(...ends);
+  const last = Math.max(...ends);
+  const width = Math.max(1, (last - first) / count);
+
+  return Array.from({ length: count }, (_, i) => {
+    const start = first + i * width;
+    const end = i === count - 1 ? last : start + width;
+    return {
+      start,
+      end,
+      markets: markets.filter((m) => {
+        const time = marketEnd(m);
+        return time >= start && (i === count - 1 ? time <= end : time < end);
+      }),
+    };
+  });
+}
+
+/**
+ * Walk-forward: train on a window of segments, test on the segment after it,
+ * then roll forward (or grow the window when anchored)
+ */
+function walkForwardSplits(markets: PolymarketMarket[], options: ValidationOptions): FoldSplit[] {
+  const folds = options.folds ?? DEFAULT_VALIDATION_FOLDS;
+  const trainSegments = options.trainSegments ?? DEFAULT_TRAIN_SEGMENTS;
+  const segments = timeSegments(markets, folds + trainSegments);
+  if (segments.length === 0) return [];
+
+  return Array.from({ length: folds }, (_, i) => {
+    const testSegment = segments[i + trainSegments];
+    const trainFrom = options.anchored ? 0 : i;
+    return {
+      fold: i + 1,
+      training: segments.slice(trainFrom, i + trainSegments).flatMap((s) => s.markets),
+      test: testSegment.markets,
+      testStart: new Date(testSegment.start),
+      testEnd: new Date(testSegment.end),
+    };
+  });
+}
+
+/**
+ * Purged k-fold: each time block is the test set once; training markets whose
+ * lifetime overlaps the test block are purged, and markets starting within
+ * the embargo period after it are dropped
+ */
+function purgedKFoldSplits(markets: PolymarketMarket[], options: ValidationOptions): FoldSplit[] {
+  const folds = options.folds ?? DEFAULT_VALIDATION_FOLDS;
+  const embargoMs = (options.embargoDays ?? DEFAULT_EMBARGO_DAYS) * DAY_MS;
+  const segments = timeSegments(markets, folds);
+
+  return segments.map((segment, i) => {
+    const testIds = new Set(segment.markets.map((m) => m.marketId));
+    const testStart = segment.markets.length > 0
+      ? Math.min(...segment.markets.map(marketStart))
+      : segment.start;
+    const testEnd = segment.end;
+
+    const training = markets.filter((m) => {
+      if (testIds.has(m.marketId)) return false;
+      const start = marketStart(m);
+      const end = marketEnd(m);
+      const overlapsTest = start <= testEnd && end >= testStart;
+      const inEmbargo = start > testEnd && start <= testEnd + embargoMs;
+      return !overlapsTest && !inEmbargo;
+    });
+
+    return {
+      fold: i + 1,
+      training,
+      test: segment.markets,
+      testStart: new Date(testStart),
+      testEnd: new Date(testEnd),
+    };
+  });
+}
+
+/**
+ * Single chronological split, matching BacktestEngine.backtest
+ */
+function holdoutSplit(markets: PolymarketMarket[], options: ValidationOptions): FoldSplit[] {
+  const splitIndex = Math.floor(markets.length * (options.trainingRatio ?? 0.8));
+  const test = markets.slice(splitIndex);
+  if (test.length === 0) return [];
+  return [
+    {
+      fold: 1,
+      training: markets.slice(0, splitIndex),
+      test,
+      testStart: new Date(marketEnd(test[0])),
+      testEnd: new Date(marketEnd(test[test.length - 1])),
+    },
+  ];
+}
+
+/**
+ * Build the train/test folds for a validation mode, skipping empty test sets
+ */
+export function createFoldSplits(
+  markets: PolymarketMarket[],
+  options: ValidationOptions
+): FoldSplit[] {
+  const sorted = orderBy(markets, [marketEnd], ['asc']);
+  const splits =
+    options.mode === 'walk_forward'
+      ? walkForwardSplits(sorted, options)
+      : options.mode === 'purged_kfold'
+        ? purgedKFoldSplits(sorted, options)
+        : holdoutSplit(sorted, options);
+
+  return splits.filter((split) => split.test.length > 0);
+}
+
+/**
+ * Fold-to-fold averages and dispersion of the headline metrics
+ */
+export function summarizeFolds(folds: ValidationFold[]) {
+  const rois = folds.map((f) => f.result.roi);
+  const meanRoi = average(rois);
+  return {
+    meanRoi,
+    roiStdDev: Math.sqrt(average(rois.map((r) => Math.pow(r - meanRoi, 2)))),
+    meanWinRate: average(folds.map((f) => f.result.winRate)),
+    meanSharpe: average(folds.map((f) => f.result.metrics.sharpeRatio)),
+  };
+}
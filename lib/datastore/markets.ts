@@ -0,0 +1,180 @@
+/**
+ * Market Store
+ *
+ * Local copy of Polymarket markets on disk, so the dashboard and simulation
+ * jobs read markets in seconds instead of re-fetching and regenerating them.
+ * An index file holds every market's metadata and sync bookkeeping; each
+ * market's price points and trades live in a file of their own and are only
+ * read for the markets a query returns. Filled by `syncMarkets` (./sync).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { omit } from 'lodash';
+import { MarketProvenance, PolymarketMarket } from '@/types';
+import { MarketHistory } from '@/lib/markets';
+import { groupNegRiskEvents } from '@/lib/outcomes';
+import { isRealData } from '@/lib/provenance';
+import { reviveDates } from '@/lib/serialization';
+
+const STORE_DIR = process.env.MARKET_STORE_DIR || path.join(process.cwd(), '.data', 'markets');
+const INDEX_FILE = path.join(STORE_DIR, 'index.json');
+const HISTORY_DIR = path.join(STORE_DIR, 'history');
+
+// A market in the index: everything but its history
+export interface StoredMarket extends Omit<PolymarketMarket, 'historicalPrices' | 'trades'> {
+  provenance: MarketProvenance;
+  conditionId?: string;
+  subgraphChecked: boolean; // Whether the subgraph was ever asked for this market
+  watermark: Date | null; // Latest price point or trade stored; later syncs fetch after it
+  priceCount: number;
+  tradeCount: number;
+  syncedAt: Date;
+}
+
+export interface MarketSyncState {
+  lastSyncAt: Date | null; // Start of the last completed sync
+}
+
+export interface MarketFilter {
+  resolved?: boolean; // Closed markets (true) or open ones (false); both when unset
+  category?: string;
+  search?: string; // Case-insensitive substring of the question
+  minVolume?: number;
+  minLiquidity?: number;
+  endAfter?: Date;
+  endBefore?: Date;
+  offset?: number;
+  limit?: number;
+  groupEvents?: boolean; // Merge negRisk events into categorical markets
+  realDataOnly?: boolean; // Only markets with no synthetic data
+}
+
+interface MarketIndex {
+  state: MarketSyncState;
+  markets: Map<string, StoredMarket>;
+}
+
+// Kept on globalThis so dev-server reloads of this module share one index
+const globalForStore = globalThis as typeof globalThis & {
+  marketIndex?: Promise<MarketIndex>;
+};
+
+// StoredMarket fields that are not part of PolymarketMarket
+const BOOKKEEPING_FIELDS = [
+  'conditionId',
+  'subgraphChecked',
+  'watermark',
+  'priceCount',
+  'tradeCount',
+  'syncedAt',
+] as const;
+
+const historyFile = (marketId: string) =>
+  path.join(HISTORY_DIR, `${encodeURIComponent(marketId)}.json`);
+
+function loadIndex(): Promise<MarketIndex> {
+  globalForStore.marketIndex ??= (async () => {
+    try {
+      const saved = reviveDates<{ state: MarketSyncState; markets: StoredMarket[] }>(
+        JSON.parse(await fs.readFile(INDEX_FILE, 'utf8'))
+      );
+      return { state: saved.state, markets: new Map(saved.markets.map((m) => [m.marketId, m])) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return { state: { lastSyncAt: null }, markets: new Map() };
+    }
+  })().catch((error) => {
+    globalForStore.marketIndex = undefined;
+    throw error;
+  });
+  return globalForStore.marketIndex;
+}
+
+/**
+ * Index entry for a market with its full history
+ */
+export function toStoredMarket(
+  { historicalPrices, trades, ...market }: PolymarketMarket & { provenance: MarketProvenance },
+  fields: Pick<StoredMarket, 'conditionId' | 'subgraphChecked'>
+): StoredMarket {
+  const times = [...historicalPrices, ...trades].map((p) => p.timestamp.getTime());
+  return {
+    ...market,
+    ...fields,
+    watermark: times.length > 0 ? new Date(Math.max(...times)) : null,
+    priceCount: historicalPrices.length,
+    tradeCount: trades.length,
+    syncedAt: new Date(),
+  };
+}
+
+export async function getSyncState(): Promise<MarketSyncState & { marketCount: number }> {
+  const index = await loadIndex();
+  return { ...index.state, marketCount: index.markets.size };
+}
+
+export async function getStoredMarket(marketId: string): Promise<StoredMarket | null> {
+  return (await loadIndex()).markets.get(marketId) ?? null;
+}
+
+export async function readHistory(marketId: string): Promise<MarketHistory> {
+  try {
+    return reviveDates<MarketHistory>(JSON.parse(await fs.readFile(historyFile(marketId), 'utf8')));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return { historicalPrices: [], trades: [] };
+  }
+}
+
+/**
+ * Update a market's index entry, and its history file when `history` is
+ * given. The index itself is written by `saveIndex`.
+ */
+export async function putMarket(market: StoredMarket, history?: MarketHistory): Promise<void> {
+  const index = await loadIndex();
+  if (history) {
+    await fs.mkdir(HISTORY_DIR, { recursive: true });
+    await fs.writeFile(historyFile(market.marketId), JSON.stringify(history));
+  }
+  index.markets.set(market.marketId, market);
+}
+
+export async function saveIndex(state?: Partial<MarketSyncState>): Promise<void> {
+  const index = await loadIndex();
+  Object.assign(index.state, state);
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  const temporary = `${INDEX_FILE}.tmp`;
+  await fs.writeFile(
+    temporary,
+    JSON.stringify({ state: index.state, markets: Array.from(index.markets.values()) })
+  );
+  await fs.rename(temporary, INDEX_FILE);
+}
+
+const matches = (market: StoredMarket, filter: MarketFilter) =>
+  (filter.resolved === undefined || market.active !== filter.resolved) &&
+  (!filter.category || market.category?.toLowerCase() === filter.category.toLowerCase()) &&
+  (!filter.search || market.question.toLowerCase().includes(filter.search.toLowerCase())) &&
+  (filter.minVolume === undefined || market.volume >= filter.minVolume) &&
+  (filter.minLiquidity === undefined || market.liquidity >= filter.minLiquidity) &&
+  (!filter.endAfter || (market.endDate !== null && market.endDate >= filter.endAfter)) &&
+  (!filter.endBefore || (market.endDate !== null && market.endDate <= filter.endBefore)) &&
+  (!filter.realDataOnly || isRealData(market));
+
+/**
+ * Stored markets matching `filter`, with their history, in sync order
+ */
+export async function queryMarkets(filter: MarketFilter = {}): Promise<PolymarketMarket[]> {
+  const index = await loadIndex();
+  const offset = filter.offset ?? 0;
+  const selected = Array.from(index.markets.values())
+    .filter((m) => matches(m, filter))
+    .slice(offset, filter.limit === undefined ? undefined : offset + filter.limit);
+
+  const markets: PolymarketMarket[] = [];
+  for (const stored of selected) {
+    markets.push({ ...omit(stored, BOOKKEEPING_FIELDS), ...(await readHistory(stored.marketId)) });
+  }
+  return filter.groupEvents ? groupNegRiskEvents(markets) : markets;
+}
@@ -0,0 +1,253 @@
+/**
+ * Market Sync
+ *
+ * Brings the market store up to date. The Gamma market lists are re-read
+ * each time (they are cheap, and that is how resolutions arrive), but
+ * history, the expensive part, is only fetched where it can have changed:
+ *
+ * - new markets get their full history (synthetic if the subgraph has none)
+ * - open markets with subgraph history get the trades and price points after
+ *   their watermark, appended to what is stored
+ * - markets stored with synthetic history ask the subgraph once, and switch
+ *   to real history if it has some
+ * - markets that were already closed are not fetched again
+ *
+ * Only one sync runs at a time; a second request waits for the running one.
+ */
+
+import { isEqual, omit, sortBy } from 'lodash';
+import {
+  fetchChainResolution,
+  fetchSubgraphHistory,
+  GammaMarket,
+  listGammaMarkets,
+  loadMarketHistory,
+  MarketHistory,
+  syntheticResolution,
+} from '@/lib/markets';
+import { polymarketProvenance } from '@/lib/provenance';
+import { isSettled, resolvedOutcomeLabel } from '@/lib/resolution';
+import { MarketResolution } from '@/types';
+import {
+  getStoredMarket,
+  getSyncState,
+  putMarket,
+  readHistory,
+  saveIndex,
+  StoredMarket,
+  toStoredMarket,
+} from './markets';
+
+// Write the index every so many markets, so an interrupted sync keeps its progress
+const SAVE_EVERY = 100;
+
+export interface SyncOptions {
+  unresolvedLimit: number;
+  resolvedLimit: number;
+  useSubgraph: boolean;
+}
+
+export interface SyncReport {
+  startedAt: Date;
+  finishedAt: Date;
+  marketsAdded: number;
+  marketsUpdated: number;
+  pricePointsAdded: number;
+  tradesAdded: number;
+}
+
+// The dashboard's market load; the subgraph is skipped as the first load
+// of thousands of markets would take too long
+export const DEFAULT_SYNC_OPTIONS: SyncOptions = {
+  unresolvedLimit: 500,
+  resolvedLimit: 2000,
+  useSubgraph: false,
+};
+
+const globalForSync = globalThis as typeof globalThis & {
+  marketSync?: Promise<SyncReport>;
+};
+
+const hasHistory = (history: MarketHistory) =>
+  history.historicalPrices.length > 0 && history.trades.length > 0;
+
+const mergeHistory = (stored: MarketHistory, fresh: MarketHistory): MarketHistory => ({
+  historicalPrices: sortBy([...stored.historicalPrices, ...fresh.historicalPrices], (p) => p.timestamp.getTime()),
+  trades: sortBy([...stored.trades, ...fresh.trades], (t) => t.timestamp.getTime()),
+});
+
+// Market fields that change on every sync without the data changing
+const comparable = (market: StoredMarket) => omit(market, ['syncedAt', 'provenance.fetchedAt']);
+
+/**
+ * Latest Gamma metadata over a stored market. Outcomes and token IDs stay
+ * as stored so they keep matching the history; values Gamma leaves empty
+ * keep their stored (possibly synthetic) value. A closed market settles by
+ * Gamma, then on-chain payouts; one still unsettled and not disputed
+ * resolves by its stored prices.
+ */
+async function refreshMetadata(
+  existing: StoredMarket,
+  gamma: GammaMarket,
+  { includeResolved, useSubgraph }: { includeResolved: boolean; useSubgraph: boolean }
+): Promise<StoredMarket> {
+  const { market } = gamma;
+  const { synthetic } = existing.provenance;
+  const settledBefore = existing.resolvedOutcome !== null && !synthetic.resolvedOutcome;
+
+  let resolution: MarketResolution | undefined = market.resolution;
+  let syntheticResolved = false;
+  if (!isSettled(resolution) && settledBefore) {
+    resolution = existing.resolution;
+  } else if (!isSettled(resolution)) {
+    const chain =
+      useSubgraph && gamma.closed && gamma.conditionId
+        ? await fetchChainResolution(gamma.conditionId, existing.outcomes.length)
+        : null;
+    if (chain) {
+      resolution = chain;
+    } else if (!resolution && synthetic.resolvedOutcome && existing.resolvedOutcome !== null) {
+      resolution = existing.resolution;
+      syntheticResolved = true;
+    } else if (!resolution && includeResolved && gamma.closed) {
+      resolution = syntheticResolution({ ...existing, ...(await readHistory(existing.marketId)) });
+      syntheticResolved = true;
+    }
+  }
+  const resolvedOutcome = resolution
+    ? resolvedOutcomeLabel(resolution, existing.outcomes)
+    : settledBefore || syntheticResolved
+      ? existing.resolvedOutcome // Stored before resolutions were recorded
+      : null;
+
+  return {
+    ...omit(existing, 'resolution'),
+    question: market.question,
+    resolutionDate: market.resolutionDate,
+    endDate: market.endDate,
+    active: market.active,
+    image: market.image,
+    category: market.category,
+    negRiskEvent: market.negRiskEvent,
+    volume: market.volume || existing.volume,
+    liquidity: market.liquidity || existing.liquidity,
+    resolvedOutcome,
+    ...(resolution ? { resolution } : {}),
+    provenance: {
+      ...existing.provenance,
+      synthetic: {
+        ...synthetic,
+        resolvedOutcome: syntheticResolved,
+        volume: market.volume ? false : synthetic.volume,
+        liquidity: market.liquidity ? false : synthetic.liquidity,
+      },
+    },
+  };
+}
+
+async function runSync({ unresolvedLimit, resolvedLimit, useSubgraph }: SyncOptions): Promise<SyncReport> {
+  const report: SyncReport = {
+    startedAt: new Date(),
+    finishedAt: new Date(),
+    marketsAdded: 0,
+    marketsUpdated: 0,
+    pricePointsAdded: 0,
+    tradesAdded: 0,
+  };
+  let processed = 0;
+
+  for (const [includeResolved, limit] of [[false, unresolvedLimit], [true, resolvedLimit]] as const) {
+    console.log(`Syncing ${limit} markets, resolved: ${includeResolved}, useSubgraph: ${useSubgraph}`);
+
+    for (const gamma of await listGammaMarkets({ limit, includeResolved })) {
+      try {
+        const existing = await getStoredMarket(gamma.market.marketId);
+
+        if (!existing) {
+          const market = await loadMarketHistory(gamma, { includeResolved, useSubgraph });
+          const { historicalPrices, trades } = market;
+          await putMarket(
+            toStoredMarket(
+              { ...market, provenance: market.provenance ?? polymarketProvenance() },
+              { conditionId: gamma.conditionId, subgraphChecked: useSubgraph }
+            ),
+            { historicalPrices, trades }
+          );
+          report.marketsAdded++;
+          report.pricePointsAdded += historicalPrices.length;
+          report.tradesAdded += trades.length;
+        } else {
+          const metadata = await refreshMetadata(existing, gamma, { includeResolved, useSubgraph });
+          const syntheticHistory = existing.provenance.synthetic.trades;
+          let history: MarketHistory | null = null;
+          let added = { historicalPrices: 0, trades: 0 };
+
+          if (useSubgraph && gamma.conditionId && syntheticHistory && !existing.subgraphChecked) {
+            const real = await fetchSubgraphHistory(gamma);
+            if (hasHistory(real)) {
+              history = real;
+              metadata.provenance.synthetic = {
+                ...metadata.provenance.synthetic,
+                historicalPrices: false,
+                trades: false,
+              };
+              added = { historicalPrices: real.historicalPrices.length, trades: real.trades.length };
+            }
+          } else if (useSubgraph && gamma.conditionId && !syntheticHistory && existing.active) {
+            const fresh = await fetchSubgraphHistory(gamma, existing.watermark ?? undefined);
+            if (fresh.historicalPrices.length > 0 || fresh.trades.length > 0) {
+              history = mergeHistory(await readHistory(existing.marketId), fresh);
+              added = { historicalPrices: fresh.historicalPrices.length, trades: fresh.trades.length };
+            }
+          }
+
+          const fields = {
+            conditionId: gamma.conditionId,
+            subgraphChecked: existing.subgraphChecked || useSubgraph,
+          };
+          metadata.provenance = { ...metadata.provenance, fetchedAt: new Date() };
+          const updated = history
+            ? toStoredMarket({ ...metadata, ...history }, fields)
+            : { ...metadata, ...fields, syncedAt: new Date() };
+          if (history || !isEqual(comparable(updated), comparable(existing))) {
+            await putMarket(updated, history ?? undefined);
+            report.marketsUpdated++;
+            report.pricePointsAdded += added.historicalPrices;
+            report.tradesAdded += added.trades;
+          }
+        }
+      } catch (error) {
+        console.error(`Error syncing market ${gamma.market.marketId}:`, error);
+        // Continue with other markets
+      }
+
+      if (++processed % SAVE_EVERY === 0) await saveIndex();
+    }
+  }
+
+  await saveIndex({ lastSyncAt: report.startedAt });
+  report.finishedAt = new Date();
+  console.log(
+    `Market sync done: ${report.marketsAdded} added, ${report.marketsUpdated} updated, ` +
+      `${report.tradesAdded} trades and ${report.pricePointsAdded} price points added`
+  );
+  return report;
+}
+
+/**
+ * Sync the store, or wait for the sync already running
+ */
+export function syncMarkets(options: Partial<SyncOptions> = {}): Promise<SyncReport> {
+  globalForSync.marketSync ??= runSync({ ...DEFAULT_SYNC_OPTIONS, ...options }).finally(() => {
+    globalForSync.marketSync = undefined;
+  });
+  return globalForSync.marketSync;
+}
+
+/**
+ * Run a first sync if the store has never been filled
+ */
+export async function ensureSynced(): Promise<void> {
+  const { lastSyncAt } = await getSyncState();
+  if (!lastSyncAt) await syncMarkets();
+}
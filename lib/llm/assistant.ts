@@ -0,0 +1,364 @@
+/**
+ * Strategy Assistant
+ *
+ * Prompts for generating new strategies, improving existing ones and
+ * suggesting live bets, sent through an `LlmProvider`. Used by the
+ * /api/openai route and by server-side simulation jobs.
+ */
+
+import {
+  BacktestResult,
+  GeneratedStrategy,
+  PolymarketMarket,
+  Strategy,
+  StrategyBenchmark,
+  StrategyImprovement,
+  SuggestedBets,
+} from '@/types';
+import { SANDBOX_TIMEOUT_MS } from '@/lib/strategies/sandbox';
+import { checkStrategyCode } from '@/lib/strategies/checks';
+import {
+  validateGeneratedStrategy,
+  validateStrategyImprovement,
+  validateSuggestedBets,
+} from '@/lib/validation';
+import { createLlmProvider, LlmMessage, LlmProvider, LlmTask } from './providers';
+
+// Shared by callers that do not bring their own provider, like the API route
+let defaultProvider: LlmProvider | null = null;
+const getDefaultProvider = () => (defaultProvider ??= createLlmProvider());
+
+// Follow-up requests that feed validation problems back to the model
+const MAX_REPAIR_ATTEMPTS = 2;
+
+interface JsonCompletion {
+  task: LlmTask;
+  system: string;
+  prompt: string;
+  temperature: number;
+}
+
+/**
+ * Request a JSON answer and validate it. While it has problems, show them to
+ * the model and ask for a corrected answer, up to MAX_REPAIR_ATTEMPTS times.
+ */
+async function completeValidatedJson<T>(
+  provider: LlmProvider,
+  { task, system, prompt, temperature }: JsonCompletion,
+  validate: (response: unknown) => string[] | Promise<string[]>
+): Promise<T> {
+  const messages: LlmMessage[] = [
+    { role: 'system', content: system },
+    { role: 'user', content: prompt },
+  ];
+
+  for (let attempt = 0; ; attempt++) {
+    const content = await provider.completeJson({ task, messages, temperature });
+
+    let response: unknown;
+    let problems: string[];
+    try {
+      response = JSON.parse(content);
+      problems = await validate(response);
+    } catch (err) {
+      problems = [`Response is not valid JSON: ${(err as Error).message}`];
+    }
+    if (problems.length === 0) return response as T;
+
+    console.warn(`⚠️ Model response failed validation (attempt ${attempt + 1}):`, problems);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(
+        `Model response failed validation after ${attempt + 1} attempts: ${problems.join('; ')}`
+      );
+    }
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response failed validation:\n${problems.map((p) => `- ${p}`).join('\n')}\n\nFix these problems and return the complete corrected JSON object.`,
+      }
+    );
+  }
+}
+
+// Schema first; the generated code is only linted and dry-run once the shape is right.
+// Improvements only return the parameters they change, so they run over `baseParameters`.
+const withCodeChecks =
+  (validate: (response: unknown) => string[], baseParameters: Strategy['parameters'] = {}) =>
+  async (response: unknown): Promise<string[]> => {
+    const problems = validate(response);
+    if (problems.length > 0) return problems;
+    const { generateBetsCode, parameters, improvedParameters } = response as Record<string, unknown>;
+    return typeof generateBetsCode === 'string'
+      ? checkStrategyCode(generateBetsCode, {
+          ...baseParameters,
+          ...((parameters ?? improvedParameters) as Strategy['parameters']),
+        })
+      : [];
+  };
+
+interface MarketStats {
+  totalMarkets: number;
+  resolvedMarkets: number;
+  avgVolume: number;
+  avgLiquidity: number;
+}
+
+export interface GenerateStrategyRequest {
+  historicalData: MarketStats;
+  benchmarks: StrategyBenchmark[];
+  currentStrategies: Pick<Strategy, 'id' | 'name' | 'description'>[];
+}
+
+export interface ImproveStrategyRequest {
+  strategy: Pick<Strategy, 'name' | 'type' | 'description' | 'parameters'>;
+  performance: BacktestResult;
+  historicalStats?: MarketStats | null;
+  currentCode?: string;
+  previousEpochResults?: BacktestResult[] | null;
+}
+
+export interface SuggestBetsRequest {
+  markets: PolymarketMarket[];
+  strategyContext: string;
+}
+
+/**
+ * Ask for a new strategy with executable generateBets code
+ */
+export async function generateStrategy(
+  { historicalData, benchmarks, currentStrategies }: GenerateStrategyRequest,
+  provider: LlmProvider = getDefaultProvider()
+): Promise<GeneratedStrategy> {
+  const prompt = `You are an expert Polymarket trading strategist. Generate a NEW executable trading strategy.
+
+Historical Data Summary:
+- Total markets: ${historicalData.totalMarkets}
+- Resolved markets: ${historicalData.resolvedMarkets}
+- Avg volume: $${historicalData.avgVolume.toFixed(0)}
+- Avg liquidity: $${historicalData.avgLiquidity.toFixed(0)}
+
+Current Strategy Performance:
+${JSON.stringify(benchmarks, null, 2)}
+
+Existing Strategies:
+${currentStrategies.map((s) => `- ${s.name} (ROI: ${benchmarks.find((b) => b.strategyId === s.id)?.roi?.toFixed(1) || 'N/A'}%): ${s.description}`).join('\n')}
+
+CRITICAL DATA STRUCTURES:
+- Market: { marketId, question, outcomes: string[] (["Yes", "No"] for binary markets, one entry per candidate for categorical markets), outcomeTokenIds?: string[], liquidity, volume, active, resolvedOutcome, historicalPrices: [{timestamp: Date, price: number, outcome: string}], trades: [{timestamp: Date, side: "buy"|"sell", amount: number, price: number, outcome: string, maker: string, taker: string}], endDate, resolutionDate }
+- Required Bet format: { marketId: string, outcome: string (an entry of market.outcomes, or its token ID from market.outcomeTokenIds), side: "buy"|"sell", amount: number, priceLimit: number (0-1), reason: string, timestamp: Date }
+- Side semantics: "buy" holds the outcome (costs amount * price, pays amount if it resolves). "sell" first closes any long you hold in that outcome; otherwise it takes the other side (costs amount * (1 - price), pays amount if the outcome does NOT resolve)
+- Backtests call generateBets repeatedly with context.asOf set to the decision time; markets only contain prices and trades up to that instant. Timestamp bets at context.asOf: bets dated later are rejected as look-ahead
+- historicalPrices and trades interleave every outcome: filter by .outcome before reading one outcome's price series
+
+EXAMPLE STRATEGY CODE PATTERN:
+\`\`\`javascript
+const bets = [];
+const params = parameters;
+markets.forEach((market) => {
+  // Check if market is eligible (in backtest mode, all resolved markets are eligible)
+  if (context.mode === 'live' && (!market.active || market.resolvedOutcome)) return;
+
+  // Get decision time (backtests replay point-in-time snapshots as of context.asOf)
+  const decisionTime = context.asOf ? new Date(context.asOf) : new Date();
+
+  // Filter data before decision time
+  const relevantPrices = market.historicalPrices.filter(p => new Date(p.timestamp) <= decisionTime);
+  const relevantTrades = market.trades.filter(t => new Date(t.timestamp) <= decisionTime);
+
+  // Example: Bet on markets with high liquidity
+  if (market.liquidity > 50000 && relevantPrices.length > 0) {
+    const currentPrice = relevantPrices[relevantPrices.length - 1].price;
+    bets.push({
+      marketId: market.marketId,  // CRITICAL: use market.marketId
+      outcome: market.outcomes[0],  // Pick from market.outcomes array
+      side: currentPrice > 0.7 ? 'sell' : 'buy',
+      amount: params.betSize,
+      priceLimit: clampPrice(currentPrice > 0.7 ? currentPrice - 0.05 : currentPrice + 0.05),
+      reason: 'High liquidity market with edge',
+      timestamp: decisionTime
+    });
+  }
+});
+return bets;
+\`\`\`
+
+Generate a NEW strategy with ACTUAL executable JavaScript code. Be creative but ensure the code:
+1. Uses only available market data: marketId, question, outcomes, liquidity, volume, active, resolvedOutcome, historicalPrices[], trades[], endDate, resolutionDate
+2. Properly filters data by timestamp (CRITICAL for backtesting)
+3. Returns array of bets with: marketId, outcome, side, amount, priceLimit, reason, timestamp
+4. Includes clear betting logic based on patterns you identify in the data
+5. Uses parameters that can be tuned
+6. Available utilities: clampPrice(price), mean(array), sortBy(array, fn), Math, Date. The code runs in a sandbox without require, fetch, process or eval, and each call is stopped after ${SANDBOX_TIMEOUT_MS}ms of CPU time
+
+Return ONLY valid JSON (no markdown):
+{
+  "strategyName": "string",
+  "description": "string",
+  "type": "ai_generated",
+  "parameters": {
+    "betSize": number,
+    "...other tunable params": "values"
+  },
+  "generateBetsCode": "FULL executable JavaScript function body as string - include all the code from const bets = []; to return bets;",
+  "expectedROI": number
+}`;
+
+  return completeValidatedJson<GeneratedStrategy>(
+    provider,
+    {
+      task: 'generate_strategy',
+      system:
+        'You are a quantitative trading expert specializing in prediction markets. Return only valid JSON.',
+      prompt,
+      temperature: 0.8,
+    },
+    withCodeChecks(validateGeneratedStrategy)
+  );
+}
+
+/**
+ * Ask for better parameters and code for an underperforming strategy
+ */
+export async function improveStrategy(
+  { strategy, performance, historicalStats, currentCode }: ImproveStrategyRequest,
+  provider: LlmProvider = getDefaultProvider()
+): Promise<StrategyImprovement> {
+  const prompt = `You are optimizing a Polymarket trading strategy.
+
+Current Strategy:
+Name: ${strategy.name}
+Type: ${strategy.type}
+Description: ${strategy.description}
+Parameters: ${JSON.stringify(strategy.parameters)}
+
+Performance:
+- Win Rate: ${performance.winRate.toFixed(1)}%
+- ROI: ${performance.roi.toFixed(1)}%
+- Net Profit: $${performance.netProfit.toFixed(2)}
+- Total Bets: ${performance.totalBets}
+${performance.totalBets === 0 ? '\n⚠️ CRITICAL ISSUE: Strategy is generating ZERO bets! The filters are TOO RESTRICTIVE.\nYou MUST loosen the restrictions significantly to generate bets.\n' : ''}
+
+Market Context:
+- Total markets: ${historicalStats?.totalMarkets || 'N/A'}
+- Resolved markets: ${historicalStats?.resolvedMarkets || 'N/A'}
+- Avg volume: $${historicalStats?.avgVolume?.toFixed(0) || 'N/A'}
+
+${currentCode ? `CURRENT CODE (that you previously generated):
+\`\`\`javascript
+${currentCode}
+\`\`\`
+
+${performance.totalBets === 0 ? 'This code is generating ZERO bets. Analyze it and identify why all markets are being filtered out.' : ''}
+` : ''}
+
+TASK: Generate IMPROVED executable strategy code that fixes the weaknesses and boosts ROI.
+
+CRITICAL DATA STRUCTURES:
+- Market: { marketId, question, outcomes: string[] (["Yes", "No"] for binary markets, one entry per candidate for categorical markets), outcomeTokenIds?: string[], liquidity, volume, active, resolvedOutcome, historicalPrices: [{timestamp: Date, price: number, outcome: string}], trades: [{timestamp: Date, side: "buy"|"sell", amount: number, price: number, outcome: string}], endDate, resolutionDate }
+- Required Bet format: { marketId: string, outcome: string (an entry of market.outcomes, or its token ID from market.outcomeTokenIds), side: "buy" or "sell", amount: number, priceLimit: number (0-1), reason: string, timestamp: Date }
+- Side semantics: "buy" holds the outcome (costs amount * price, pays amount if it resolves). "sell" first closes any long you hold in that outcome; otherwise it takes the other side (costs amount * (1 - price), pays amount if the outcome does NOT resolve)
+- Backtests call generateBets repeatedly with context.asOf set to the decision time; markets only contain prices and trades up to that instant. Timestamp bets at context.asOf: bets dated later are rejected as look-ahead
+- historicalPrices and trades interleave every outcome: filter by .outcome before reading one outcome's price series
+
+The code must:
+1. Follow this EXACT pattern:
+\`\`\`javascript
+const bets = [];
+const params = parameters; // Access improved parameters
+markets.forEach((market) => {
+  if (context.mode === 'live' && (!market.active || market.resolvedOutcome)) return;
+
+  const decisionTime = context.asOf ? new Date(context.asOf) : new Date();
+
+  const relevantPrices = market.historicalPrices.filter(p => new Date(p.timestamp) <= decisionTime);
+  const relevantTrades = market.trades.filter(t => new Date(t.timestamp) <= decisionTime);
+
+  // YOUR IMPROVED LOGIC - add filters, check conditions, then push bets in CORRECT format:
+  // Example: if (market.liquidity > params.minLiquidity && relevantTrades.length > 10) {
+  //   const currentPrice = relevantPrices[relevantPrices.length - 1].price;
+  //   bets.push({
+  //     marketId: market.marketId,  // MUST be market.marketId
+  //     outcome: market.outcomes[0],  // Any entry of market.outcomes
+  //     side: 'buy',  // or 'sell'
+  //     amount: params.betSize,
+  //     priceLimit: clampPrice(currentPrice + 0.05),
+  //     reason: 'Strategy reasoning',
+  //     timestamp: decisionTime
+  //   });
+  // }
+});
+return bets;
+\`\`\`
+
+2. Make SIGNIFICANT changes to improve performance (${performance.roi.toFixed(1)}% ROI is ${performance.roi < 20 ? 'poor' : 'mediocre'})
+3. If ROI is negative or 0 bets, completely rethink the approach
+4. ${performance.totalBets === 0 ? '⚠️ CRITICAL: LOOSEN all filters! You filtered out ALL markets. Start with BASIC filters only (e.g., just market.liquidity > 10000 && relevantTrades.length > 10). Then add complexity gradually.' : 'Add smart filters for liquidity, volume, price patterns, whale behavior'}
+5. ${performance.totalBets === 0 ? 'Target AT LEAST 50-200 bets across all test markets' : 'Balance quality vs quantity - aim for 50-300 bets'}
+6. Available utilities: clampPrice(price), mean(array), sortBy(array, fn), Math, Date. The code runs in a sandbox without require, fetch, process or eval, and each call is stopped after ${SANDBOX_TIMEOUT_MS}ms of CPU time
+7. ${performance.totalBets === 0 ? '⚠️ DO NOT use multiple AND conditions that filter out everything! Start simple.' : 'Be strategic with filter combinations'}
+
+Return ONLY valid JSON:
+{
+  "improvedParameters": { ...updated parameters },
+  "generateBetsCode": "FULL executable JavaScript function body as string",
+  "expectedImprovementPercent": number,
+  "reasoning": "brief explanation of key changes"
+}`;
+
+  return completeValidatedJson<StrategyImprovement>(
+    provider,
+    {
+      task: 'improve_strategy',
+      system: 'You are a strategy optimization expert. Return only valid JSON.',
+      prompt,
+      temperature: 0.7,
+    },
+    withCodeChecks(
+      (response) => validateStrategyImprovement(response, strategy.parameters),
+      strategy.parameters
+    )
+  );
+}
+
+/**
+ * Ask for a few high-confidence bets on live markets
+ */
+export async function suggestBets(
+  { markets, strategyContext }: SuggestBetsRequest,
+  provider: LlmProvider = getDefaultProvider()
+): Promise<SuggestedBets> {
+  const shownMarkets = markets.slice(0, 5);
+  const prompt = `Given these unresolved Polymarket markets, suggest specific high-confidence bets:
+
+Markets:
+${JSON.stringify(shownMarkets, null, 2)}
+
+Strategy Context: ${strategyContext}
+
+Suggest 1-3 specific bets with high expected value. Return ONLY a JSON object:
+{
+  "bets": [
+    {
+      "marketId": "string",
+      "outcome": "string (one of the market's outcomes)",
+      "side": "buy" or "sell",
+      "amount": number (2-10),
+      "priceLimit": number (0-1),
+      "confidence": number (0-1),
+      "reason": "string"
+    }
+  ]
+}`;
+
+  return completeValidatedJson<SuggestedBets>(
+    provider,
+    {
+      task: 'generate_bets',
+      system: 'You are a prediction market analyst. Return only valid JSON.',
+      prompt,
+      temperature: 0.6,
+    },
+    (response) => validateSuggestedBets(response, shownMarkets)
+  );
+}
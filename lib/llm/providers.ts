@@ -0,0 +1,133 @@
+/**
+ * LLM Providers
+ *
+ * Everything that talks to a language model goes through an `LlmProvider`,
+ * so the strategy assistant does not care where answers come from:
+ *
+ * - `openai`: the OpenAI API, or any OpenAI-compatible server (vLLM, Ollama,
+ *   LM Studio...) when LLM_BASE_URL is set
+ * - `stub`: a scripted provider that replays canned responses in order, for
+ *   offline, reproducible simulation runs and tests
+ *
+ * Selected with LLM_PROVIDER; see `createLlmProvider`.
+ */
+
+import { readFileSync } from 'fs';
+import OpenAI from 'openai';
+import { DEFAULT_STUB_SCRIPT } from './stub';
+
+export const DEFAULT_MODEL = 'gpt-4o';
+
+export type LlmTask = 'generate_strategy' | 'improve_strategy' | 'generate_bets';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  temperature: number;
+}
+
+export interface LlmProvider {
+  name: string;
+  /** Continue the conversation, returning the model's JSON answer as text */
+  completeJson: (request: LlmRequest) => Promise<string>;
+}
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  model?: string;
+  jsonMode?: boolean; // Ask for response_format json_object; some servers reject it
+}
+
+/**
+ * Canned responses per task, replayed in order and wrapped around when they
+ * run out. Entries are JSON values; strings are sent as-is, so malformed
+ * answers can be scripted too.
+ */
+export type StubScript = Partial<Record<LlmTask, unknown[]>>;
+
+export function createOpenAIProvider({
+  apiKey,
+  baseURL,
+  model = DEFAULT_MODEL,
+  jsonMode = true,
+}: OpenAIProviderOptions = {}): LlmProvider {
+  // Created on first use: the constructor throws without an API key, and
+  // evolution-mode simulations load providers without needing one
+  let client: OpenAI | null = null;
+
+  return {
+    name: baseURL ? `${model} at ${baseURL}` : `OpenAI ${model}`,
+    completeJson: async ({ messages, temperature }) => {
+      client ??= new OpenAI({
+        // Self-hosted servers usually ignore the key, but the SDK insists on one
+        apiKey: apiKey ?? (baseURL ? 'not-needed' : undefined),
+        baseURL,
+      });
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        ...(jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+      });
+      return completion.choices[0].message.content || '{}';
+    },
+  };
+}
+
+export function createScriptedProvider(script: StubScript = DEFAULT_STUB_SCRIPT): LlmProvider {
+  const cursors: Partial<Record<LlmTask, number>> = {};
+
+  return {
+    name: 'scripted stub',
+    completeJson: async ({ task }) => {
+      const responses = script[task] ?? [];
+      if (responses.length === 0) {
+        throw new Error(`The stub LLM has no scripted responses for ${task}`);
+      }
+      const index = cursors[task] ?? 0;
+      cursors[task] = index + 1;
+      const response = responses[index % responses.length];
+      return typeof response === 'string' ? response : JSON.stringify(response);
+    },
+  };
+}
+
+/**
+ * Provider configured by the environment:
+ *
+ * - LLM_PROVIDER: `openai` (default) or `stub`
+ * - LLM_MODEL: model name, default gpt-4o
+ * - LLM_BASE_URL: OpenAI-compatible endpoint for self-hosted models
+ * - LLM_API_KEY: key for that endpoint, falling back to OPENAI_API_KEY
+ * - LLM_JSON_MODE: `false` for servers without response_format support
+ * - LLM_STUB_SCRIPT: JSON file with a `StubScript`, replacing the built-in one
+ *
+ * Each call returns a fresh provider, so a stub replays its script from the
+ * start for every simulation run.
+ */
+export function createLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const provider = env.LLM_PROVIDER || 'openai';
+
+  if (provider === 'stub') {
+    const script = env.LLM_STUB_SCRIPT
+      ? (JSON.parse(readFileSync(env.LLM_STUB_SCRIPT, 'utf8')) as StubScript)
+      : DEFAULT_STUB_SCRIPT;
+    return createScriptedProvider(script);
+  }
+  if (provider !== 'openai') {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"; use "openai" or "stub"`);
+  }
+
+  return createOpenAIProvider({
+    apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+    baseURL: env.LLM_BASE_URL || undefined,
+    model: env.LLM_MODEL || DEFAULT_MODEL,
+    jsonMode: env.LLM_JSON_MODE !== 'false',
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Built-in script for the stub LLM provider: a couple of new strategies and
+ * improvements that pass response validation and the code dry run, so an
+ * offline simulation exercises the same path as a real model.
+ */
+
+import type { StubScript } from './providers';
+
+const MOMENTUM_CODE = `const bets = [];
+const lookback = parameters.lookbackPoints || 12;
+for (const market of markets) {
+  if (market.liquidity < (parameters.minLiquidity || 1000)) continue;
+  const outcome = market.outcomes[0];
+  const prices = market.historicalPrices.filter((p) => p.outcome === outcome);
+  if (prices.length < lookback + 1) continue;
+  const latest = prices[prices.length - 1].price;
+  const move = latest - prices[prices.length - 1 - lookback].price;
+  if (Math.abs(move) < (parameters.minMove || 0.03)) continue;
+  bets.push({
+    marketId: market.marketId,
+    outcome: outcome,
+    side: move > 0 ? 'buy' : 'sell',
+    amount: parameters.betSize || 10,
+    priceLimit: clampPrice(move > 0 ? latest + 0.01 : latest - 0.01),
+    reason: 'Momentum of ' + (move * 100).toFixed(1) + '% over ' + lookback + ' price points',
+    timestamp: context.asOf || new Date(),
+  });
+}
+return bets;`;
+
+const FAVOURITE_FLOW_CODE = `const bets = [];
+for (const market of markets) {
+  const recent = market.trades.slice(-(parameters.tradeWindow || 20));
+  if (recent.length === 0) continue;
+  for (const outcome of market.outcomes) {
+    const prices = market.historicalPrices.filter((p) => p.outcome === outcome);
+    if (prices.length === 0) continue;
+    const price = prices[prices.length - 1].price;
+    if (price < (parameters.minPrice || 0.6) || price > (parameters.maxPrice || 0.85)) continue;
+    const flow = mean(recent.filter((t) => t.outcome === outcome).map((t) => (t.side === 'buy' ? t.amount : -t.amount)));
+    if (flow <= 0) continue;
+    bets.push({
+      marketId: market.marketId,
+      outcome: outcome,
+      side: 'buy',
+      amount: parameters.betSize || 10,
+      priceLimit: clampPrice(price + 0.02),
+      reason: 'Favourite at ' + price.toFixed(2) + ' with net buying flow',
+      timestamp: context.asOf || new Date(),
+    });
+    break;
+  }
+}
+return bets;`;
+
+export const DEFAULT_STUB_SCRIPT: StubScript = {
+  generate_strategy: [
+    {
+      strategyName: 'Stub Momentum Follower',
+      description: 'Follows sustained price moves on liquid markets (scripted stub response)',
+      type: 'ai_generated',
+      parameters: { betSize: 10, lookbackPoints: 12, minMove: 0.03, minLiquidity: 1000 },
+      generateBetsCode: MOMENTUM_CODE,
+      expectedROI: 8,
+    },
+    {
+      strategyName: 'Stub Favourite Flow',
+      description: 'Backs moderate favourites that recent trades are buying (scripted stub response)',
+      type: 'ai_generated',
+      parameters: { betSize: 10, tradeWindow: 20, minPrice: 0.6, maxPrice: 0.85 },
+      generateBetsCode: FAVOURITE_FLOW_CODE,
+      expectedROI: 6,
+    },
+  ],
+  improve_strategy: [
+    {
+      improvedParameters: { betSize: 15 },
+      expectedImprovementPercent: 5,
+      reasoning: 'Scripted stub: larger stakes on the existing signals',
+    },
+    {
+      improvedParameters: { betSize: 8, minMove: 0.05 },
+      generateBetsCode: MOMENTUM_CODE,
+      expectedImprovementPercent: 10,
+      reasoning: 'Scripted stub: switch to momentum with a stricter move filter',
+    },
+  ],
+  generate_bets: [{ bets: [] }],
+};
@@ -0,0 +1,451 @@
+/**
+ * Market Data
+ *
+ * Loads Polymarket markets from the Gamma API, with price and trade history
+ * from the subgraph where available and synthetic history otherwise. The
+ * steps (list, parse, load history) are exported separately so the local
+ * market store can sync incrementally; `fetchMarkets` runs them all.
+ */
+
+import axios from 'axios';
+import { maxBy } from 'lodash';
+import { MarketResolution, PolymarketMarket, PricePoint, Trade } from '@/types';
+import { getConditions } from '@/lib/subgraph/client';
+import {
+  buildMarketHistoricalData,
+  flattenPricePoints,
+  flattenTrades,
+  calculateVolumeFromTrades,
+} from '@/lib/subgraph/dataTransformer';
+import { groupNegRiskEvents, sameOutcome } from '@/lib/outcomes';
+import { polymarketProvenance } from '@/lib/provenance';
+import { createRandom, seedFromString } from '@/lib/random';
+import {
+  INVALID_OUTCOME,
+  isSettled,
+  resolutionFromGamma,
+  resolutionFromPayouts,
+  resolvedOutcomeLabel,
+  winnerPayouts,
+} from '@/lib/resolution';
+import { generateSyntheticMarket, syntheticLiquidity as generatedLiquidity } from '@/lib/synthetic';
+
+const GAMMA_API = 'https://gamma-api.polymarket.com';
+
+// The Gamma API market fields read here. Lists usually arrive JSON-encoded
+// as strings, and numbers may arrive as strings.
+export interface RawGammaMarket {
+  id?: string;
+  conditionId?: string;
+  question?: string;
+  description?: string;
+  outcomes?: string | string[];
+  outcomePrices?: string | (string | number)[];
+  clobTokenIds?: string | string[];
+  umaResolutionStatus?: string;
+  umaResolutionStatuses?: string | string[];
+  events?: { id?: string | number; title?: string }[];
+  negRisk?: boolean;
+  groupItemTitle?: string;
+  outcome?: string;
+  active?: boolean;
+  closed?: boolean;
+  endDateIso?: string;
+  volumeNum?: number;
+  volume?: string | number;
+  liquidityNum?: number;
+  liquidity?: string | number;
+  image?: string;
+  category?: string;
+}
+
+export interface MarketQuery {
+  limit: number;
+  includeResolved: boolean;
+  useSubgraph: boolean;
+  groupEvents: boolean;
+}
+
+// A Gamma market without its history; `liquidity` and the resolution are as
+// reported, before synthetic fallbacks
+export interface GammaMarket {
+  market: PolymarketMarket;
+  conditionId?: string;
+  outcomePrices: number[];
+  closed: boolean;
+}
+
+export interface MarketHistory {
+  historicalPrices: PricePoint[];
+  trades: Trade[];
+}
+
+// Gamma quotes prices as strings; a missing price counts as an even 0.5
+const parsePrice = (price: string | number) => {
+  const value = parseFloat(String(price));
+  return Number.isFinite(value) ? value : 0.5;
+};
+
+/**
+ * Parse a raw Gamma API market
+ */
+export function parseGammaMarket(market: RawGammaMarket): GammaMarket {
+  // Parse outcomes (comes as string from API)
+  let outcomes = ['Yes', 'No'];
+  try {
+    if (typeof market.outcomes === 'string') {
+      outcomes = JSON.parse(market.outcomes);
+    } else if (Array.isArray(market.outcomes)) {
+      outcomes = market.outcomes;
+    }
+  } catch (e) {
+    console.error('Error parsing outcomes:', e);
+  }
+  if (outcomes.length === 0) {
+    outcomes = ['Yes', 'No'];
+  }
+
+  // Parse outcome prices
+  let outcomePrices = [0.5, 0.5];
+  try {
+    if (typeof market.outcomePrices === 'string') {
+      outcomePrices = JSON.parse(market.outcomePrices).map(parsePrice);
+    } else if (Array.isArray(market.outcomePrices)) {
+      outcomePrices = market.outcomePrices.map(parsePrice);
+    }
+  } catch (e) {
+    console.error('Error parsing outcomePrices:', e);
+  }
+
+  // Latest UMA oracle status; the full history comes as a JSON string
+  let umaStatus: string | undefined = market.umaResolutionStatus || undefined;
+  try {
+    const statuses =
+      typeof market.umaResolutionStatuses === 'string'
+        ? JSON.parse(market.umaResolutionStatuses)
+        : market.umaResolutionStatuses;
+    if (!umaStatus && Array.isArray(statuses) && statuses.length > 0) {
+      umaStatus = String(statuses[statuses.length - 1]);
+    }
+  } catch (e) {
+    console.error('Error parsing umaResolutionStatuses:', e);
+  }
+
+  // Parse outcome token IDs (same order as outcomes, also a string from the API)
+  let tokenIds: string[] = [];
+  try {
+    if (typeof market.clobTokenIds === 'string') {
+      tokenIds = JSON.parse(market.clobTokenIds);
+    } else if (Array.isArray(market.clobTokenIds)) {
+      tokenIds = market.clobTokenIds;
+    }
+  } catch (e) {
+    console.error('Error parsing clobTokenIds:', e);
+  }
+  if (tokenIds.length !== outcomes.length) {
+    tokenIds = [];
+  }
+
+  // Binary markets of a negRisk event are the candidates of one categorical event
+  const event = Array.isArray(market.events) ? market.events[0] : undefined;
+  const negRiskEvent =
+    market.negRisk && event?.id
+      ? {
+          id: String(event.id),
+          title: event.title || market.question || '',
+          outcome: market.groupItemTitle || market.question || '',
+        }
+      : undefined;
+
+  // Only closed markets settle; Gamma's `outcome` is the fallback to the final prices
+  const closed = market.closed === true;
+  const reported = typeof market.outcome === 'string' ? market.outcome : '';
+  const resolution = closed
+    ? resolutionFromGamma(outcomes.length, {
+        outcomePrices,
+        umaStatus,
+        outcomeIndex: reported ? outcomes.findIndex((o) => sameOutcome(o, reported)) : -1,
+        invalid: sameOutcome(reported, INVALID_OUTCOME),
+      })
+    : null;
+
+  return {
+    market: {
+      marketId: market.id || market.conditionId || '',
+      question: market.question || market.description || '',
+      outcomes: outcomes,
+      resolutionDate: market.endDateIso
+        ? new Date(market.endDateIso)
+        : null,
+      historicalPrices: [],
+      trades: [],
+      resolvedOutcome: resolution ? resolvedOutcomeLabel(resolution, outcomes) : null,
+      ...(resolution ? { resolution } : {}),
+      volume: parseFloat(String(market.volumeNum || market.volume || 0)),
+      liquidity: parseFloat(String(market.liquidityNum || market.liquidity || 0)),
+      active: market.active !== false && market.closed !== true,
+      endDate: market.endDateIso ? new Date(market.endDateIso) : null,
+      image: market.image,
+      category: market.category,
+      outcomeTokenIds: tokenIds.length > 0 ? tokenIds : undefined,
+      negRiskEvent,
+    },
+    conditionId: market.conditionId,
+    outcomePrices,
+    closed,
+  };
+}
+
+/**
+ * Fetch and parse one page of Gamma markets, without history
+ */
+export async function listGammaMarkets({
+  limit,
+  includeResolved,
+}: Pick<MarketQuery, 'limit' | 'includeResolved'>): Promise<GammaMarket[]> {
+  // Fetch markets from Gamma API
+  const marketsResponse = await axios.get<RawGammaMarket[]>(`${GAMMA_API}/markets`, {
+    params: {
+      limit,
+      active: !includeResolved,
+      closed: includeResolved,
+    },
+    timeout: 10000,
+  });
+
+  const rawMarkets = marketsResponse.data;
+  console.log(`Fetched ${rawMarkets.length} markets from Gamma API`);
+
+  const markets: GammaMarket[] = [];
+  for (const market of rawMarkets) {
+    try {
+      markets.push(parseGammaMarket(market));
+    } catch (error) {
+      console.error(`Error processing market ${market.id}:`, error);
+      // Continue with other markets
+    }
+  }
+  return markets;
+}
+
+/**
+ * Price and trade history from the subgraph, optionally only after `since`;
+ * empty if the subgraph has none
+ */
+export async function fetchSubgraphHistory(
+  { market, conditionId }: GammaMarket,
+  since?: Date
+): Promise<MarketHistory> {
+  if (!conditionId) return { historicalPrices: [], trades: [] };
+
+  try {
+    console.log(`Fetching subgraph data for condition ${conditionId}...`);
+
+    const { historicalPrices: pricesArray, trades: tradesArray } =
+      await buildMarketHistoricalData(conditionId, market.outcomes, market.outcomeTokenIds, since);
+
+    console.log(`Subgraph returned ${pricesArray.length} price arrays and ${tradesArray.length} trade arrays`);
+
+    // Flatten the arrays (combine all outcomes)
+    const history = {
+      historicalPrices: flattenPricePoints(pricesArray),
+      trades: flattenTrades(tradesArray),
+    };
+    console.log(`After flattening: ${history.historicalPrices.length} prices and ${history.trades.length} trades`);
+    return history;
+  } catch (error) {
+    console.error(`Error fetching subgraph data for ${conditionId}:`, error);
+    return { historicalPrices: [], trades: [] };
+  }
+}
+
+// How far an open market's synthetic prices have settled on the winner; it
+// is not over yet, so they should still be far from it
+const OPEN_MARKET_CONVERGENCE = 0.3;
+
+/**
+ * Synthetic price and trade history from the seeded generator, so a market
+ * always gets the same history. An open market starts from its quoted prices
+ * and ends now; a closed one ends at its end date and starts from an even
+ * split, as its quoted prices are the settled 1/0 and would give the answer
+ * away. `winner` is the outcome the prices converge on.
+ */
+export function syntheticHistory({ market, outcomePrices, closed }: GammaMarket): MarketHistory & { winner: string } {
+  const { market: generated, winner } = generateSyntheticMarket(
+    {
+      seed: seedFromString(market.marketId),
+      end: (closed && market.endDate) || new Date(),
+      ...(closed ? {} : { startPrices: outcomePrices, convergence: OPEN_MARKET_CONVERGENCE }),
+    },
+    market
+  );
+  return { historicalPrices: generated.historicalPrices, trades: generated.trades, winner };
+}
+
+// Realistic liquidity between $50k-$300k, the same on every load of a market
+export const syntheticLiquidity = (market: PolymarketMarket) =>
+  generatedLiquidity(createRandom(seedFromString(`${market.marketId}:liquidity`)));
+
+/**
+ * Resolution for a closed market no source settles: the outcome priced
+ * highest at the end of its history (or `winner`) wins
+ */
+export function syntheticResolution(market: PolymarketMarket, winner?: string): MarketResolution {
+  const last = maxBy(market.historicalPrices, (p) => p.timestamp.getTime());
+  const final = last
+    ? market.historicalPrices.filter((p) => p.timestamp.getTime() === last.timestamp.getTime())
+    : [];
+  const leader = winner ?? maxBy(final, (p) => p.price)?.outcome;
+  const index = leader ? market.outcomes.findIndex((o) => sameOutcome(o, leader)) : -1;
+  return {
+    status: 'resolved',
+    payouts: winnerPayouts(market.outcomes.length, Math.max(0, index)),
+    source: 'synthetic',
+  };
+}
+
+/**
+ * Resolution from the condition's payouts on-chain (activity subgraph);
+ * null if it is not resolved there or cannot be read
+ */
+export async function fetchChainResolution(
+  conditionId: string,
+  outcomeCount: number
+): Promise<MarketResolution | null> {
+  try {
+    const [condition] = await getConditions([conditionId.toLowerCase()], 1);
+    if (!condition || Number(condition.payoutDenominator) === 0) return null;
+    if (condition.payoutNumerators.length !== outcomeCount) return null;
+    return resolutionFromPayouts(condition.payoutNumerators.map(Number), 'chain');
+  } catch (error) {
+    console.error(`Error fetching condition ${conditionId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * A Gamma market with its full history: real if the subgraph has it,
+ * synthetic otherwise. Its provenance records which fields were generated.
+ */
+export async function loadMarketHistory(
+  gamma: GammaMarket,
+  { includeResolved, useSubgraph }: Pick<MarketQuery, 'includeResolved' | 'useSubgraph'>
+): Promise<PolymarketMarket> {
+  const { conditionId } = gamma;
+  const market = { ...gamma.market };
+
+  console.log(`Market ${market.question}: conditionId = ${conditionId}, useSubgraph = ${useSubgraph}`);
+
+  // Ensure minimum realistic liquidity if none provided
+  const syntheticLiquidityUsed = market.liquidity === 0;
+  if (syntheticLiquidityUsed) {
+    market.liquidity = syntheticLiquidity(market);
+  }
+
+  // Try to fetch real data from subgraph if enabled and we have a condition ID
+  let history: MarketHistory = { historicalPrices: [], trades: [] };
+  if (useSubgraph && conditionId) {
+    history = await fetchSubgraphHistory(gamma);
+    if (history.historicalPrices.length > 0 || history.trades.length > 0) {
+      // Calculate volume from trades if not provided
+      if (market.volume === 0 && history.trades.length > 0) {
+        market.volume = calculateVolumeFromTrades(history.trades);
+      }
+      console.log(
+        `✓ Fetched ${history.historicalPrices.length} prices and ${history.trades.length} trades from subgraph`
+      );
+    } else {
+      console.log(`⚠ No subgraph data found for condition ${conditionId}, using synthetic data`);
+    }
+  }
+
+  // Generate synthetic data if we don't have real data
+  const synthetic = history.historicalPrices.length === 0 || history.trades.length === 0;
+  let winner: string | null = null;
+  const syntheticVolumeUsed = synthetic && market.volume === 0;
+  if (synthetic) {
+    ({ winner, ...history } = syntheticHistory(gamma));
+    // Set volume based on total trade amounts if not already set
+    if (syntheticVolumeUsed) {
+      market.volume = history.trades.reduce((sum, t) => sum + t.amount, 0);
+    }
+  }
+
+  // Closed markets Gamma does not settle may be resolved on-chain
+  if (gamma.closed && !isSettled(market.resolution) && useSubgraph && conditionId) {
+    const chain = await fetchChainResolution(conditionId, market.outcomes.length);
+    if (chain) {
+      const umaStatus = market.resolution?.umaStatus;
+      market.resolution = { ...chain, ...(umaStatus ? { umaStatus } : {}) };
+      market.resolvedOutcome = resolvedOutcomeLabel(chain, market.outcomes);
+    }
+  }
+
+  // For closed markets nothing settles (and no dispute holds up), set a
+  // resolution consistent with the prices
+  const syntheticResolved = includeResolved && gamma.closed && !market.resolution;
+  if (syntheticResolved) {
+    market.resolution = syntheticResolution({ ...market, ...history }, winner ?? undefined);
+    market.resolvedOutcome = resolvedOutcomeLabel(market.resolution, market.outcomes);
+    console.log(`Synthetic resolved outcome for ${market.question}: ${market.resolvedOutcome}`);
+  }
+
+  return {
+    ...market,
+    ...history,
+    provenance: polymarketProvenance({
+      historicalPrices: synthetic,
+      trades: synthetic,
+      resolvedOutcome: syntheticResolved,
+      volume: syntheticVolumeUsed,
+      liquidity: syntheticLiquidityUsed,
+    }),
+  };
+}
+
+/**
+ * Fetch and normalise one page of markets
+ */
+export async function fetchMarkets({
+  limit,
+  includeResolved,
+  useSubgraph,
+  groupEvents,
+}: MarketQuery): Promise<PolymarketMarket[]> {
+  console.log(`Fetching ${limit} markets, resolved: ${includeResolved}, useSubgraph: ${useSubgraph}`);
+
+  const markets: PolymarketMarket[] = [];
+
+  // Process markets without fetching heavy price/trade data (causes timeout)
+  for (const gamma of await listGammaMarkets({ limit, includeResolved })) {
+    try {
+      markets.push(await loadMarketHistory(gamma, { includeResolved, useSubgraph }));
+    } catch (error) {
+      console.error(`Error processing market ${gamma.market.marketId}:`, error);
+      // Continue with other markets
+    }
+  }
+
+  console.log(`Successfully processed ${markets.length} markets`);
+
+  // Merge each negRisk event's binary markets into one categorical market
+  if (groupEvents) {
+    const grouped = groupNegRiskEvents(markets);
+    console.log(`Grouped negRisk events: ${markets.length} markets → ${grouped.length}`);
+    markets.splice(0, markets.length, ...grouped);
+  }
+
+  // Debug: Log resolved market stats
+  const resolvedCount = markets.filter(m => m.resolvedOutcome !== null).length;
+  console.log(`Resolved markets: ${resolvedCount}/${markets.length}`);
+  if (includeResolved && resolvedCount > 0) {
+    console.log('Sample resolved market:', {
+      question: markets.find(m => m.resolvedOutcome)?.question,
+      outcome: markets.find(m => m.resolvedOutcome)?.resolvedOutcome,
+      trades: markets.find(m => m.resolvedOutcome)?.trades.length,
+      prices: markets.find(m => m.resolvedOutcome)?.historicalPrices.length,
+    });
+  }
+
+  return markets;
+}
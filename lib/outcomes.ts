@@ -0,0 +1,150 @@
+/**
+ * Market Outcomes
+ *
+ * Helpers that treat binary and categorical markets alike: per-outcome price
+ * series, outcome-token lookups, and grouping negRisk events (one Yes/No
+ * market per candidate) into a single categorical market.
+ */
+
+import { PolymarketMarket, PricePoint, Trade } from '@/types';
+import { groupBy, orderBy } from 'lodash';
+import { mergeProvenance } from '@/lib/provenance';
+import { isSettled, resolutionFromPayouts, resolvedOutcomeLabel } from '@/lib/resolution';
+
+export const sameOutcome = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Canonical outcome name for an outcome label or outcome-token ID, or null if
+ * the market has no such outcome
+ */
+export function resolveOutcomeName(
+  market: PolymarketMarket,
+  outcomeOrTokenId: string
+): string | null {
+  const byName = market.outcomes.find((o) => sameOutcome(o, outcomeOrTokenId));
+  if (byName) return byName;
+  const tokenIndex = market.outcomeTokenIds?.indexOf(outcomeOrTokenId) ?? -1;
+  return tokenIndex >= 0 ? market.outcomes[tokenIndex] ?? null : null;
+}
+
+/**
+ * Price history of one outcome in time order
+ */
+export const outcomeSeries = (market: PolymarketMarket, outcome: string): PricePoint[] =>
+  orderBy(
+    market.historicalPrices.filter((p) => sameOutcome(p.outcome, outcome)),
+    [(p) => p.timestamp.getTime()],
+    ['asc']
+  );
+
+/**
+ * Latest known price of every outcome that has one
+ */
+export function latestOutcomePrices(market: PolymarketMarket): Record<string, number> {
+  return market.outcomes.reduce((acc, outcome) => {
+    const series = outcomeSeries(market, outcome);
+    if (series.length > 0) acc[outcome] = series[series.length - 1].price;
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+/**
+ * Express a trade on a member market's "No" token as a trade on the
+ * candidate's outcome: buying No at p is selling the candidate at 1 - p
+ */
+const toCandidateTrade = (trade: Trade, member: PolymarketMarket, candidate: string): Trade =>
+  sameOutcome(trade.outcome, member.outcomes[0])
+    ? { ...trade, outcome: candidate }
+    : {
+        ...trade,
+        outcome: candidate,
+        side: trade.side === 'buy' ? 'sell' : 'buy',
+        price: 1 - trade.price,
+      };
+
+/**
+ * What a member's Yes share paid out; null while it is unsettled
+ */
+const yesPayout = (member: PolymarketMarket): number | null => {
+  if (member.resolution) return isSettled(member.resolution) ? member.resolution.payouts[0] : null;
+  if (!member.resolvedOutcome) return null;
+  return sameOutcome(member.resolvedOutcome, member.outcomes[0]) ? 1 : 0;
+};
+
+/**
+ * Merge the binary markets of one negRisk event into a categorical market
+ * whose outcomes are the event's candidates
+ */
+function mergeNegRiskEvent(members: PolymarketMarket[]): PolymarketMarket {
+  const event = members[0].negRiskEvent!;
+  const candidates = members.map((m) => m.negRiskEvent!.outcome);
+
+  // Settled once every member is, each candidate paying what its Yes share paid
+  const payouts = members.map(yesPayout);
+  const resolution = payouts.every((p): p is number => p !== null)
+    ? resolutionFromPayouts(payouts, members.find((m) => m.resolution)?.resolution?.source ?? 'gamma')
+    : null;
+  const latest = (dates: (Date | null)[]) => {
+    const times = dates.filter((d): d is Date => d !== null).map((d) => new Date(d).getTime());
+    return times.length > 0 ? new Date(Math.max(...times)) : null;
+  };
+
+  return {
+    marketId: event.id,
+    question: event.title,
+    outcomes: candidates,
+    outcomeTokenIds: members.map((m) => m.outcomeTokenIds?.[0] ?? ''),
+    resolutionDate: latest(members.map((m) => m.resolutionDate)),
+    // Only the candidate's Yes series is its price; No is the complement
+    historicalPrices: orderBy(
+      members.flatMap((m, i) =>
+        m.historicalPrices
+          .filter((p) => sameOutcome(p.outcome, m.outcomes[0]))
+          .map((p) => ({ ...p, outcome: candidates[i] }))
+      ),
+      [(p) => p.timestamp.getTime()],
+      ['asc']
+    ),
+    trades: orderBy(
+      members.flatMap((m, i) => m.trades.map((t) => toCandidateTrade(t, m, candidates[i]))),
+      [(t) => t.timestamp.getTime()],
+      ['asc']
+    ),
+    resolvedOutcome: resolution ? resolvedOutcomeLabel(resolution, candidates) : null,
+    ...(resolution ? { resolution } : {}),
+    volume: members.reduce((sum, m) => sum + m.volume, 0),
+    liquidity: members.reduce((sum, m) => sum + m.liquidity, 0),
+    active: members.some((m) => m.active),
+    endDate: latest(members.map((m) => m.endDate)),
+    image: members[0].image,
+    category: members[0].category,
+    provenance: mergeProvenance(members),
+  };
+}
+
+/**
+ * Replace the binary markets of every negRisk event that has at least two
+ * candidates with one categorical market; other markets pass through
+ */
+export function groupNegRiskEvents(markets: PolymarketMarket[]): PolymarketMarket[] {
+  const events = groupBy(
+    markets.filter((m) => m.negRiskEvent),
+    (m) => m.negRiskEvent!.id
+  );
+
+  const grouped = new Set<string>();
+  const result: PolymarketMarket[] = [];
+  markets.forEach((market) => {
+    const eventId = market.negRiskEvent?.id;
+    const members = eventId ? events[eventId] : undefined;
+    if (!eventId || !members || members.length < 2) {
+      result.push(market);
+      return;
+    }
+    if (grouped.has(eventId)) return;
+    grouped.add(eventId);
+    result.push(mergeNegRiskEvent(members));
+  });
+  return result;
+}
@@ -0,0 +1,90 @@
+/**
+ * Data Provenance
+ *
+ * Where a market's data came from: Polymarket, the synthetic generator or
+ * the fixture set, and which of its fields were generated to fill gaps.
+ * Markets without provenance were built in code and count as synthetic, so
+ * "real data only" never lets unknown data through.
+ */
+
+import {
+  DataProvenanceSummary,
+  MarketDataSource,
+  MarketProvenance,
+  PolymarketMarket,
+  SyntheticFields,
+} from '@/types';
+
+export const SYNTHETIC_FIELD_LABELS: Record<keyof SyntheticFields, string> = {
+  historicalPrices: 'prices',
+  trades: 'trades',
+  resolvedOutcome: 'resolution',
+  volume: 'volume',
+  liquidity: 'liquidity',
+};
+
+const FIELDS = Object.keys(SYNTHETIC_FIELD_LABELS) as (keyof SyntheticFields)[];
+
+const allFields = (synthetic: boolean): SyntheticFields => ({
+  historicalPrices: synthetic,
+  trades: synthetic,
+  resolvedOutcome: synthetic,
+  volume: synthetic,
+  liquidity: synthetic,
+});
+
+/**
+ * Provenance of a generated market: every field synthetic
+ */
+export const generatedProvenance = (source: Exclude<MarketDataSource, 'polymarket'>): MarketProvenance => ({
+  source,
+  fetchedAt: new Date(),
+  synthetic: allFields(true),
+});
+
+/**
+ * Provenance of a Polymarket market, with the fields that had to be generated
+ */
+export const polymarketProvenance = (synthetic: Partial<SyntheticFields> = {}): MarketProvenance => ({
+  source: 'polymarket',
+  fetchedAt: new Date(),
+  synthetic: { ...allFields(false), ...synthetic },
+});
+
+/**
+ * Labels of the fields that are synthetic, e.g. ['prices', 'trades']
+ */
+export function syntheticFieldLabels(market: Pick<PolymarketMarket, 'provenance'>): string[] {
+  const synthetic = market.provenance?.synthetic ?? allFields(true);
+  return FIELDS.filter((field) => synthetic[field]).map((field) => SYNTHETIC_FIELD_LABELS[field]);
+}
+
+/**
+ * Whether all of a market's data was fetched from Polymarket
+ */
+export const isRealData = (market: Pick<PolymarketMarket, 'provenance'>) =>
+  market.provenance?.source === 'polymarket' && syntheticFieldLabels(market).length === 0;
+
+/**
+ * Provenance of markets merged into one: a field is synthetic if it is in any
+ * of them, and the data is as old as the oldest fetch
+ */
+export function mergeProvenance(markets: PolymarketMarket[]): MarketProvenance | undefined {
+  const provenances = markets.map((m) => m.provenance);
+  if (provenances.some((p) => !p)) return undefined;
+  const known = provenances as MarketProvenance[];
+
+  return {
+    source: known.every((p) => p.source === known[0].source) ? known[0].source : 'synthetic',
+    fetchedAt: new Date(Math.min(...known.map((p) => new Date(p.fetchedAt).getTime()))),
+    synthetic: FIELDS.reduce(
+      (fields, field) => ({ ...fields, [field]: known.some((p) => p.synthetic[field]) }),
+      allFields(false)
+    ),
+  };
+}
+
+export function summarizeProvenance(markets: PolymarketMarket[]): DataProvenanceSummary {
+  const realMarkets = markets.filter(isRealData).length;
+  return { realMarkets, syntheticMarkets: markets.length - realMarkets };
+}
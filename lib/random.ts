@@ -0,0 +1,62 @@
+/**
+ * Seedable pseudo-random number generation
+ *
+ * Resampling and simulation code takes a `Random` instead of calling
+ * Math.random() so that runs with the same seed are reproducible.
+ */
+
+export type Random = () => number;
+
+export const DEFAULT_SEED = 42;
+
+/**
+ * Mulberry32: small, fast 32-bit generator returning floats in [0, 1)
+ */
+export function createRandom(seed = DEFAULT_SEED): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Integer in [0, max)
+ */
+export const randomInt = (random: Random, max: number) =>
+  Math.floor(random() * max);
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export function randomNormal(random: Random): number {
+  const u = 1 - random(); // (0, 1], so the log is finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Seed derived from a string (FNV-1a), so e.g. a market ID always gives the
+ * same stream
+ */
+export function seedFromString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,124 @@
+/**
+ * Market Resolution
+ *
+ * How a closed market settled, from the best source available: on-chain
+ * condition payouts, Gamma's final outcome prices (exactly 1/0, or an even
+ * split) or its UMA oracle status. Every resolution carries the payout per
+ * share of each outcome, so 50/50 and invalid markets settle at their real
+ * value instead of as a win or a loss; disputed markets have no payouts yet
+ * and stay unsettled.
+ */
+
+import { MarketResolution, ResolutionSource } from '@/types';
+
+// `resolvedOutcome` labels for markets without a single winner
+export const SPLIT_OUTCOME = '50-50';
+export const INVALID_OUTCOME = 'Invalid';
+
+// Final prices must be this close to 0, 1 or an even split; a closed market
+// still quoted at 0.9995 has not settled
+const PRICE_TOLERANCE = 1e-6;
+
+// UMA statuses for proposals that could not be resolved either way
+const INVALID_UMA_STATUSES = ['invalid', 'unresolvable'];
+
+const near = (a: number, b: number, tolerance = PRICE_TOLERANCE) => Math.abs(a - b) <= tolerance;
+
+/**
+ * Payouts of a market that resolved to one outcome
+ */
+export const winnerPayouts = (outcomeCount: number, winnerIndex: number) =>
+  Array.from({ length: outcomeCount }, (_, i) => (i === winnerIndex ? 1 : 0));
+
+const evenPayouts = (outcomeCount: number) =>
+  Array.from({ length: outcomeCount }, () => 1 / outcomeCount);
+
+/**
+ * Resolution from payouts per outcome (any scale); null if nothing was paid,
+ * i.e. the condition has not been resolved
+ */
+export function resolutionFromPayouts(
+  payouts: number[],
+  source: ResolutionSource
+): MarketResolution | null {
+  const total = payouts.reduce((sum, p) => sum + p, 0);
+  if (payouts.length === 0 || !(total > 0)) return null;
+
+  const normalised = payouts.map((p) => p / total);
+  const winner = normalised.findIndex((p) => near(p, 1));
+  return {
+    status: winner >= 0 ? 'resolved' : 'split',
+    payouts: winner >= 0 ? winnerPayouts(payouts.length, winner) : normalised,
+    source,
+  };
+}
+
+/**
+ * Resolution from a closed market's final prices: one outcome at exactly 1
+ * and the rest at 0, or all at an even split. Anything else is still trading
+ * towards settlement and gives null.
+ */
+export function resolutionFromOutcomePrices(prices: number[]): MarketResolution | null {
+  if (prices.length === 0) return null;
+  const settled =
+    prices.every((p) => near(p, 0) || near(p, 1)) ||
+    prices.every((p) => near(p, 1 / prices.length));
+  return settled ? resolutionFromPayouts(prices, 'outcome_prices') : null;
+}
+
+interface GammaResolutionInput {
+  outcomePrices: number[];
+  umaStatus?: string;
+  outcomeIndex: number; // Index of Gamma's reported `outcome`, -1 if none
+  invalid: boolean; // Gamma reported the outcome as invalid
+}
+
+/**
+ * Resolution of a closed Gamma market: disputed or invalid per UMA, else by
+ * its final prices, else by the outcome Gamma reports; null if none of these
+ * settle it
+ */
+export function resolutionFromGamma(
+  outcomeCount: number,
+  { outcomePrices, umaStatus, outcomeIndex, invalid }: GammaResolutionInput
+): MarketResolution | null {
+  const uma = umaStatus?.toLowerCase();
+  const extras = umaStatus ? { umaStatus } : {};
+
+  if (uma === 'disputed') {
+    return { status: 'disputed', payouts: [], source: 'uma', ...extras };
+  }
+  if (invalid || (uma && INVALID_UMA_STATUSES.includes(uma))) {
+    return { status: 'invalid', payouts: evenPayouts(outcomeCount), source: invalid ? 'gamma' : 'uma', ...extras };
+  }
+
+  const fromPrices = outcomePrices.length === outcomeCount ? resolutionFromOutcomePrices(outcomePrices) : null;
+  if (fromPrices) return { ...fromPrices, ...extras };
+  if (outcomeIndex >= 0) {
+    return { status: 'resolved', payouts: winnerPayouts(outcomeCount, outcomeIndex), source: 'gamma', ...extras };
+  }
+  return null;
+}
+
+/**
+ * `resolvedOutcome` for a resolution: the winner, a split or invalid label,
+ * or null while disputed
+ */
+export function resolvedOutcomeLabel(resolution: MarketResolution, outcomes: string[]): string | null {
+  switch (resolution.status) {
+    case 'resolved':
+      return outcomes[resolution.payouts.findIndex((p) => p === 1)] ?? null;
+    case 'split':
+      return SPLIT_OUTCOME;
+    case 'invalid':
+      return INVALID_OUTCOME;
+    case 'disputed':
+      return null;
+  }
+}
+
+/**
+ * Whether a resolution pays out: resolved, split or invalid
+ */
+export const isSettled = (resolution: MarketResolution | undefined) =>
+  resolution !== undefined && resolution.status !== 'disputed';
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createRiskManager, RiskExposure } from './risk';
+
+const day = (d: number, hour = 12) => new Date(Date.UTC(2025, 0, d, hour));
+
+const order = (capital: number, fields: Partial<RiskExposure> = {}): RiskExposure => ({
+  marketId: 'm1',
+  category: 'politics',
+  resolvesAt: day(10),
+  capital,
+  ...fields,
+});
+
+describe('createRiskManager', () => {
+  it('caps open exposure as a share of equity', () => {
+    const risk = createRiskManager({ maxOpenExposure: 0.5 });
+    risk.markEquity(day(1), 1000);
+
+    expect(risk.check(order(300), [order(100)])).toBeNull();
+    expect(risk.check(order(300), [order(300)])?.rule).toBe('open_exposure');
+  });
+
+  it('caps exposure per category and per resolution day', () => {
+    const risk = createRiskManager({ maxCategoryExposure: 0.3, maxResolutionDateExposure: 0.3 });
+    risk.markEquity(day(1), 1000);
+
+    expect(risk.check(order(200), [order(200, { category: 'sports', resolvesAt: day(11) })])).toBeNull();
+    expect(risk.check(order(200), [order(200, { resolvesAt: day(11) })])?.rule).toBe('category_exposure');
+    expect(risk.check(order(200), [order(200, { category: 'sports' })])?.rule).toBe('resolution_date_exposure');
+  });
+
+  it('stops new positions after the daily loss limit until the next day', () => {
+    const risk = createRiskManager({ maxDailyLoss: 0.05 });
+    risk.markEquity(day(1, 0), 1000);
+    risk.markEquity(day(1, 6), 940);
+    expect(risk.check(order(10), [])?.rule).toBe('daily_loss');
+
+    risk.markEquity(day(2, 0), 940);
+    expect(risk.check(order(10), [])).toBeNull();
+  });
+
+  it('halts for good once the drawdown limit is hit', () => {
+    const risk = createRiskManager({ maxDrawdown: 0.2 });
+    risk.markEquity(day(1), 1000);
+    risk.markEquity(day(2), 1200);
+    risk.markEquity(day(3), 950);
+
+    expect(risk.haltedAt()).toEqual(day(3));
+    risk.markEquity(day(4), 1300);
+    expect(risk.check(order(10), [])?.rule).toBe('drawdown_halt');
+  });
+});
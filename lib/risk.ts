@@ -0,0 +1,132 @@
+/**
+ * Risk Manager
+ *
+ * Portfolio-level limits checked before any new position is opened,
+ * whatever strategy proposed it: total, per-category and per-resolution-date
+ * exposure caps, a daily loss limit, and a drawdown kill switch that halts
+ * new positions for good. The manager only sees equity marks and exposures;
+ * the backtest portfolio simulation drives it with marked-to-market equity.
+ * There is no paper-trading mode yet, so backtests are its only caller.
+ */
+
+import { RiskLimits, RiskRule } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxOpenExposure: 0.8,
+  maxCategoryExposure: 0.3,
+  maxResolutionDateExposure: 0.25,
+  maxDailyLoss: 0.05,
+  maxDrawdown: 0.25,
+};
+
+/**
+ * Capital at risk in one position (or one proposed order)
+ */
+export interface RiskExposure {
+  marketId: string;
+  category?: string;
+  resolvesAt: Date;
+  capital: number;
+}
+
+export interface RiskBreach {
+  rule: RiskRule;
+  reason: string;
+}
+
+export interface RiskManager {
+  limits: RiskLimits;
+  /** Record the current equity; updates the peak, day open and halt state */
+  markEquity: (timestamp: Date, equity: number) => void;
+  /** Whether an order may be opened next to the positions already open */
+  check: (order: RiskExposure, open: RiskExposure[]) => RiskBreach | null;
+  haltedAt: () => Date | null;
+}
+
+const utcDay = (date: Date) => Math.floor(date.getTime() / DAY_MS);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function createRiskManager(limits: RiskLimits): RiskManager {
+  let equity = 0;
+  let peak = 0;
+  let day: number | null = null;
+  let dayOpen = 0;
+  let halted: Date | null = null;
+
+  const markEquity = (timestamp: Date, current: number) => {
+    const today = utcDay(timestamp);
+    if (day !== today) {
+      day = today;
+      dayOpen = equity > 0 ? equity : current;
+    }
+    equity = current;
+    peak = Math.max(peak, current);
+
+    if (
+      !halted &&
+      limits.maxDrawdown !== undefined &&
+      peak > 0 &&
+      (peak - equity) / peak >= limits.maxDrawdown
+    ) {
+      halted = timestamp;
+    }
+  };
+
+  const check = (order: RiskExposure, open: RiskExposure[]): RiskBreach | null => {
+    if (halted) {
+      return {
+        rule: 'drawdown_halt',
+        reason: `Trading halted on ${halted.toISOString()}: drawdown from peak $${peak.toFixed(2)} reached ${percent(limits.maxDrawdown ?? 0)}`,
+      };
+    }
+
+    if (limits.maxDailyLoss !== undefined && dayOpen > 0) {
+      const loss = (dayOpen - equity) / dayOpen;
+      if (loss >= limits.maxDailyLoss) {
+        return {
+          rule: 'daily_loss',
+          reason: `Daily loss ${percent(loss)} exceeds ${percent(limits.maxDailyLoss)}`,
+        };
+      }
+    }
+
+    const capital = (include: (position: RiskExposure) => boolean) =>
+      open.filter(include).reduce((sum, p) => sum + p.capital, 0) + order.capital;
+
+    const caps: [RiskRule, number | undefined, number, string][] = [
+      ['open_exposure', limits.maxOpenExposure, capital(() => true), 'Open exposure'],
+      [
+        'category_exposure',
+        order.category ? limits.maxCategoryExposure : undefined,
+        capital((p) => p.category === order.category),
+        `Exposure to ${order.category}`,
+      ],
+      [
+        'resolution_date_exposure',
+        limits.maxResolutionDateExposure,
+        capital((p) => utcDay(p.resolvesAt) === utcDay(order.resolvesAt)),
+        `Exposure resolving on ${order.resolvesAt.toISOString().slice(0, 10)}`,
+      ],
+    ];
+
+    for (const [rule, limit, total, label] of caps) {
+      if (limit !== undefined && total > equity * limit) {
+        return {
+          rule,
+          reason: `${label} would be $${total.toFixed(2)}, above the ${percent(limit)} limit ($${(equity * limit).toFixed(2)})`,
+        };
+      }
+    }
+    return null;
+  };
+
+  return {
+    limits,
+    markEquity,
+    check,
+    haltedAt: () => halted,
+  };
+}
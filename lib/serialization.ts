@@ -0,0 +1,27 @@
+/**
+ * JSON Serialization
+ *
+ * Dates become ISO strings in JSON. Anything read back from an API response,
+ * an event stream or disk goes through `reviveDates` to turn them back into
+ * Date objects.
+ */
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Deep copy of parsed JSON with ISO date strings turned into Dates
+ */
+export function reviveDates<T>(value: unknown): T {
+  if (typeof value === 'string') {
+    return (ISO_DATE.test(value) ? new Date(value) : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => reviveDates(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, reviveDates(item)])
+    ) as T;
+  }
+  return value as T;
+}
@@ -0,0 +1,282 @@
+/**
+ * Simulation Jobs
+ *
+ * Server-side registry of simulation runs. Each job has an ID, runs in the
+ * background of the Next.js server, streams its logs and progress to
+ * subscribers, and is written to disk after every epoch so results survive
+ * the browser tab and a cancelled or interrupted job can be resumed.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { omit, orderBy } from 'lodash';
+import {
+  PolymarketMarket,
+  SimulationJob,
+  SimulationJobEvent,
+  SimulationJobRequest,
+  SimulationJobStatus,
+  SimulationJobSummary,
+  StrategyVersion,
+} from '@/types';
+import { queryMarkets } from '@/lib/datastore/markets';
+import { ensureSynced } from '@/lib/datastore/sync';
+import { reviveDates } from '@/lib/serialization';
+import { saveSimulationStrategies } from '@/lib/strategies/registry';
+import { runSimulation } from './runner';
+import { SIMULATION_MARKET_LIMITS } from './options';
+
+const JOBS_DIR =
+  process.env.SIMULATION_JOBS_DIR || path.join(process.cwd(), '.data', 'simulations');
+
+const MAX_EPOCHS = 50;
+
+type Listener = (event: SimulationJobEvent) => void;
+
+interface JobEntry {
+  job: SimulationJob;
+  listeners: Set<Listener>;
+  cancelRequested: boolean;
+}
+
+// Kept on globalThis so dev-server reloads of this module share one registry
+const globalForJobs = globalThis as typeof globalThis & {
+  simulationJobs?: Map<string, JobEntry>;
+  simulationJobsLoaded?: Promise<void>;
+};
+const registry = (globalForJobs.simulationJobs ??= new Map<string, JobEntry>());
+
+export const isActive = (status: SimulationJobStatus) => status === 'running';
+
+const jobFile = (id: string) => path.join(JOBS_DIR, `${id}.json`);
+
+async function persist(job: SimulationJob) {
+  await fs.mkdir(JOBS_DIR, { recursive: true });
+  await fs.writeFile(jobFile(job.id), JSON.stringify(job));
+}
+
+/**
+ * Load persisted jobs once per server process. Jobs that were running when
+ * the server stopped are marked interrupted so they can be resumed.
+ */
+function loadJobs(): Promise<void> {
+  globalForJobs.simulationJobsLoaded ??= (async () => {
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(JOBS_DIR);
+    } catch {
+      return; // Nothing persisted yet
+    }
+
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        const job = reviveDates<SimulationJob>(
+          JSON.parse(await fs.readFile(path.join(JOBS_DIR, file), 'utf8'))
+        );
+        if (registry.has(job.id)) continue;
+        if (isActive(job.status)) {
+          job.status = 'interrupted';
+          job.logs.push('⚠️ Server stopped during this run; resume to continue from the last epoch');
+        }
+        registry.set(job.id, { job, listeners: new Set(), cancelRequested: false });
+      } catch (error) {
+        console.error(`Error loading simulation job ${file}:`, error);
+      }
+    }
+  })();
+  return globalForJobs.simulationJobsLoaded;
+}
+
+function emit(entry: JobEntry, event: SimulationJobEvent) {
+  entry.listeners.forEach((listener) => listener(event));
+}
+
+function setStatus(entry: JobEntry, status: SimulationJobStatus, error?: string) {
+  entry.job.status = status;
+  entry.job.updatedAt = new Date();
+  if (error) entry.job.error = error;
+  emit(entry, { type: 'status', status, ...(error ? { error } : {}) });
+}
+
+async function loadSimulationMarkets(realDataOnly: boolean): Promise<PolymarketMarket[]> {
+  await ensureSynced();
+  const filter = { groupEvents: true, realDataOnly };
+  const [unresolved, resolved] = await Promise.all([
+    queryMarkets({ ...filter, resolved: false, limit: SIMULATION_MARKET_LIMITS.unresolved }),
+    queryMarkets({ ...filter, resolved: true, limit: SIMULATION_MARKET_LIMITS.resolved }),
+  ]);
+  return [...unresolved, ...resolved];
+}
+
+/**
+ * Run a job in the background until it completes, fails or is cancelled
+ */
+async function execute(entry: JobEntry) {
+  const { job } = entry;
+  const log = (lines: string[]) => {
+    job.logs.push(...lines);
+    job.updatedAt = new Date();
+    emit(entry, { type: 'log', lines });
+  };
+
+  try {
+    log([`📥 Loading market data${job.realDataOnly ? ' (real data only)' : ''}...`]);
+    const markets = await loadSimulationMarkets(job.realDataOnly ?? false); // Jobs saved before this option have none
+    log([`   Loaded ${markets.length} markets`]);
+
+    const outcome = await runSimulation({
+      mode: job.mode,
+      epochs: job.epochs,
+      markets,
+      strategies: job.strategies,
+      versions: job.versions ?? [], // Jobs saved before versioning have none
+      checkpoint: job.checkpoint,
+      log,
+      progress: (epoch, hallOfFame) => {
+        job.currentEpoch = epoch;
+        job.progress = Math.round((epoch / job.epochs) * 100);
+        job.hallOfFame = hallOfFame;
+        emit(entry, { type: 'progress', currentEpoch: epoch, progress: job.progress, hallOfFame });
+      },
+      saveCheckpoint: async (checkpoint, results) => {
+        job.checkpoint = checkpoint;
+        job.strategies = checkpoint.strategies;
+        job.versions = checkpoint.versions;
+        job.results = results;
+        await persist(job);
+      },
+      isCancelled: () => entry.cancelRequested,
+    });
+
+    job.strategies = outcome.strategies;
+    job.results = outcome.results;
+    job.hallOfFame = outcome.hallOfFame;
+    job.versions = outcome.versions;
+    await saveSimulationStrategies(outcome.strategies)
+      .then((saved) => {
+        if (saved > 0) log([`💾 Saved ${saved} new or revised strategies to the registry`]);
+      })
+      .catch((error) => log([`⚠️ Could not save strategies to the registry: ${error.message}`]));
+    if (entry.cancelRequested) {
+      log([`\n⏹️ Cancelled after epoch ${job.currentEpoch}/${job.epochs}`]);
+      setStatus(entry, 'cancelled');
+    } else {
+      setStatus(entry, 'completed');
+    }
+  } catch (error) {
+    console.error(`Simulation job ${job.id} failed:`, error);
+    log([`❌ Error: ${(error as Error).message}`]);
+    setStatus(entry, 'failed', (error as Error).message);
+  } finally {
+    entry.cancelRequested = false;
+    await persist(job).catch((error) =>
+      console.error(`Error saving simulation job ${job.id}:`, error)
+    );
+  }
+}
+
+/**
+ * All jobs, newest first, without their logs and results
+ */
+export async function listJobs(): Promise<SimulationJobSummary[]> {
+  await loadJobs();
+  return orderBy(
+    Array.from(registry.values()).map(({ job }) =>
+      omit(job, ['logs', 'strategies', 'results', 'hallOfFame', 'versions', 'checkpoint'])
+    ),
+    [(job) => job.createdAt.getTime()],
+    ['desc']
+  );
+}
+
+export async function getJob(id: string): Promise<SimulationJob | null> {
+  await loadJobs();
+  return registry.get(id)?.job ?? null;
+}
+
+export async function startJob(request: SimulationJobRequest): Promise<SimulationJob> {
+  await loadJobs();
+  const epochs = Math.round(request.epochs);
+  if (!Number.isFinite(epochs) || epochs < 1 || epochs > MAX_EPOCHS) {
+    throw new Error(`epochs must be between 1 and ${MAX_EPOCHS}`);
+  }
+  if (!Array.isArray(request.strategies) || request.strategies.length === 0) {
+    throw new Error('At least one strategy is required');
+  }
+
+  const now = new Date();
+  const job: SimulationJob = {
+    id: `sim_${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    mode: request.mode === 'evolution' ? 'evolution' : 'llm',
+    status: 'running',
+    epochs,
+    realDataOnly: request.realDataOnly === true,
+    currentEpoch: 0,
+    progress: 0,
+    logs: [],
+    createdAt: now,
+    updatedAt: now,
+    strategies: request.strategies,
+    results: [],
+    hallOfFame: [],
+    // Sent as JSON, so version dates arrive as strings
+    versions: Array.isArray(request.versions) ? reviveDates<StrategyVersion[]>(request.versions) : [],
+    checkpoint: null,
+  };
+  const entry: JobEntry = { job, listeners: new Set(), cancelRequested: false };
+  registry.set(job.id, entry);
+  await persist(job);
+
+  void execute(entry);
+  return job;
+}
+
+/**
+ * Ask a running job to stop after its current epoch
+ */
+export async function cancelJob(id: string): Promise<SimulationJob | null> {
+  await loadJobs();
+  const entry = registry.get(id);
+  if (!entry) return null;
+  if (isActive(entry.job.status) && !entry.cancelRequested) {
+    entry.cancelRequested = true;
+    entry.job.logs.push('⏹️ Cancel requested; stopping after the current epoch');
+    emit(entry, { type: 'log', lines: ['⏹️ Cancel requested; stopping after the current epoch'] });
+  }
+  return entry.job;
+}
+
+/**
+ * Continue a cancelled, failed or interrupted job from its last checkpoint
+ */
+export async function resumeJob(id: string): Promise<SimulationJob | null> {
+  await loadJobs();
+  const entry = registry.get(id);
+  if (!entry) return null;
+  if (isActive(entry.job.status)) return entry.job;
+  if (entry.job.status === 'completed') {
+    throw new Error('Job already completed');
+  }
+
+  delete entry.job.error;
+  setStatus(entry, 'running');
+  entry.job.logs.push(
+    `\n⏯️ Resuming after epoch ${entry.job.checkpoint?.epoch ?? 0} (market data is reloaded)`
+  );
+  await persist(entry.job);
+
+  void execute(entry);
+  return entry.job;
+}
+
+/**
+ * Receive a job's events until the returned function is called
+ */
+export function subscribe(id: string, listener: Listener): () => void {
+  const entry = registry.get(id);
+  if (!entry) return () => {};
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,17 @@
+import { ValidationOptions } from '@/types';
+import { DEFAULT_RISK_LIMITS } from '@/lib/risk';
+
+// Walk-forward folds for the optimiser; the last 15% of markets are held out
+// and only evaluated once, after the final epoch
+export const VALIDATION_OPTIONS: ValidationOptions = {
+  mode: 'walk_forward',
+  folds: 4,
+  holdoutRatio: 0.15,
+  riskLimits: DEFAULT_RISK_LIMITS,
+};
+
+// Markets a simulation job loads, matching the dashboard's initial load
+export const SIMULATION_MARKET_LIMITS = {
+  unresolved: 500,
+  resolved: 2000,
+};
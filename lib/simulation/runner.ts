@@ -0,0 +1,528 @@
+/**
+ * Simulation Runner
+ *
+ * The self-improvement loop behind simulation jobs, run on the server. Each
+ * epoch validates the strategy pool, then either asks the LLM to improve the
+ * worst strategy and invent new ones, or breeds one generation of the
+ * evolutionary search. Progress goes out through callbacks, and a checkpoint
+ * after every epoch lets a cancelled or interrupted run carry on later.
+ */
+
+import {
+  BacktestResult,
+  EvolvedIndividual,
+  PolymarketMarket,
+  SimulationCheckpoint,
+  SimulationMode,
+  Strategy,
+  StrategyBenchmark,
+  StrategyDefinition,
+  StrategyVersion,
+  ValidationResult,
+} from '@/types';
+import { BacktestEngine } from '@/lib/backtesting/engine';
+import { createEvolution } from '@/lib/backtesting/evolution';
+import { STRATEGY_PARAMETER_RANGES } from '@/lib/strategies';
+import {
+  fromStrategyDefinition,
+  toStrategyDefinition,
+  StrategyCompiler,
+} from '@/lib/strategies/definitions';
+import { compileSandboxedStrategy } from '@/lib/strategies/sandbox';
+import {
+  addVersion,
+  ensureVersions,
+  latestVersion,
+  recordMetrics,
+  toVersionMetrics,
+} from '@/lib/strategies/versions';
+import { generateStrategy, improveStrategy } from '@/lib/llm/assistant';
+import { createLlmProvider } from '@/lib/llm/providers';
+import { VALIDATION_OPTIONS } from './options';
+
+const DIVIDER = '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━';
+
+export interface SimulationRun {
+  mode: SimulationMode;
+  epochs: number;
+  markets: PolymarketMarket[];
+  strategies: StrategyDefinition[]; // Pool the run started with
+  versions: StrategyVersion[]; // Lineage the run started with
+  checkpoint: SimulationCheckpoint | null; // Set when resuming
+  log: (lines: string[]) => void;
+  progress: (epoch: number, hallOfFame: EvolvedIndividual[]) => void;
+  saveCheckpoint: (checkpoint: SimulationCheckpoint, results: BacktestResult[]) => Promise<void>;
+  isCancelled: () => boolean;
+}
+
+export interface SimulationOutcome {
+  strategies: StrategyDefinition[];
+  results: BacktestResult[];
+  hallOfFame: EvolvedIndividual[];
+  versions: StrategyVersion[];
+}
+
+// Validation blocks the event loop; yield so logs and cancels get through between epochs
+const yieldToEventLoop = () => new Promise((resolve) => setImmediate(resolve));
+
+const toBenchmark = (result: BacktestResult, epoch: number): StrategyBenchmark => ({
+  strategyId: result.strategyId,
+  strategyName: result.strategyName,
+  epoch,
+  winRate: result.winRate,
+  roi: result.roi,
+  netProfit: result.netProfit,
+  totalBets: result.totalBets,
+  improvementPercent: 0,
+});
+
+/**
+ * Compiles generated code into sandboxes and collects what goes wrong while
+ * it runs, so each distinct failure is logged once per epoch with a count
+ */
+function createSandboxLog() {
+  const issues = new Map<string, number>();
+
+  const compile: StrategyCompiler = (code, strategy) =>
+    compileSandboxedStrategy(code, strategy, {
+      onError: (message) => {
+        const key = `${strategy.name}: ${message}`;
+        issues.set(key, (issues.get(key) ?? 0) + 1);
+      },
+    });
+
+  const flush = (): string[] => {
+    const lines = Array.from(issues, ([issue, count]) =>
+      `   🛡️ Sandbox: ${issue}${count > 1 ? ` (${count} times)` : ''}`
+    );
+    issues.clear();
+    return lines.length > 0 ? ['⚠️ Generated code problems:', ...lines] : [];
+  };
+
+  return { compile, flush };
+}
+
+/**
+ * Swap in LLM-written code, keeping the old logic if it does not compile
+ */
+function withGeneratedCode(
+  strategy: Strategy,
+  code: string,
+  compile: StrategyCompiler
+): { strategy: Strategy; error?: string } {
+  try {
+    const updated: Strategy = { ...strategy, code };
+    updated.generateBets = compile(code, updated);
+    console.log(`✅ Compiled new strategy logic for ${strategy.name}`);
+    return { strategy: updated };
+  } catch (err) {
+    console.error(`❌ Failed to compile strategy code:`, err);
+    console.error(`Code that failed:`, code);
+    return { strategy, error: (err as Error).message };
+  }
+}
+
+async function holdoutLines(strategies: Strategy[], markets: PolymarketMarket[]): Promise<string[]> {
+  const lines = ['\n\n🔒 HELD-OUT TEST SET (never shown to the optimiser):', DIVIDER];
+  for (const strategy of strategies) {
+    const holdoutResult = await BacktestEngine.evaluateHoldout(strategy, markets, VALIDATION_OPTIONS);
+    lines.push(`   ${strategy.name}: ROI ${holdoutResult.roi.toFixed(1)}% | Win Rate: ${holdoutResult.winRate.toFixed(1)}% | Profit: $${holdoutResult.netProfit.toFixed(2)} | Bets: ${holdoutResult.totalBets}`);
+  }
+  return lines;
+}
+
+/**
+ * LLM mode: improve the worst performer each epoch and add a new
+ * generated strategy every other epoch
+ */
+async function runLlmEpochs(run: SimulationRun): Promise<SimulationOutcome> {
+  const { epochs, markets } = run;
+  const startEpoch = (run.checkpoint?.epoch ?? 0) + 1;
+  const sandbox = createSandboxLog();
+  // One provider per run, so a scripted stub replays its script from the start
+  const llm = createLlmProvider();
+  let currentStrategies = (run.checkpoint?.strategies ?? run.strategies).map((definition) =>
+    fromStrategyDefinition(definition, sandbox.compile)
+  );
+  let firstResults = run.checkpoint?.firstResults ?? [];
+  let lastResults = run.checkpoint?.lastResults ?? [];
+  let versions = ensureVersions(
+    run.checkpoint?.versions ?? run.versions,
+    currentStrategies.map(toStrategyDefinition)
+  );
+  const historicalStats = BacktestEngine.calculateHistoricalStats(markets);
+
+  run.log(
+    startEpoch === 1
+      ? ['🚀 Starting AI Self-Improvement Simulation...', `Model: ${llm.name}`, `Initial strategy pool: ${currentStrategies.length} strategies`]
+      : [`⏯️ Resuming at epoch ${startEpoch}/${epochs} with ${currentStrategies.length} strategies (model: ${llm.name})`]
+  );
+
+  for (let epoch = startEpoch; epoch <= epochs && !run.isCancelled(); epoch++) {
+    run.log([`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`, `🔄 EPOCH ${epoch}/${epochs}`, `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`]);
+    await yieldToEventLoop();
+
+    // Run backtests for current strategies
+    console.log(`[Epoch ${epoch}] Running backtests on ${currentStrategies.length} strategies...`);
+    const validations: ValidationResult[] = [];
+    for (const strategy of currentStrategies) {
+      validations.push(await BacktestEngine.validate(strategy, markets, VALIDATION_OPTIONS));
+    }
+    const currentResults = validations.map((v) => v.combined);
+    const previousResults = epoch > 1 ? lastResults : [];
+    versions = recordMetrics(versions, currentResults, epoch);
+
+    // Log results for each strategy
+    const performance = ['📊 Strategy Performance:'];
+    currentResults.forEach((result) => {
+      const prevEpochResult = previousResults.find((r) => r.strategyId === result.strategyId);
+      const roiChange = prevEpochResult ? result.roi - prevEpochResult.roi : 0;
+      const changeIcon = roiChange > 0 ? '📈' : roiChange < 0 ? '📉' : '➡️';
+
+      performance.push(`  ${changeIcon} ${result.strategyName}:`);
+      performance.push(`     ROI: ${result.roi.toFixed(1)}% ${epoch > 1 ? `(${roiChange > 0 ? '+' : ''}${roiChange.toFixed(1)}%)` : ''}`);
+      performance.push(`     Win Rate: ${result.winRate.toFixed(1)}% | Bets: ${result.totalBets} | Profit: $${result.netProfit.toFixed(2)}`);
+
+      const validation = validations.find((v) => v.strategyId === result.strategyId);
+      if (validation) {
+        performance.push(`     Folds: ${validation.folds.map((f) => `${f.result.roi.toFixed(1)}%`).join(' | ')} (mean ${validation.meanRoi.toFixed(1)}% ± ${validation.roiStdDev.toFixed(1)}%)`);
+      }
+    });
+    run.log([...performance, ...sandbox.flush()]);
+
+    // Use OpenAI to improve underperforming strategies
+    try {
+      // Sort to find worst performing strategy
+      const worstStrategy = [...currentResults].sort((a, b) => a.roi - b.roi)[0];
+      const worstStrategyDef = currentStrategies.find((s) => s.id === worstStrategy?.strategyId);
+
+      if (worstStrategy && worstStrategyDef && worstStrategy.roi < 50) {
+        run.log([
+          `\n🔧 Improving worst performer: ${worstStrategy.strategyName}`,
+          `   Current ROI: ${worstStrategy.roi.toFixed(1)}% | Win Rate: ${worstStrategy.winRate.toFixed(1)}%`,
+          `   Total Bets: ${worstStrategy.totalBets} ${worstStrategy.totalBets === 0 ? '⚠️ GENERATING ZERO BETS!' : ''}`,
+        ]);
+
+        const improvements = await improveStrategy(
+          {
+            strategy: worstStrategyDef,
+            performance: worstStrategy,
+            historicalStats,
+            // Pass the actual current code
+            currentCode: worstStrategyDef.code ?? worstStrategyDef.generateBets.toString(),
+            previousEpochResults: epoch > 1 ? previousResults : null,
+          },
+          llm
+        );
+
+        // Log the generated code for debugging
+        if (improvements.generateBetsCode) {
+          console.log(`\n🔍 [EPOCH ${epoch}] AI Generated Code for ${worstStrategy.strategyName}:`);
+          console.log(improvements.generateBetsCode);
+          console.log(`📊 Expected improvement: +${improvements.expectedImprovementPercent}%`);
+          console.log(`💡 Reasoning: ${improvements.reasoning}\n`);
+        }
+
+        // Actually apply the improvements to the strategy
+        const lines: string[] = [];
+        currentStrategies = currentStrategies.map((s) => {
+          if (s.id !== worstStrategy.strategyId) return s;
+
+          const improvedStrategy: Strategy = {
+            ...s,
+            parameters: { ...s.parameters, ...improvements.improvedParameters },
+          };
+          if (!improvements.generateBetsCode) return improvedStrategy;
+
+          const compiled = withGeneratedCode(improvedStrategy, improvements.generateBetsCode, sandbox.compile);
+          if (compiled.error) {
+            lines.push(`   ❌ ERROR: Code compilation failed - ${compiled.error}`);
+          }
+          return compiled.strategy;
+        });
+
+        const improved = currentStrategies.find((s) => s.id === worstStrategy.strategyId);
+        if (improved) {
+          versions = addVersion(versions, toStrategyDefinition(improved), {
+            source: 'improvement',
+            reasoning: improvements.reasoning,
+          });
+          lines.push(`   🏷️ Saved as v${latestVersion(versions, improved.id)?.version}`);
+        }
+
+        run.log([
+          ...lines,
+          `   ✅ Applied improvements:`,
+          `   ${improvements.reasoning}`,
+          `   Expected improvement: +${improvements.expectedImprovementPercent}%`,
+          improvements.generateBetsCode ? `   📝 Generated ${improvements.generateBetsCode.length} chars of new code` : `   ⚠️ No new code generated - only parameter changes`,
+        ]);
+      }
+
+      // Generate a new AI strategy every few epochs
+      if ((epoch % 2 === 0 || epoch === epochs) && !run.isCancelled()) {
+        run.log(['\n🤖 Generating new AI strategy from learnings...']);
+
+        const newStrategy = await generateStrategy(
+          {
+            historicalData: historicalStats,
+            benchmarks: currentResults.map((r) => toBenchmark(r, epoch)),
+            currentStrategies,
+          },
+          llm
+        );
+
+        // Log the new strategy code
+        if (newStrategy.generateBetsCode) {
+          console.log(`\n🤖 [EPOCH ${epoch}] NEW AI Strategy: ${newStrategy.strategyName}`);
+          console.log(newStrategy.generateBetsCode);
+          console.log(`📊 Expected ROI: ${newStrategy.expectedROI}%\n`);
+        }
+
+        // Add the new AI-generated strategy to the strategy pool
+        let aiStrategy: Strategy = {
+          id: `ai_${Date.now()}`,
+          name: newStrategy.strategyName,
+          description: newStrategy.description,
+          type: 'ai_generated' as const,
+          parameters: newStrategy.parameters,
+          generateBets: () => [],
+        };
+
+        const lines: string[] = [];
+        if (newStrategy.generateBetsCode) {
+          const compiled = withGeneratedCode(aiStrategy, newStrategy.generateBetsCode, sandbox.compile);
+          if (compiled.error) {
+            lines.push(`   ⚠️ Warning: Strategy code compilation failed - ${compiled.error}`);
+          }
+          aiStrategy = compiled.strategy;
+        }
+        currentStrategies = [...currentStrategies, aiStrategy];
+        versions = addVersion(versions, toStrategyDefinition(aiStrategy), {
+          source: 'generated',
+          reasoning: newStrategy.description,
+        });
+
+        run.log([
+          ...lines,
+          `   ✅ Generated: "${newStrategy.strategyName}"`,
+          `   Expected ROI: ${newStrategy.expectedROI}%`,
+          `   📈 Total strategies: ${currentStrategies.length}`,
+        ]);
+      }
+    } catch (err) {
+      console.error('Simulation error:', err);
+      run.log([`❌ Error: ${(err as Error).message}`]);
+    }
+
+    if (epoch === 1) firstResults = currentResults;
+    lastResults = currentResults;
+    await run.saveCheckpoint(
+      {
+        epoch,
+        strategies: currentStrategies.map(toStrategyDefinition),
+        firstResults,
+        lastResults,
+        versions,
+      },
+      currentResults
+    );
+    run.progress(epoch, []);
+  }
+
+  const outcome = {
+    strategies: currentStrategies.map(toStrategyDefinition),
+    results: lastResults,
+    hallOfFame: [],
+    versions,
+  };
+  if (run.isCancelled()) return outcome;
+
+  // Final summary
+  const finalLogs: string[] = [];
+  finalLogs.push(`\n\n${DIVIDER}`);
+  finalLogs.push('🎉 SIMULATION COMPLETE - AI SELF-IMPROVEMENT RESULTS');
+  finalLogs.push(DIVIDER);
+
+  // Training Stats
+  const totalTrades = markets.reduce((acc, m) => acc + m.trades.length, 0);
+  finalLogs.push(`\n📊 Training Dataset:`);
+  finalLogs.push(`   • Total Markets: ${markets.length.toLocaleString()}`);
+  finalLogs.push(`   • Total Trades: ${totalTrades.toLocaleString()}`);
+  finalLogs.push(`   • Epochs Completed: ${epochs}`);
+  finalLogs.push(`   • Strategies Generated: ${currentStrategies.length}`);
+
+  finalLogs.push('\n📈 STRATEGY PERFORMANCE - BEFORE vs AFTER:');
+  finalLogs.push(DIVIDER);
+
+  // Track overall improvements
+  let totalRoiImprovement = 0;
+  let totalWinRateImprovement = 0;
+  let strategiesImproved = 0;
+  let strategiesWorsened = 0;
+
+  firstResults.forEach((firstResult) => {
+    const lastResult = lastResults.find((r) => r.strategyId === firstResult.strategyId);
+    if (!lastResult) return;
+
+    const roiImprovement = lastResult.roi - firstResult.roi;
+    const winRateImprovement = lastResult.winRate - firstResult.winRate;
+    const profitImprovement = lastResult.netProfit - firstResult.netProfit;
+
+    totalRoiImprovement += roiImprovement;
+    totalWinRateImprovement += winRateImprovement;
+
+    if (roiImprovement > 0) strategiesImproved++;
+    if (roiImprovement < 0) strategiesWorsened++;
+
+    const improvementIcon = roiImprovement > 5 ? '🚀' : roiImprovement > 0 ? '✅' : roiImprovement < 0 ? '📉' : '➡️';
+
+    finalLogs.push(`\n${improvementIcon} ${lastResult.strategyName}:`);
+    finalLogs.push('   ┌─ EPOCH 1 (Initial):');
+    finalLogs.push(`   │  ROI: ${firstResult.roi.toFixed(1)}% | Win Rate: ${firstResult.winRate.toFixed(1)}% | Profit: $${firstResult.netProfit.toFixed(2)} | Bets: ${firstResult.totalBets}`);
+    finalLogs.push('   └─ EPOCH ' + epochs + ' (Final):');
+    finalLogs.push(`      ROI: ${lastResult.roi.toFixed(1)}% | Win Rate: ${lastResult.winRate.toFixed(1)}% | Profit: $${lastResult.netProfit.toFixed(2)} | Bets: ${lastResult.totalBets}`);
+    finalLogs.push('   ');
+    finalLogs.push(`   📊 Improvements:`);
+    finalLogs.push(`      • ROI Change: ${roiImprovement > 0 ? '+' : ''}${roiImprovement.toFixed(1)}%`);
+    finalLogs.push(`      • Win Rate Change: ${winRateImprovement > 0 ? '+' : ''}${winRateImprovement.toFixed(1)}%`);
+    finalLogs.push(`      • Profit Change: ${profitImprovement > 0 ? '+' : ''}$${profitImprovement.toFixed(2)}`);
+  });
+
+  // New strategies that didn't exist in epoch 1
+  const newStrategies = lastResults.filter((r) => !firstResults.find((f) => f.strategyId === r.strategyId));
+  if (newStrategies.length > 0) {
+    finalLogs.push('\n\n🤖 NEW AI-GENERATED STRATEGIES:');
+    finalLogs.push(DIVIDER);
+    newStrategies.forEach((strategy) => {
+      finalLogs.push(`\n✨ ${strategy.strategyName}:`);
+      finalLogs.push(`   ROI: ${strategy.roi.toFixed(1)}% | Win Rate: ${strategy.winRate.toFixed(1)}% | Profit: $${strategy.netProfit.toFixed(2)} | Bets: ${strategy.totalBets}`);
+    });
+  }
+
+  // Held-out markets were never used to pick or improve strategies
+  finalLogs.push(...(await holdoutLines(currentStrategies, markets)), ...sandbox.flush());
+
+  // Overall Summary
+  finalLogs.push('\n\n🎯 OVERALL IMPROVEMENT SUMMARY:');
+  finalLogs.push(DIVIDER);
+  finalLogs.push(`   Strategies Improved: ${strategiesImproved}`);
+  finalLogs.push(`   Strategies Worsened: ${strategiesWorsened}`);
+  if (firstResults.length > 0) {
+    finalLogs.push(`   Average ROI Change: ${(totalRoiImprovement / firstResults.length).toFixed(1)}%`);
+    finalLogs.push(`   Average Win Rate Change: ${(totalWinRateImprovement / firstResults.length).toFixed(1)}%`);
+  }
+  finalLogs.push(`\n🧠 The AI evolved ${currentStrategies.length} total strategies through ${epochs} epochs of learning!`);
+  run.log(finalLogs);
+
+  return outcome;
+}
+
+/**
+ * Evolution mode: genetic search over strategy parameters, one generation
+ * per epoch, scored on the same walk-forward folds as the LLM loop
+ */
+async function runEvolutionEpochs(run: SimulationRun): Promise<SimulationOutcome> {
+  const { epochs: generations, markets } = run;
+  const startGeneration = (run.checkpoint?.epoch ?? 0) + 1;
+  const sandbox = createSandboxLog();
+  const baseStrategies = run.strategies.map((definition) =>
+    fromStrategyDefinition(definition, sandbox.compile)
+  );
+  const evolution = createEvolution(
+    baseStrategies,
+    STRATEGY_PARAMETER_RANGES,
+    markets,
+    VALIDATION_OPTIONS,
+    run.checkpoint?.evolution
+  );
+  const initialVersions = ensureVersions(
+    run.checkpoint?.versions ?? run.versions,
+    baseStrategies.map(toStrategyDefinition)
+  );
+
+  run.log(
+    startGeneration === 1
+      ? ['🧬 Starting Evolutionary Search (no API key needed)...']
+      : [`⏯️ Resuming at generation ${startGeneration}/${generations}`]
+  );
+
+  // Adopt each strategy's best parameters, as the LLM loop adopts its improvements
+  const adoptChampions = () => {
+    const hallOfFame = evolution.hallOfFame();
+    return baseStrategies.map((s) => {
+      const champion = hallOfFame.find((i) => i.strategyId === s.id);
+      return champion ? { ...s, parameters: { ...s.parameters, ...champion.parameters } } : s;
+    });
+  };
+
+  for (let generation = startGeneration; generation <= generations && !run.isCancelled(); generation++) {
+    await yieldToEventLoop();
+
+    try {
+      const summary = await evolution.step();
+      run.log([
+        `\n🧬 GENERATION ${generation}/${generations}: ${summary.evaluated} new backtests`,
+        `   Best fitness: ${summary.bestFitness.toFixed(2)} | Mean: ${summary.meanFitness.toFixed(2)}`,
+        ...(summary.best
+          ? [`   Best: ${summary.best.strategyName} (${summary.best.id}) ROI ${summary.best.result.roi.toFixed(1)}% | ${JSON.stringify(summary.best.parameters)}`]
+          : []),
+      ]);
+    } catch (err) {
+      console.error('Evolution error:', err);
+      run.log([`❌ Error: ${(err as Error).message}`]);
+    }
+
+    const hallOfFame = evolution.hallOfFame();
+    await run.saveCheckpoint(
+      {
+        epoch: generation,
+        strategies: adoptChampions().map(toStrategyDefinition),
+        firstResults: [],
+        lastResults: [],
+        versions: initialVersions,
+        evolution: evolution.checkpoint(),
+      },
+      hallOfFame.map((i) => i.result)
+    );
+    run.progress(generation, hallOfFame);
+  }
+
+  const hallOfFame = evolution.hallOfFame();
+  const currentStrategies = adoptChampions();
+  // Adopted champions become new versions, measured by their validation result
+  const versions = currentStrategies.reduce((acc, strategy) => {
+    const champion = hallOfFame.find((i) => i.strategyId === strategy.id);
+    if (!champion) return acc;
+    return addVersion(acc, toStrategyDefinition(strategy), {
+      source: 'evolution',
+      reasoning: `Champion ${champion.id} of the evolutionary search (fitness ${champion.fitness.toFixed(2)})`,
+      metrics: toVersionMetrics(champion.result, champion.generation),
+    });
+  }, initialVersions);
+  const outcome = {
+    strategies: currentStrategies.map(toStrategyDefinition),
+    results: hallOfFame.map((i) => i.result),
+    hallOfFame,
+    versions,
+  };
+  if (run.isCancelled()) return outcome;
+
+  run.log([
+    '\n\n🏆 HALL OF FAME (out-of-sample fitness):',
+    ...hallOfFame.map(
+      (i, rank) =>
+        `   ${rank + 1}. ${i.strategyName} (${i.id}): fitness ${i.fitness.toFixed(2)} | ROI ${i.result.roi.toFixed(1)}% | Win Rate ${i.result.winRate.toFixed(1)}% | Bets ${i.result.totalBets}`
+    ),
+    ...(await holdoutLines(currentStrategies, markets)),
+    ...sandbox.flush(),
+  ]);
+  return outcome;
+}
+
+/**
+ * Run (or resume) a simulation to completion or until cancelled
+ */
+export function runSimulation(run: SimulationRun): Promise<SimulationOutcome> {
+  return run.mode === 'evolution' ? runEvolutionEpochs(run) : runLlmEpochs(run);
+}
@@ -0,0 +1,99 @@
+/**
+ * Generated Code Checks
+ *
+ * Gatekeeping for LLM-written generateBets code before it joins the strategy
+ * pool: a syntax check, a lint pass for patterns that cannot work in the
+ * sandbox, and a dry run against the fixture markets at a few decision
+ * times. Problems are returned as messages the model can act on.
+ */
+
+import { compileFunction } from 'vm';
+import { uniq } from 'lodash';
+import { Strategy, StrategyContext } from '@/types';
+import { isOpenAt, snapshotMarket } from '@/lib/backtesting/snapshots';
+import { compileSandboxedStrategy } from './sandbox';
+import { createFixtureMarkets, FIXTURE_START } from './fixtures';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours after the fixture start at which the dry run calls generateBets
+const DRY_RUN_HOURS = [24, 48, 80];
+
+const MAX_REPORTED_PROBLEMS = 5;
+
+const LINT_RULES: { pattern: RegExp; message: string }[] = [
+  { pattern: /\brequire\s*\(|\bimport\s*[({'"]/, message: 'imports modules, which the sandbox does not allow' },
+  { pattern: /\bprocess\s*\.|\bglobalThis\b/, message: 'reaches for process or globalThis, which the sandbox does not expose' },
+  { pattern: /\beval\s*\(|\bFunction\s*\(/, message: 'builds code from strings, which the sandbox does not allow' },
+  { pattern: /\bfetch\s*\(|\bXMLHttpRequest\b/, message: 'makes network requests, which the sandbox does not allow' },
+  { pattern: /\bset(Timeout|Interval|Immediate)\s*\(|\bawait\b|\.then\s*\(/, message: 'is asynchronous; generateBets must return its bets synchronously' },
+  { pattern: /\bwhile\s*\(\s*(true|1)\s*\)|\bfor\s*\(\s*;\s*;\s*\)/, message: 'contains an unbounded loop' },
+];
+
+/**
+ * Problems that show without running the code: syntax errors and
+ * sandbox-incompatible patterns
+ */
+export function lintStrategyCode(code: string): string[] {
+  try {
+    compileFunction(code, ['markets', 'context', 'parameters']);
+  } catch (err) {
+    return [`generateBetsCode has a syntax error: ${(err as Error).message}`];
+  }
+
+  return [
+    ...(/\breturn\b/.test(code) ? [] : ['generateBetsCode never returns; it must end with `return bets;`']),
+    ...LINT_RULES.filter((rule) => rule.pattern.test(code)).map(
+      (rule) => `generateBetsCode ${rule.message}`
+    ),
+  ];
+}
+
+/**
+ * Run the code in the sandbox against the fixture markets and report
+ * anything that went wrong, including bets dated after `context.asOf`
+ */
+export async function dryRunStrategyCode(
+  code: string,
+  parameters: Strategy['parameters']
+): Promise<string[]> {
+  const problems: string[] = [];
+  const generateBets = compileSandboxedStrategy(
+    code,
+    { name: 'dry-run', parameters },
+    { onError: (message) => problems.push(`Dry run on fixture markets: ${message}`) }
+  );
+  const fixtures = createFixtureMarkets();
+
+  for (const hours of DRY_RUN_HOURS) {
+    const asOf = new Date(FIXTURE_START.getTime() + hours * HOUR_MS);
+    const markets = fixtures.filter((m) => isOpenAt(m, asOf)).map((m) => snapshotMarket(m, asOf));
+    const context: StrategyContext = {
+      mode: 'backtest',
+      asOf,
+      trainingMarkets: fixtures.filter((m) => m.resolutionDate && m.resolutionDate <= asOf),
+      evaluationMarkets: markets,
+      parameters,
+    };
+
+    const lookAhead = (await generateBets(markets, context)).filter(
+      (bet) => bet.timestamp.getTime() > asOf.getTime()
+    );
+    if (lookAhead.length > 0) {
+      problems.push('Dry run on fixture markets: bets are timestamped after context.asOf; use context.asOf or earlier');
+    }
+  }
+
+  return uniq(problems).slice(0, MAX_REPORTED_PROBLEMS);
+}
+
+/**
+ * Lint, then dry-run if the code is clean
+ */
+export async function checkStrategyCode(
+  code: string,
+  parameters: Strategy['parameters']
+): Promise<string[]> {
+  const problems = lintStrategyCode(code);
+  return problems.length > 0 ? problems : dryRunStrategyCode(code, parameters);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { StrategyDefinition } from '@/types';
+import { fromStrategyDefinition, toStrategyDefinition } from './definitions';
+import { copyTradingStrategy } from './index';
+
+const generated: StrategyDefinition = {
+  id: 'ai_1',
+  name: 'Generated',
+  description: 'Written by the LLM',
+  type: 'ai_generated',
+  parameters: {},
+  code: 'return [];',
+};
+
+describe('fromStrategyDefinition', () => {
+  it('gives built-in strategies their logic back', () => {
+    const strategy = fromStrategyDefinition(toStrategyDefinition(copyTradingStrategy));
+    expect(strategy.generateBets).toBe(copyTradingStrategy.generateBets);
+    expect(strategy.uncompiled).toBeUndefined();
+  });
+
+  it('marks generated code as uncompiled without a compiler', () => {
+    expect(fromStrategyDefinition(generated).uncompiled).toBe(true);
+    expect(fromStrategyDefinition({ ...toStrategyDefinition(copyTradingStrategy), code: 'return [];' }).uncompiled).toBe(true);
+  });
+
+  it('compiles generated code when given a compiler', () => {
+    const generateBets = () => [];
+    const strategy = fromStrategyDefinition(generated, () => generateBets);
+    expect(strategy.generateBets).toBe(generateBets);
+    expect(strategy.uncompiled).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { Strategy, StrategyDefinition } from '@/types';
+import { copyTradingStrategy, spikeDetectionStrategy, marketMakingStrategy } from './index';
+
+export const BUILT_IN_STRATEGIES: Strategy[] = [
+  copyTradingStrategy,
+  spikeDetectionStrategy,
+  marketMakingStrategy,
+];
+
+/**
+ * Turns LLM-written generateBets code into a runnable generateBets
+ */
+export type StrategyCompiler = (
+  code: string,
+  strategy: Pick<Strategy, 'name' | 'parameters'>
+) => Strategy['generateBets'];
+
+/**
+ * Strategy as plain data, for sending to the server and persisting
+ */
+export const toStrategyDefinition = (strategy: Strategy): StrategyDefinition => ({
+  id: strategy.id,
+  name: strategy.name,
+  description: strategy.description,
+  type: strategy.type,
+  parameters: strategy.parameters,
+  ...(strategy.code ? { code: strategy.code } : {}),
+});
+
+/**
+ * Rebuild a runnable strategy: built-in strategies get their logic back by
+ * ID and generated code is recompiled with `compile`. Without a compiler
+ * (in the browser) strategies with generated code are marked `uncompiled`
+ * and must not be backtested.
+ */
+export function fromStrategyDefinition(
+  definition: StrategyDefinition,
+  compile?: StrategyCompiler
+): Strategy {
+  const builtIn = BUILT_IN_STRATEGIES.find((s) => s.id === definition.id);
+  const strategy: Strategy = {
+    ...(builtIn ?? { generateBets: () => [] }),
+    ...definition,
+  };
+
+  if (definition.code && compile) {
+    try {
+      strategy.generateBets = compile(definition.code, strategy);
+    } catch (err) {
+      console.error(`❌ Failed to compile strategy code for ${definition.name}:`, err);
+    }
+  } else if (definition.code) {
+    strategy.uncompiled = true;
+  }
+  return strategy;
+}
@@ -0,0 +1,90 @@
+/**
+ * Fixture Markets
+ *
+ * A small, fixed market set that generated strategy code is dry-run against
+ * before it is accepted. It covers binary and categorical markets, resolved
+ * and still-open ones, with hourly prices and a mix of small and whale
+ * trades, so common code paths are exercised in a few milliseconds.
+ */
+
+import { PolymarketMarket, PricePoint, Trade } from '@/types';
+import { createRandom, randomInt } from '@/lib/random';
+import { generatedProvenance } from '@/lib/provenance';
+
+export const FIXTURE_START = new Date(Date.UTC(2024, 0, 1));
+export const FIXTURE_HOURS = 96;
+
+const HOUR_MS = 60 * 60 * 1000;
+const WALLETS = ['0xwhale1', '0xwhale2', '0xfish1', '0xfish2', '0xfish3'];
+
+interface FixtureSpec {
+  question: string;
+  outcomes: string[];
+  category: string;
+  startHour: number;
+  durationHours: number;
+  resolvedOutcome: string | null;
+}
+
+const FIXTURE_SPECS: FixtureSpec[] = [
+  { question: 'Will the incumbent win the election?', outcomes: ['Yes', 'No'], category: 'Politics', startHour: 0, durationHours: 72, resolvedOutcome: 'Yes' },
+  { question: 'Will the home team win the final?', outcomes: ['Yes', 'No'], category: 'Sports', startHour: 6, durationHours: 48, resolvedOutcome: 'No' },
+  { question: 'Will BTC close above $50k on Friday?', outcomes: ['Yes', 'No'], category: 'Crypto', startHour: 12, durationHours: 84, resolvedOutcome: null },
+  { question: 'Who will win the award?', outcomes: ['Alice', 'Bob', 'Carol'], category: 'Culture', startHour: 0, durationHours: 90, resolvedOutcome: 'Bob' },
+  { question: 'Will the bill pass this week?', outcomes: ['Yes', 'No'], category: 'Politics', startHour: 24, durationHours: 72, resolvedOutcome: null },
+];
+
+/**
+ * The fixture markets, identical on every call
+ */
+export function createFixtureMarkets(): PolymarketMarket[] {
+  const random = createRandom();
+
+  return FIXTURE_SPECS.map((spec, index) => {
+    const start = FIXTURE_START.getTime() + spec.startHour * HOUR_MS;
+    const end = new Date(start + spec.durationHours * HOUR_MS);
+    const historicalPrices: PricePoint[] = [];
+    const trades: Trade[] = [];
+
+    // A random walk per outcome, normalised so the prices sum to 1
+    let weights = spec.outcomes.map(() => 0.5 + random());
+    for (let hour = 0; hour <= spec.durationHours; hour++) {
+      weights = weights.map((w) => Math.max(0.05, w * (1 + (random() - 0.5) * 0.2)));
+      const total = weights.reduce((sum, w) => sum + w, 0);
+      const timestamp = new Date(start + hour * HOUR_MS);
+
+      spec.outcomes.forEach((outcome, i) => {
+        const price = Math.min(0.99, Math.max(0.01, weights[i] / total));
+        historicalPrices.push({ timestamp, price, outcome });
+        if (random() < 0.6) {
+          const whale = random() < 0.15;
+          trades.push({
+            timestamp: new Date(timestamp.getTime() + randomInt(random, HOUR_MS)),
+            side: random() < 0.5 ? 'buy' : 'sell',
+            amount: whale ? 2000 + random() * 8000 : 10 + random() * 490,
+            price,
+            outcome,
+            maker: WALLETS[whale ? randomInt(random, 2) : 2 + randomInt(random, 3)],
+            taker: WALLETS[randomInt(random, WALLETS.length)],
+          });
+        }
+      });
+    }
+
+    return {
+      marketId: `fixture_${index + 1}`,
+      question: spec.question,
+      outcomes: spec.outcomes,
+      resolutionDate: spec.resolvedOutcome ? end : null,
+      historicalPrices,
+      trades,
+      resolvedOutcome: spec.resolvedOutcome,
+      volume: trades.reduce((sum, t) => sum + t.amount, 0),
+      liquidity: 5000 + index * 20000,
+      active: spec.resolvedOutcome === null,
+      endDate: end,
+      category: spec.category,
+      provenance: generatedProvenance('fixture'),
+    };
+  });
+}
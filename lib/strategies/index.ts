@@ -1,5 +1,13 @@
-import { Strategy, PolymarketMarket, Bet, StrategyContext } from '@/types';
-import { orderBy, mean } from 'lodash';
+import {
+  Strategy,
+  PolymarketMarket,
+  Bet,
+  StrategyContext,
+  SizingRule,
+  ParameterRange,
+} from '@/types';
+import { orderBy, mean, maxBy, sumBy } from 'lodash';
+import { outcomeSeries, sameOutcome } from '@/lib/outcomes';
 
 type StrategyMode = StrategyContext['mode'];
 
@@ -11,10 +19,35 @@ const COPY_TRADING_DEFAULTS = {
   minMarketLiquidity: 50000,    // Minimum $50k market liquidity
 };
 
+// Search space for tuning copy trading with the parameter optimiser
+export const COPY_TRADING_PARAMETER_RANGES: ParameterRange[] = [
+  { name: 'minWhaleVolume', min: 500, max: 5000, step: 500, integer: true },
+  { name: 'copyDelay', min: 1800, max: 14400, step: 1800, integer: true },
+  { name: 'maxBetsPerMarket', min: 1, max: 5, step: 1, integer: true },
+  { name: 'minMarketLiquidity', min: 10000, max: 100000, step: 10000, integer: true },
+];
+
 const SPIKE_DETECTION_DEFAULTS = {
   spikeThreshold: 0.05,
   lookbackWindow: 24,
   betSize: 100,  // $100 per bet
+  stopLossMove: 0.1,  // Exit if price moves another 10 points against us
+  maxHoldHours: 48,   // Give up on the reversion after 2 days
+};
+
+export const SPIKE_DETECTION_PARAMETER_RANGES: ParameterRange[] = [
+  { name: 'spikeThreshold', min: 0.02, max: 0.15, step: 0.01 },
+  { name: 'lookbackWindow', min: 6, max: 72, step: 6, integer: true },
+  { name: 'stopLossMove', min: 0.05, max: 0.2, step: 0.05 },
+  { name: 'maxHoldHours', min: 12, max: 96, step: 12, integer: true },
+];
+
+// Quarter Kelly on the reversion target, at most 5% of equity per market
+const SPIKE_DETECTION_SIZING: SizingRule = {
+  method: 'kelly',
+  kellyFraction: 0.25,
+  maxMarketExposure: 0.05,
+  maxCategoryExposure: 0.3,
 };
 
 const MARKET_MAKING_DEFAULTS = {
@@ -22,6 +55,21 @@ const MARKET_MAKING_DEFAULTS = {
   maxSpread: 0.08,
   betSizePerSide: 100,  // $100 per side
   minLiquidity: 30000,  // Minimum $30k liquidity
+  maxHoldHours: 24,     // Flatten unmatched inventory after 1 day
+};
+
+export const MARKET_MAKING_PARAMETER_RANGES: ParameterRange[] = [
+  { name: 'minSpread', min: 0.01, max: 0.05, step: 0.01 },
+  { name: 'maxSpread', min: 0.04, max: 0.15, step: 0.01 },
+  { name: 'minLiquidity', min: 10000, max: 100000, step: 10000, integer: true },
+  { name: 'maxHoldHours', min: 6, max: 72, step: 6, integer: true },
+];
+
+// Quote less size in volatile markets
+const MARKET_MAKING_SIZING: SizingRule = {
+  method: 'volatility_target',
+  targetVolatility: 0.002,
+  maxMarketExposure: 0.03,
 };
 
 const resolveMode = (context: StrategyContext): StrategyMode =>
@@ -38,28 +86,12 @@ const isMarketEligible = (
   return !market.resolvedOutcome && market.active;
 };
 
-const determineDecisionTime = (
-  market: PolymarketMarket,
-  mode: StrategyMode
-): Date => {
-  if (mode === 'backtest') {
-    if (market.historicalPrices.length > 0) {
-      const latestPoint =
-        market.historicalPrices[market.historicalPrices.length - 1];
-      return new Date(latestPoint.timestamp);
-    }
-
-    if (market.endDate) {
-      return new Date(market.endDate);
-    }
-
-    if (market.resolutionDate) {
-      return new Date(market.resolutionDate);
-    }
-  }
-
-  return new Date();
-};
+/**
+ * The instant a strategy decides at: the engine's point-in-time `asOf` in
+ * backtests (markets are already truncated to it), otherwise now
+ */
+const determineDecisionTime = (context: StrategyContext): Date =>
+  context?.asOf ? new Date(context.asOf) : new Date();
 
 const clampPrice = (price: number) =>
   Math.max(0.01, Math.min(0.99, price));
@@ -75,8 +107,8 @@ export const copyTradingStrategy: Strategy = {
     const bets: Bet[] = [];
     const mode = resolveMode(context);
 
-    // Use strategy parameters (which can be updated by AI)
-    const params = copyTradingStrategy.parameters as typeof COPY_TRADING_DEFAULTS;
+    // Use strategy parameters (which can be updated by AI or the optimiser)
+    const params = (context?.parameters ?? copyTradingStrategy.parameters) as typeof COPY_TRADING_DEFAULTS;
     const { minWhaleVolume, copyDelay, betSize, maxBetsPerMarket, minMarketLiquidity } = params;
 
     console.log(`\n[Whale Copy Trading] Processing ${markets.length} markets in ${mode} mode`);
@@ -96,7 +128,7 @@ export const copyTradingStrategy: Strategy = {
       if (market.liquidity < minMarketLiquidity) return;
       liquidCount++;
 
-      const decisionTime = determineDecisionTime(market, mode);
+      const decisionTime = determineDecisionTime(context);
 
       // Identify whale trades (large volume)
       const whaleTrades = market.trades.filter((trade) => {
@@ -145,11 +177,14 @@ export const spikeDetectionStrategy: Strategy = {
   description: 'Detect price spikes >5% and bet on mean reversion',
   type: 'spike_detection',
   parameters: { ...SPIKE_DETECTION_DEFAULTS },
+  sizing: SPIKE_DETECTION_SIZING,
   generateBets: (markets: PolymarketMarket[], context: StrategyContext): Bet[] => {
     const bets: Bet[] = [];
     const mode = resolveMode(context);
-    const { spikeThreshold, lookbackWindow, betSize } =
-      SPIKE_DETECTION_DEFAULTS;
+    const { spikeThreshold, lookbackWindow, betSize, stopLossMove, maxHoldHours } = {
+      ...SPIKE_DETECTION_DEFAULTS,
+      ...context?.parameters,
+    };
 
     console.log(`\n[Spike Detection] Processing ${markets.length} markets in ${mode} mode`);
     let eligibleCount = 0;
@@ -162,34 +197,33 @@ export const spikeDetectionStrategy: Strategy = {
       if (market.historicalPrices.length < 10) return;
       sufficientDataCount++;
 
-      const decisionTime = determineDecisionTime(market, mode);
-
-      // Sort prices by timestamp
-      const sortedPrices = orderBy(
-        market.historicalPrices,
-        ['timestamp'],
-        ['asc']
-      );
+      const decisionTime = determineDecisionTime(context);
 
-      // Get recent prices (last 24 hours)
+      // Get recent prices (last 24 hours) of each outcome
       const cutoffTime = new Date(
         decisionTime.getTime() - lookbackWindow * 60 * 60 * 1000
       );
-      const recentPrices = sortedPrices.filter(
-        (p) =>
-          p.timestamp >= cutoffTime &&
-          p.timestamp.getTime() <= decisionTime.getTime()
-      );
-
-      if (recentPrices.length < 5) return;
+      const moves = market.outcomes.flatMap((outcome) => {
+        const recentPrices = outcomeSeries(market, outcome).filter(
+          (p) =>
+            p.timestamp >= cutoffTime &&
+            p.timestamp.getTime() <= decisionTime.getTime()
+        );
+        if (recentPrices.length < 5) return [];
+
+        // Calculate mean and current price
+        const avgPrice = mean(recentPrices.map((p) => p.price));
+        const currentPrice = recentPrices[recentPrices.length - 1].price;
+        const priceChange = (currentPrice - avgPrice) / avgPrice;
+        return [{ outcome, avgPrice, currentPrice, priceChange }];
+      });
 
-      // Calculate mean and current price
-      const avgPrice = mean(recentPrices.map((p) => p.price));
-      const currentPrice = recentPrices[recentPrices.length - 1].price;
-      const priceChange = (currentPrice - avgPrice) / avgPrice;
+      // Trade the outcome that moved furthest from its mean
+      const spike = maxBy(moves, (m) => Math.abs(m.priceChange));
 
       // Detect spike
-      if (Math.abs(priceChange) > spikeThreshold) {
+      if (spike && Math.abs(spike.priceChange) > spikeThreshold) {
+        const { outcome, avgPrice, currentPrice, priceChange } = spike;
         spikesDetected++;
         // Bet against the spike (mean reversion)
         const betSide: 'buy' | 'sell' = priceChange > 0 ? 'sell' : 'buy';
@@ -198,12 +232,24 @@ export const spikeDetectionStrategy: Strategy = {
 
         bets.push({
           marketId: market.marketId,
-          outcome: market.outcomes[0],
+          outcome,
           side: betSide,
           amount: betSize,
           priceLimit: clampPrice(targetPrice),
-          reason: `Spike detected: ${(priceChange * 100).toFixed(1)}% change. Betting on reversion to mean ${avgPrice.toFixed(3)}`,
+          reason: `Spike detected: ${outcome} ${(priceChange * 100).toFixed(1)}% change. Betting on reversion to mean ${avgPrice.toFixed(3)}`,
           timestamp: decisionTime,
+          // Expect the price to revert to its mean
+          probability: avgPrice,
+          // Take profit once the price has reverted to the mean
+          exit: {
+            takeProfit: avgPrice,
+            stopLoss: clampPrice(
+              betSide === 'sell'
+                ? currentPrice + stopLossMove
+                : currentPrice - stopLossMove
+            ),
+            maxHoldSeconds: maxHoldHours * 60 * 60,
+          },
         });
       }
     });
@@ -220,11 +266,14 @@ export const marketMakingStrategy: Strategy = {
   description: 'Place balanced bids/asks with spreads for high-liquidity markets',
   type: 'market_making',
   parameters: { ...MARKET_MAKING_DEFAULTS },
+  sizing: MARKET_MAKING_SIZING,
   generateBets: (markets: PolymarketMarket[], context: StrategyContext): Bet[] => {
     const bets: Bet[] = [];
     const mode = resolveMode(context);
-    const { minSpread, maxSpread, betSizePerSide, minLiquidity } =
-      MARKET_MAKING_DEFAULTS;
+    const { minSpread, maxSpread, betSizePerSide, minLiquidity, maxHoldHours } = {
+      ...MARKET_MAKING_DEFAULTS,
+      ...context?.parameters,
+    };
 
     console.log(`\n[Market Making] Processing ${markets.length} markets in ${mode} mode`);
     let eligibleCount = 0;
@@ -237,15 +286,24 @@ export const marketMakingStrategy: Strategy = {
       if (market.liquidity < minLiquidity) return;
       liquidCount++;
 
-      // Get current mid-price
-      if (market.historicalPrices.length === 0) return;
+      // Quote the most actively traded outcome that has a price
+      const quotable = market.outcomes.filter(
+        (o) => outcomeSeries(market, o).length > 0
+      );
+      if (quotable.length === 0) return;
       withPricesCount++;
-      const currentPrice =
-        market.historicalPrices[market.historicalPrices.length - 1].price;
-      const decisionTime = determineDecisionTime(market, mode);
+      const outcome =
+        maxBy(quotable, (o) =>
+          sumBy(market.trades.filter((t) => sameOutcome(t.outcome, o)), 'amount')
+        ) ?? quotable[0];
+
+      // Get current mid-price
+      const prices = outcomeSeries(market, outcome);
+      const currentPrice = prices[prices.length - 1].price;
+      const decisionTime = determineDecisionTime(context);
 
       // Calculate spreads based on volatility
-      const recentPrices = market.historicalPrices.slice(-20);
+      const recentPrices = prices.slice(-20);
       const volatility =
         recentPrices.length > 1
           ? Math.sqrt(
@@ -260,23 +318,25 @@ export const marketMakingStrategy: Strategy = {
       // Place bid (buy below mid)
       bets.push({
         marketId: market.marketId,
-        outcome: market.outcomes[0],
+        outcome,
         side: 'buy',
         amount: betSizePerSide,
         priceLimit: clampPrice(currentPrice - spread / 2),
-        reason: `Market making: bid at ${(currentPrice - spread / 2).toFixed(3)}`,
+        reason: `Market making: ${outcome} bid at ${(currentPrice - spread / 2).toFixed(3)}`,
         timestamp: decisionTime,
+        exit: { maxHoldSeconds: maxHoldHours * 60 * 60 },
       });
 
       // Place ask (sell above mid)
       bets.push({
         marketId: market.marketId,
-        outcome: market.outcomes[0],
+        outcome,
         side: 'sell',
         amount: betSizePerSide,
         priceLimit: clampPrice(currentPrice + spread / 2),
-        reason: `Market making: ask at ${(currentPrice + spread / 2).toFixed(3)}`,
+        reason: `Market making: ${outcome} ask at ${(currentPrice + spread / 2).toFixed(3)}`,
         timestamp: decisionTime,
+        exit: { maxHoldSeconds: maxHoldHours * 60 * 60 },
       });
     });
 
@@ -300,6 +360,13 @@ export const aiGeneratedStrategy: Strategy = {
   },
 };
 
+// Tunable parameters of each built-in strategy, by strategy ID
+export const STRATEGY_PARAMETER_RANGES: Record<string, ParameterRange[]> = {
+  copy_trading: COPY_TRADING_PARAMETER_RANGES,
+  spike_detection: SPIKE_DETECTION_PARAMETER_RANGES,
+  market_making: MARKET_MAKING_PARAMETER_RANGES,
+};
+
 // FOCUS: Only Whale Copy Trading strategy for optimization
 export const defaultStrategies: Strategy[] = [
   copyTradingStrategy,
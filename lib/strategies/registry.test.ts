@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+
+// The registry reads its file location once, when the module loads
+const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'strategy-registry-')), 'strategies.json');
+process.env.STRATEGY_REGISTRY_FILE = file;
+const registry = await import('./registry');
+
+const globalForRegistry = globalThis as typeof globalThis & { strategyRegistry?: unknown };
+
+const GENERATED = {
+  id: 'mean_reversion',
+  name: 'Mean Reversion',
+  description: 'Fades big moves',
+  type: 'ai_generated' as const,
+  parameters: { threshold: 0.1 },
+  code: 'return [];',
+  tags: ['test'],
+};
+
+// Forget the loaded registry, as a server restart would
+const reload = () => {
+  globalForRegistry.strategyRegistry = undefined;
+};
+
+beforeEach(async () => {
+  await fs.rm(file, { force: true });
+  reload();
+});
+
+afterAll(() => fs.rm(path.dirname(file), { recursive: true, force: true }));
+
+describe('strategy registry', () => {
+  it('seeds the built-in strategies, which cannot be deleted', async () => {
+    const strategies = await registry.listStrategies();
+    expect(strategies.map((s) => s.source)).toContain('built_in');
+    await expect(registry.deleteStrategy(strategies[0].id)).rejects.toThrow('built-in');
+  });
+
+  it('keeps created strategies on disk', async () => {
+    await registry.createStrategy(GENERATED);
+    reload();
+
+    expect(await registry.getStrategy(GENERATED.id)).toMatchObject({ ...GENERATED, source: 'user', enabled: true });
+    expect((await registry.getStrategy(GENERATED.id))?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects strategies without code unless built in', async () => {
+    await expect(registry.createStrategy({ name: 'No code' })).rejects.toThrow('"code" is required');
+  });
+
+  it('imports what it exported', async () => {
+    await registry.createStrategy(GENERATED);
+    const exported = JSON.parse(JSON.stringify(await registry.exportStrategies([GENERATED.id])));
+    await registry.deleteStrategy(GENERATED.id);
+
+    expect(exported.strategies).toEqual([GENERATED]);
+    expect(await registry.importStrategies(exported)).toEqual({ created: [GENERATED.id], updated: [] });
+    expect(await registry.getStrategy(GENERATED.id)).toMatchObject({ ...GENERATED, source: 'imported' });
+    expect(await registry.importStrategies(exported)).toEqual({ created: [], updated: [GENERATED.id] });
+  });
+
+  it('imports nothing if any strategy in the file is invalid', async () => {
+    const exportFile = {
+      format: registry.EXPORT_FORMAT,
+      formatVersion: 1,
+      strategies: [GENERATED, { id: 'broken', name: '', code: 'return [];' }],
+    };
+
+    await expect(registry.importStrategies(exportFile)).rejects.toThrow('strategies[1]');
+    expect(await registry.getStrategy(GENERATED.id)).toBeNull();
+    await expect(registry.importStrategies({ format: 'other' })).rejects.toThrow('Not a strategy export file');
+  });
+});
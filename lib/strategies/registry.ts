@@ -0,0 +1,280 @@
+/**
+ * Strategy Registry
+ *
+ * Built-in and generated strategies saved to a JSON file on the server, so
+ * they outlive the browser session. Built-in strategies are seeded on first
+ * use, enabled if they are among `defaultStrategies`; they keep their logic
+ * from the code base unless a revision gave them generated `code`, and
+ * cannot be deleted, only disabled. Strategies travel between installs as a
+ * `StrategyExportFile`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isEqual, omit, orderBy, pick } from 'lodash';
+import {
+  ExportedStrategy,
+  RegisteredStrategy,
+  StrategyDefinition,
+  StrategyExportFile,
+  StrategySource,
+} from '@/types';
+import { reviveDates } from '@/lib/serialization';
+import { validateStrategyFields } from '@/lib/validation';
+import { defaultStrategies } from './index';
+import { BUILT_IN_STRATEGIES, toStrategyDefinition } from './definitions';
+import { lintStrategyCode } from './checks';
+
+const REGISTRY_FILE =
+  process.env.STRATEGY_REGISTRY_FILE || path.join(process.cwd(), '.data', 'strategies.json');
+
+export const EXPORT_FORMAT = 'polymarket-strategies';
+
+// Fields an update or import may change; ID, type and source are fixed
+const EDITABLE_FIELDS = ['name', 'description', 'parameters', 'code', 'tags', 'author', 'enabled'] as const;
+
+export type StrategyInput = Partial<ExportedStrategy> & { enabled?: boolean };
+
+// Kept on globalThis so dev-server reloads of this module share one registry
+const globalForRegistry = globalThis as typeof globalThis & {
+  strategyRegistry?: Promise<Map<string, RegisteredStrategy>>;
+  strategyRegistryWrites?: Promise<void>;
+};
+
+const isBuiltIn = (id: string) => BUILT_IN_STRATEGIES.some((s) => s.id === id);
+
+function loadRegistry(): Promise<Map<string, RegisteredStrategy>> {
+  globalForRegistry.strategyRegistry ??= (async () => {
+    const strategies = new Map<string, RegisteredStrategy>();
+    try {
+      const saved = JSON.parse(await fs.readFile(REGISTRY_FILE, 'utf8'));
+      reviveDates<RegisteredStrategy[]>(saved.strategies).forEach((s) => strategies.set(s.id, s));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const now = new Date();
+    BUILT_IN_STRATEGIES.filter((s) => !strategies.has(s.id)).forEach((strategy) =>
+      strategies.set(strategy.id, {
+        ...toStrategyDefinition(strategy),
+        source: 'built_in',
+        enabled: defaultStrategies.some((s) => s.id === strategy.id),
+        tags: [],
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+    return strategies;
+  })().catch((error) => {
+    // Try again on the next call rather than caching the failure
+    globalForRegistry.strategyRegistry = undefined;
+    throw error;
+  });
+  return globalForRegistry.strategyRegistry;
+}
+
+/**
+ * Write the registry, one write at a time, through a temporary file so a
+ * crash mid-write cannot leave it truncated
+ */
+function persist(strategies: Map<string, RegisteredStrategy>): Promise<void> {
+  const write = async () => {
+    await fs.mkdir(path.dirname(REGISTRY_FILE), { recursive: true });
+    const temporary = `${REGISTRY_FILE}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ strategies: Array.from(strategies.values()) }, null, 2));
+    await fs.rename(temporary, REGISTRY_FILE);
+  };
+  const queued = (globalForRegistry.strategyRegistryWrites ?? Promise.resolve()).then(write);
+  globalForRegistry.strategyRegistryWrites = queued.catch(() => undefined);
+  return queued;
+}
+
+function inputProblems(input: unknown, { partial = false, id }: { partial?: boolean; id?: string } = {}): string[] {
+  const problems = validateStrategyFields(input, { partial });
+  if (problems.length > 0) return problems;
+
+  const { code } = input as StrategyInput;
+  const strategyId = id ?? (input as StrategyInput).id;
+  if (!partial && !code && !(strategyId && isBuiltIn(strategyId))) {
+    return ['"code" is required for strategies other than the built-in ones'];
+  }
+  return code ? lintStrategyCode(code) : [];
+}
+
+function assertValid(problems: string[]) {
+  if (problems.length > 0) {
+    throw new Error(`Invalid strategy: ${problems.join('; ')}`);
+  }
+}
+
+function insert(
+  strategies: Map<string, RegisteredStrategy>,
+  input: StrategyInput,
+  source: StrategySource
+): RegisteredStrategy {
+  const now = new Date();
+  const strategy: RegisteredStrategy = {
+    id: input.id ?? `strategy_${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: input.name ?? '',
+    description: input.description ?? '',
+    type: input.type ?? 'ai_generated',
+    parameters: input.parameters ?? {},
+    ...(input.code ? { code: input.code } : {}),
+    source,
+    enabled: input.enabled ?? true,
+    tags: input.tags ?? [],
+    ...(input.author ? { author: input.author } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+  strategies.set(strategy.id, strategy);
+  return strategy;
+}
+
+function patch(
+  strategies: Map<string, RegisteredStrategy>,
+  existing: RegisteredStrategy,
+  input: StrategyInput
+): RegisteredStrategy {
+  const changes = pick(input, EDITABLE_FIELDS);
+  const updated: RegisteredStrategy = { ...existing, ...changes, updatedAt: new Date() };
+  if (!updated.code) delete updated.code; // A rollback can return to built-in logic
+  if (isEqual(omit(updated, 'updatedAt'), omit(existing, 'updatedAt'))) return existing;
+
+  strategies.set(existing.id, updated);
+  return updated;
+}
+
+/**
+ * Every registered strategy, built-in ones first, then oldest first
+ */
+export async function listStrategies(): Promise<RegisteredStrategy[]> {
+  const strategies = await loadRegistry();
+  return orderBy(
+    Array.from(strategies.values()),
+    [(s) => s.source !== 'built_in', (s) => s.createdAt.getTime()],
+    ['asc', 'asc']
+  );
+}
+
+export async function getStrategy(id: string): Promise<RegisteredStrategy | null> {
+  return (await loadRegistry()).get(id) ?? null;
+}
+
+export async function createStrategy(input: unknown): Promise<RegisteredStrategy> {
+  const strategies = await loadRegistry();
+  assertValid(inputProblems(input));
+  const { id } = input as StrategyInput;
+  if (id && strategies.has(id)) {
+    throw new Error(`Strategy ${id} already exists`);
+  }
+
+  const strategy = insert(strategies, input as StrategyInput, 'user');
+  await persist(strategies);
+  return strategy;
+}
+
+/**
+ * Apply the editable fields of `input`; null if there is no such strategy
+ */
+export async function updateStrategy(id: string, input: unknown): Promise<RegisteredStrategy | null> {
+  const strategies = await loadRegistry();
+  const existing = strategies.get(id);
+  if (!existing) return null;
+  assertValid(inputProblems(input, { partial: true, id }));
+
+  const updated = patch(strategies, existing, input as StrategyInput);
+  if (updated !== existing) await persist(strategies);
+  return updated;
+}
+
+export const setStrategyEnabled = (id: string, enabled: boolean) => updateStrategy(id, { enabled });
+
+/**
+ * Remove a strategy; false if there is no such strategy
+ */
+export async function deleteStrategy(id: string): Promise<boolean> {
+  const strategies = await loadRegistry();
+  if (!strategies.has(id)) return false;
+  if (isBuiltIn(id)) {
+    throw new Error(`${id} is a built-in strategy; disable it instead`);
+  }
+
+  strategies.delete(id);
+  await persist(strategies);
+  return true;
+}
+
+/**
+ * Save a finished simulation's strategy pool: revised strategies are
+ * updated and new ones registered as generated
+ */
+export async function saveSimulationStrategies(definitions: StrategyDefinition[]): Promise<number> {
+  const strategies = await loadRegistry();
+  let saved = 0;
+
+  definitions.forEach((definition) => {
+    const existing = strategies.get(definition.id);
+    const { name, description, parameters, code } = definition;
+    const fields = { name, description, parameters, code };
+    if (!existing) {
+      insert(strategies, { ...definition, tags: ['simulation'] }, 'generated');
+      saved++;
+    } else if (patch(strategies, existing, fields) !== existing) {
+      saved++;
+    }
+  });
+
+  if (saved > 0) await persist(strategies);
+  return saved;
+}
+
+/**
+ * Export file with the given strategies, or all of them
+ */
+export async function exportStrategies(ids?: string[]): Promise<StrategyExportFile> {
+  const strategies = await listStrategies();
+  return {
+    format: EXPORT_FORMAT,
+    formatVersion: 1,
+    exportedAt: new Date(),
+    strategies: strategies
+      .filter((s) => !ids || ids.includes(s.id))
+      .map((s) => omit(s, ['source', 'enabled', 'createdAt', 'updatedAt'])),
+  };
+}
+
+/**
+ * Add the strategies in an export file, replacing ones with the same ID.
+ * Nothing is imported unless every strategy in the file is valid.
+ */
+export async function importStrategies(file: unknown): Promise<{ created: string[]; updated: string[] }> {
+  const strategies = await loadRegistry();
+  const { format, formatVersion, strategies: entries } = (file ?? {}) as Partial<StrategyExportFile>;
+  if (format !== EXPORT_FORMAT || formatVersion !== 1 || !Array.isArray(entries)) {
+    throw new Error(`Not a strategy export file (expected format "${EXPORT_FORMAT}", version 1)`);
+  }
+
+  assertValid(
+    entries.flatMap((entry: unknown, i) => [
+      ...inputProblems(entry).map((problem) => `strategies[${i}]: ${problem}`),
+      ...((entry as StrategyInput).id ? [] : [`strategies[${i}]: "id" is required`]),
+    ])
+  );
+
+  const created: string[] = [];
+  const updated: string[] = [];
+  entries.forEach((entry) => {
+    const existing = strategies.get(entry.id);
+    if (existing) {
+      patch(strategies, existing, omit(entry, 'enabled'));
+      updated.push(entry.id);
+    } else {
+      insert(strategies, entry, 'imported');
+      created.push(entry.id);
+    }
+  });
+
+  await persist(strategies);
+  return { created, updated };
+}
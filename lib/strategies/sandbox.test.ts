@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { StrategyContext } from '@/types';
+import { at, market } from '@/lib/backtesting/test-utils';
+import { compileSandboxedStrategy } from './sandbox';
+
+const markets = [market({ marketId: 'm1' }), market({ marketId: 'm2' })];
+const context: StrategyContext = { mode: 'backtest', asOf: at(10), parameters: { size: 25 } };
+
+const BUY_EVERY_MARKET = `
+  return markets.map((m) => ({
+    marketId: m.marketId,
+    outcome: m.outcomes[0],
+    side: 'buy',
+    amount: parameters.size,
+    priceLimit: clampPrice(0.4),
+    reason: 'test',
+    timestamp: context.asOf,
+  }));
+`;
+
+const compile = (code: string, timeoutMs?: number) => {
+  const errors: string[] = [];
+  const generateBets = compileSandboxedStrategy(
+    code,
+    { name: 'test', parameters: {} },
+    { timeoutMs, onError: (message) => errors.push(message) }
+  );
+  return { generateBets, errors };
+};
+
+describe('compileSandboxedStrategy', () => {
+  it('returns the bets the code places, with dates revived', async () => {
+    const { generateBets, errors } = compile(BUY_EVERY_MARKET);
+    const bets = await generateBets(markets, context);
+
+    expect(errors).toEqual([]);
+    expect(bets.map((b) => b.marketId)).toEqual(['m1', 'm2']);
+    expect(bets[0]).toMatchObject({ outcome: 'Yes', amount: 25, priceLimit: 0.4 });
+    expect(bets[0].timestamp).toEqual(at(10));
+  });
+
+  it('passes training markets through', async () => {
+    const { generateBets } = compile(`if (context.trainingMarkets.length !== 2) return [];${BUY_EVERY_MARKET}`);
+    const bets = await generateBets(markets, { ...context, trainingMarkets: markets });
+    expect(bets).toHaveLength(2);
+  });
+
+  it('throws on syntax errors without running anything', () => {
+    expect(() => compile('return [;')).toThrow();
+  });
+
+  it('reports code that throws and places no bets', async () => {
+    const { generateBets, errors } = compile("throw new Error('boom');");
+    expect(await generateBets(markets, context)).toEqual([]);
+    expect(errors[0]).toContain('boom');
+  });
+
+  it('drops invalid bets', async () => {
+    const { generateBets, errors } = compile(
+      "return [{ marketId: 'nope', outcome: 'Yes', side: 'buy', amount: 1, priceLimit: 0.5, timestamp: context.asOf }];"
+    );
+    expect(await generateBets(markets, context)).toEqual([]);
+    expect(errors[0]).toContain('invalid bet dropped');
+  });
+
+  it('keeps the event loop running while a strategy is stuck', async () => {
+    const { generateBets, errors } = compile('while (true) {}', 200);
+    let ticks = 0;
+    const interval = setInterval(() => ticks++, 20);
+    const bets = await generateBets(markets, context);
+    clearInterval(interval);
+
+    expect(bets).toEqual([]);
+    expect(errors[0]).toContain('200ms CPU limit');
+    expect(ticks).toBeGreaterThan(3);
+  });
+});
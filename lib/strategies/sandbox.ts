@@ -0,0 +1,403 @@
+/**
+ * Strategy Sandbox
+ *
+ * Runs LLM-written generateBets code away from the server's own globals.
+ * Each strategy gets a separate V8 context with no Node APIs, frozen
+ * built-ins and only the whitelisted helpers, all hosted in a worker thread
+ * with a heap limit. Market data goes in and bets come out as JSON, so no
+ * server object is ever reachable from strategy code. Calls are answered by
+ * message, one at a time, so the server's event loop keeps running while a
+ * strategy does; a call that throws, runs past its CPU limit or returns
+ * malformed bets yields no bets and is reported through `onError` instead of
+ * failing the backtest.
+ *
+ * Server only: the browser cannot run generated code.
+ */
+
+import { compileFunction } from 'vm';
+import { Worker } from 'worker_threads';
+import { Bet, PolymarketMarket, Strategy, StrategyContext } from '@/types';
+import { betProblem } from '@/lib/validation';
+
+export const SANDBOX_TIMEOUT_MS = 1000; // CPU time per generateBets call
+export const SANDBOX_MEMORY_MB = 512; // Heap limit for the worker hosting every sandbox
+export const MAX_BETS_PER_CALL = 500;
+
+const DATA_TIMEOUT_MS = 10000; // Parsing market data inside a sandbox
+const RESPONSE_GRACE_MS = 2000; // Transfer time allowed on top of the CPU limit
+
+const STRATEGY_ARGUMENTS = ['markets', 'context', 'parameters'];
+
+export interface SandboxOptions {
+  timeoutMs?: number;
+  onError?: (message: string) => void;
+}
+
+// Evaluated inside each strategy's context before any strategy code runs:
+// installs the helpers, freezes the built-ins, and defines the entry points
+// the worker calls. Returns the inbox the worker passes JSON through.
+const RUNTIME_SOURCE = `(function (generateBets) {
+  'use strict';
+  const global = globalThis;
+  const { parse, stringify } = JSON;
+  const isArray = Array.isArray;
+  const DateConstructor = Date;
+  const toDate = (value) => (value == null ? value : new DateConstructor(value));
+  const parseMarkets = (json) => {
+    const markets = parse(json);
+    for (const market of markets) {
+      market.resolutionDate = toDate(market.resolutionDate);
+      market.endDate = toDate(market.endDate);
+      for (const point of market.historicalPrices) point.timestamp = toDate(point.timestamp);
+      for (const trade of market.trades) trade.timestamp = toDate(trade.timestamp);
+    }
+    return markets;
+  };
+
+  const api = {
+    clampPrice: (price) => Math.max(0.01, Math.min(0.99, price)),
+    mean: (arr) => (arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : 0),
+    sortBy: (arr, fn) => [...arr].sort((a, b) => fn(a) - fn(b)),
+  };
+  for (const name of Object.keys(api)) {
+    Object.defineProperty(global, name, { value: Object.freeze(api[name]), enumerable: true });
+  }
+  for (const name of Object.getOwnPropertyNames(global)) {
+    const value = global[name];
+    if (value && value !== global && (typeof value === 'object' || typeof value === 'function')) {
+      Object.freeze(value);
+      if (value.prototype) Object.freeze(value.prototype);
+    }
+  }
+
+  const inbox = {};
+  let dataset;
+  let call = null;
+  const describe = (error) => {
+    try {
+      return 'threw ' + (error instanceof Error ? error.name + ': ' + error.message : String(error));
+    } catch (e) {
+      return 'threw an unprintable value';
+    }
+  };
+
+  Object.defineProperty(global, '__load', {
+    value: () => {
+      dataset = parseMarkets(inbox.dataset);
+      inbox.dataset = undefined;
+    },
+  });
+  Object.defineProperty(global, '__unload', {
+    value: () => {
+      dataset = undefined;
+    },
+  });
+  // Parsing runs apart from the strategy so it does not eat into its CPU limit
+  Object.defineProperty(global, '__prepare', {
+    value: () => {
+      const markets = parseMarkets(inbox.markets);
+      const context = parse(inbox.context);
+      context.asOf = toDate(context.asOf);
+      if (inbox.evaluation === 'markets') context.evaluationMarkets = markets;
+      else if (inbox.evaluation) context.evaluationMarkets = parseMarkets(inbox.evaluation);
+      if (inbox.withTraining) context.trainingMarkets = dataset;
+      call = { markets: markets, context: context, parameters: parse(inbox.parameters) };
+      inbox.markets = inbox.evaluation = undefined;
+    },
+  });
+  Object.defineProperty(global, '__run', {
+    value: () => {
+      const { markets, context, parameters } = call;
+      call = null;
+      try {
+        const bets = generateBets(markets, context, parameters);
+        if (!isArray(bets)) {
+          return stringify({ error: 'generateBets must return an array of bets, got ' + typeof bets });
+        }
+        return stringify({ bets: bets });
+      } catch (error) {
+        return stringify({ error: describe(error) });
+      }
+    },
+  });
+  return inbox;
+})`;
+
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const { runtimeSource, argumentNames } = workerData;
+const runtime = new vm.Script(runtimeSource, { filename: 'sandbox-runtime.js' });
+const loadScript = new vm.Script('__load()');
+const prepareScript = new vm.Script('__prepare()');
+const unloadScript = new vm.Script('__unload()');
+const runScript = new vm.Script('__run()');
+const sandboxes = new Map();
+let loaded = null;
+
+const reply = (response) => parentPort.postMessage(response);
+
+function compile(message) {
+  try {
+    const context = vm.createContext(Object.create(null), {
+      name: message.name,
+      codeGeneration: { strings: false, wasm: false },
+      microtaskMode: 'afterEvaluate',
+    });
+    const generateBets = vm.compileFunction(message.code, argumentNames, {
+      parsingContext: context,
+      filename: message.name,
+    });
+    const inbox = runtime.runInContext(context)(generateBets);
+    sandboxes.set(message.id, { context, inbox });
+  } catch (error) {
+    sandboxes.set(message.id, { error: 'failed to compile: ' + error.message });
+  }
+}
+
+// Run the scripts in turn, each with its own time limit; the last one's output is the reply
+function execute(message, steps) {
+  const sandbox = sandboxes.get(message.id);
+  if (!sandbox) return { seq: message.seq, error: 'strategy is not compiled in the sandbox' };
+  if (sandbox.error) return { seq: message.seq, error: sandbox.error };
+  Object.assign(sandbox.inbox, message.inbox);
+  let output;
+  for (const [script, timeout, description] of steps) {
+    try {
+      output = script.runInContext(sandbox.context, { timeout });
+    } catch (error) {
+      if (error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        return { seq: message.seq, error: 'exceeded the ' + timeout + 'ms ' + description + ' limit' };
+      }
+      return { seq: message.seq, error: description + ' failed: ' + String(error && error.message) };
+    }
+  }
+  return { seq: message.seq, output };
+}
+
+parentPort.on('message', (message) => {
+  switch (message.type) {
+    case 'compile':
+      compile(message);
+      return;
+    case 'dispose':
+      sandboxes.delete(message.id);
+      if (loaded === message.id) loaded = null;
+      return;
+    case 'load': {
+      // Only one sandbox holds training markets at a time, to bound memory
+      const previous = loaded !== null && loaded !== message.id ? sandboxes.get(loaded) : null;
+      if (previous && previous.context) unloadScript.runInContext(previous.context);
+      loaded = message.id;
+      reply(execute(message, [[loadScript, message.timeout, 'data loading']]));
+      return;
+    }
+    case 'run':
+      reply(
+        execute(message, [
+          [prepareScript, message.dataTimeout, 'data loading'],
+          [runScript, message.timeout, 'CPU'],
+        ])
+      );
+      return;
+  }
+});
+`;
+
+interface SandboxWorker {
+  worker: Worker;
+  pending: Map<number, (response: SandboxResponse | null) => void>; // Waiting callers by sequence number
+  compiled: Set<number>;
+  loaded: { id: number; datasetId: number } | null;
+}
+
+interface SandboxResponse {
+  seq: number;
+  output?: string;
+  error?: string;
+}
+
+let current: SandboxWorker | null = null;
+let nextSandboxId = 0;
+let nextSeq = 0;
+let nextDatasetId = 0;
+const datasetIds = new WeakMap<PolymarketMarket[], number>();
+// Calls run one at a time: loading one strategy's training markets unloads another's
+let queue: Promise<unknown> = Promise.resolve();
+
+// Free a strategy's context once its compiled function is garbage collected
+const disposal = new FinalizationRegistry<number>((id) => {
+  current?.worker.postMessage({ type: 'dispose', id });
+  current?.compiled.delete(id);
+});
+
+function getWorker(): SandboxWorker {
+  if (current) return current;
+
+  const worker = new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: { runtimeSource: RUNTIME_SOURCE, argumentNames: STRATEGY_ARGUMENTS },
+    resourceLimits: { maxOldGenerationSizeMb: SANDBOX_MEMORY_MB },
+  });
+  worker.unref();
+
+  const sandbox: SandboxWorker = { worker, pending: new Map(), compiled: new Set(), loaded: null };
+  worker.on('message', (response: SandboxResponse) => sandbox.pending.get(response.seq)?.(response));
+  worker.on('error', (error) => console.error('Strategy sandbox worker failed:', error));
+  worker.on('exit', () => {
+    if (current === sandbox) current = null;
+    // Killed by its heap limit or replaced: nothing more will be answered
+    sandbox.pending.forEach((settle) => settle(null));
+  });
+  current = sandbox;
+  return sandbox;
+}
+
+/**
+ * Send a request and wait for the worker's answer, or null if it never
+ * comes. A worker that misses the deadline (stuck, or killed by its heap
+ * limit) is replaced.
+ */
+function request(
+  sandbox: SandboxWorker,
+  message: Record<string, unknown>,
+  timeoutMs: number
+): Promise<SandboxResponse | null> {
+  const seq = ++nextSeq;
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      if (current === sandbox) current = null;
+      void sandbox.worker.terminate();
+      settle(null);
+    }, timeoutMs + DATA_TIMEOUT_MS + RESPONSE_GRACE_MS);
+    const settle = (response: SandboxResponse | null) => {
+      clearTimeout(timer);
+      sandbox.pending.delete(seq);
+      resolve(response);
+    };
+    sandbox.pending.set(seq, settle);
+    sandbox.worker.postMessage({ ...message, seq, timeout: timeoutMs, dataTimeout: DATA_TIMEOUT_MS });
+  });
+}
+
+/**
+ * Run a sandbox call once the calls before it have finished
+ */
+function enqueue<T>(call: () => Promise<T>): Promise<T> {
+  const result = queue.then(call);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+const datasetIdOf = (markets: PolymarketMarket[]) => {
+  let id = datasetIds.get(markets);
+  if (id === undefined) {
+    id = ++nextDatasetId;
+    datasetIds.set(markets, id);
+  }
+  return id;
+};
+
+/**
+ * Check one bet returned by strategy code, returning the bet with its
+ * timestamp revived, or why it was rejected
+ */
+function parseBet(raw: unknown, marketsById: Map<string, PolymarketMarket>): Bet | string {
+  const problem = betProblem(raw, marketsById);
+  if (problem) return problem;
+
+  const bet = raw as Bet & { timestamp: string };
+  return { ...bet, reason: bet.reason ?? '', timestamp: new Date(bet.timestamp) };
+}
+
+/**
+ * Compile LLM-written generateBets code into a sandboxed generateBets.
+ * The code sees `markets`, `context` and `parameters` plus the clampPrice,
+ * mean and sortBy helpers. Throws on syntax errors, without running anything.
+ */
+export function compileSandboxedStrategy(
+  code: string,
+  strategy: Pick<Strategy, 'name' | 'parameters'>,
+  options: SandboxOptions = {}
+): Strategy['generateBets'] {
+  const { timeoutMs = SANDBOX_TIMEOUT_MS, onError = () => {} } = options;
+  compileFunction(code, STRATEGY_ARGUMENTS);
+  const id = ++nextSandboxId;
+
+  const run = async (markets: PolymarketMarket[], context: StrategyContext): Promise<Bet[]> => {
+    const sandbox = getWorker();
+    if (!sandbox.compiled.has(id)) {
+      sandbox.worker.postMessage({ type: 'compile', id, code, name: `${strategy.name}.js` });
+      sandbox.compiled.add(id);
+    }
+
+    const training = context?.trainingMarkets;
+    if (training) {
+      const datasetId = datasetIdOf(training);
+      if (sandbox.loaded?.id !== id || sandbox.loaded.datasetId !== datasetId) {
+        const response = await request(
+          sandbox,
+          { type: 'load', id, inbox: { dataset: JSON.stringify(training) } },
+          DATA_TIMEOUT_MS
+        );
+        if (!response || response.error) {
+          onError(response?.error ?? `ran out of memory loading training markets (limit ${SANDBOX_MEMORY_MB}MB)`);
+          return [];
+        }
+        sandbox.loaded = { id, datasetId };
+      }
+    }
+
+    const evaluation = context?.evaluationMarkets;
+    const response = await request(
+      sandbox,
+      {
+        type: 'run',
+        id,
+        inbox: {
+          markets: JSON.stringify(markets),
+          context: JSON.stringify({ mode: context?.mode ?? 'live', asOf: context?.asOf }),
+          evaluation:
+            evaluation === markets ? 'markets' : evaluation ? JSON.stringify(evaluation) : null,
+          parameters: JSON.stringify(context?.parameters ?? strategy.parameters ?? {}),
+          withTraining: Boolean(training),
+        },
+      },
+      timeoutMs
+    );
+    if (!response) {
+      onError(`stopped responding and was restarted (CPU limit ${timeoutMs}ms, memory limit ${SANDBOX_MEMORY_MB}MB)`);
+      return [];
+    }
+    if (response.error) {
+      onError(response.error);
+      return [];
+    }
+
+    const output = JSON.parse(response.output as string) as { bets?: unknown[]; error?: string };
+    if (output.error !== undefined) {
+      onError(output.error);
+      return [];
+    }
+
+    const raw = output.bets ?? [];
+    if (raw.length > MAX_BETS_PER_CALL) {
+      onError(`returned ${raw.length} bets in one call; only the first ${MAX_BETS_PER_CALL} are used`);
+    }
+    const marketsById = new Map(markets.map((m) => [m.marketId, m]));
+    return raw.slice(0, MAX_BETS_PER_CALL).flatMap((item) => {
+      const bet = parseBet(item, marketsById);
+      if (typeof bet === 'string') {
+        onError(`invalid bet dropped: ${bet}`);
+        return [];
+      }
+      return [bet];
+    });
+  };
+
+  const generateBets = (markets: PolymarketMarket[], context: StrategyContext) =>
+    enqueue(() => run(markets, context));
+  disposal.register(generateBets, id);
+  return generateBets;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestResult, StrategyDefinition } from '@/types';
+import {
+  addVersion,
+  diffCode,
+  diffParameters,
+  ensureVersions,
+  latestVersion,
+  recordMetrics,
+  rollbackToVersion,
+  versionsOf,
+} from './versions';
+
+const definition = (fields: Partial<StrategyDefinition> = {}): StrategyDefinition => ({
+  id: 's1',
+  name: 'Strategy',
+  description: 'Test strategy',
+  type: 'ai_generated',
+  parameters: { threshold: 0.5 },
+  code: 'const a = 1;\nreturn [];',
+  ...fields,
+});
+
+const result = (strategyId: string, roi: number) =>
+  ({
+    strategyId,
+    roi,
+    winRate: 50,
+    netProfit: roi * 10,
+    totalBets: 4,
+    metrics: { sharpeRatio: 1, maxDrawdownPercent: 5 },
+  }) as BacktestResult;
+
+describe('diffParameters', () => {
+  it('lists changed, added and removed parameters', () => {
+    expect(diffParameters({ a: 1, b: 2, c: 3 }, { a: 1, b: 5, d: 4 })).toEqual([
+      { name: 'b', before: 2, after: 5 },
+      { name: 'c', before: 3, after: undefined },
+      { name: 'd', before: undefined, after: 4 },
+    ]);
+  });
+});
+
+describe('diffCode', () => {
+  it('is null for identical code', () => {
+    expect(diffCode('return [];', 'return [];')).toBeNull();
+  });
+
+  it('keeps common lines and marks the rest', () => {
+    expect(diffCode('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'added', text: 'x' },
+      { type: 'removed', text: 'b' },
+      { type: 'unchanged', text: 'c' },
+    ]);
+  });
+
+  it('diffs against missing code', () => {
+    expect(diffCode(undefined, 'a')).toEqual([{ type: 'added', text: 'a' }]);
+  });
+});
+
+describe('addVersion', () => {
+  it('starts history at version 1 with nothing to diff', () => {
+    const [first] = addVersion([], definition(), { source: 'initial' });
+    expect(first).toMatchObject({ version: 1, parentVersion: null, parameterChanges: [], codeDiff: null, metrics: null });
+  });
+
+  it('diffs each version against its parent', () => {
+    const initial = addVersion([], definition(), { source: 'initial' });
+    const versions = addVersion(initial, definition({ parameters: { threshold: 0.6 } }), {
+      source: 'improvement',
+      reasoning: 'Tighter threshold',
+    });
+    expect(latestVersion(versions, 's1')).toMatchObject({
+      version: 2,
+      parentVersion: 1,
+      reasoning: 'Tighter threshold',
+      parameterChanges: [{ name: 'threshold', before: 0.5, after: 0.6 }],
+      codeDiff: null,
+    });
+  });
+
+  it('skips improvements and evolution results that change nothing', () => {
+    const versions = addVersion([], definition(), { source: 'initial' });
+    expect(addVersion(versions, definition(), { source: 'improvement' })).toBe(versions);
+    expect(addVersion(versions, definition(), { source: 'evolution' })).toBe(versions);
+    expect(addVersion(versions, definition(), { source: 'generated' })).toHaveLength(2);
+  });
+});
+
+describe('ensureVersions', () => {
+  it('adds an initial version only to strategies without history', () => {
+    const versions = ensureVersions(addVersion([], definition(), { source: 'initial' }), [
+      definition(),
+      definition({ id: 's2' }),
+    ]);
+    expect(versionsOf(versions, 's1')).toHaveLength(1);
+    expect(versionsOf(versions, 's2')).toMatchObject([{ version: 1, source: 'initial' }]);
+  });
+});
+
+describe('recordMetrics', () => {
+  it('measures the latest version once', () => {
+    let versions = addVersion([], definition(), { source: 'initial' });
+    versions = addVersion(versions, definition({ parameters: { threshold: 0.7 } }), { source: 'improvement' });
+    versions = recordMetrics(versions, [result('s1', 12)], 1);
+    versions = recordMetrics(versions, [result('s1', 99)], 2);
+
+    const [first, second] = versionsOf(versions, 's1');
+    expect(first.metrics).toBeNull();
+    expect(second.metrics).toMatchObject({ epoch: 1, roi: 12, netProfit: 120, sharpeRatio: 1, maxDrawdownPercent: 5 });
+  });
+});
+
+describe('rollbackToVersion', () => {
+  it('restores an old definition as a new version', () => {
+    let versions = addVersion([], definition(), { source: 'initial' });
+    versions = addVersion(versions, definition({ code: 'return [];' }), { source: 'improvement' });
+    versions = rollbackToVersion(versions, 's1', 1);
+
+    const rollback = latestVersion(versions, 's1')!;
+    expect(versionsOf(versions, 's1')).toHaveLength(3);
+    expect(rollback).toMatchObject({ version: 3, parentVersion: 2, source: 'rollback', reasoning: 'Rolled back to v1' });
+    expect(rollback.definition).toEqual(definition());
+    expect(rollback.codeDiff).toEqual([
+      { type: 'added', text: 'const a = 1;' },
+      { type: 'unchanged', text: 'return [];' },
+    ]);
+  });
+
+  it('rejects unknown versions', () => {
+    expect(() => rollbackToVersion([], 's1', 4)).toThrow('Strategy s1 has no version 4');
+  });
+});
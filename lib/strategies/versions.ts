@@ -0,0 +1,188 @@
+/**
+ * Strategy Versions
+ *
+ * Every revision of a strategy is kept as a `StrategyVersion`: the full
+ * definition, what changed against its parent (parameters and a line diff
+ * of the code), the LLM's reasoning and the metrics of its first backtest.
+ * Versions are plain data in a flat list, so they travel with simulation
+ * jobs and checkpoints. Rolling back adds a new version that restores an
+ * old definition, so history is never rewritten.
+ */
+
+import { isEqual, maxBy, sortBy, union } from 'lodash';
+import {
+  BacktestResult,
+  CodeDiffLine,
+  ParameterChange,
+  StrategyDefinition,
+  StrategyVersion,
+  StrategyVersionSource,
+  VersionMetrics,
+} from '@/types';
+
+// Past this many lines per side the diff falls back to remove-all/add-all
+const MAX_DIFF_LINES = 2000;
+
+interface VersionOptions {
+  source: StrategyVersionSource;
+  reasoning?: string;
+  metrics?: VersionMetrics | null;
+}
+
+export function diffParameters(
+  before: StrategyDefinition['parameters'],
+  after: StrategyDefinition['parameters']
+): ParameterChange[] {
+  return union(Object.keys(before), Object.keys(after))
+    .filter((name) => !isEqual(before[name], after[name]))
+    .map((name) => ({ name, before: before[name], after: after[name] }));
+}
+
+/**
+ * Line diff of two code versions (longest common subsequence), or null when
+ * they are the same
+ */
+export function diffCode(before = '', after = ''): CodeDiffLine[] | null {
+  if (before === after) return null;
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text) => ({ type: 'removed' as const, text })),
+      ...b.map((text) => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: CodeDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      lines.push({ type: 'added', text: b[j] });
+      j++;
+    } else {
+      lines.push({ type: 'removed', text: a[i] });
+      i++;
+    }
+  }
+  return lines;
+}
+
+export const toVersionMetrics = (result: BacktestResult, epoch: number): VersionMetrics => ({
+  epoch,
+  roi: result.roi,
+  winRate: result.winRate,
+  netProfit: result.netProfit,
+  totalBets: result.totalBets,
+  sharpeRatio: result.metrics.sharpeRatio,
+  maxDrawdownPercent: result.metrics.maxDrawdownPercent,
+});
+
+/**
+ * A strategy's versions, oldest first
+ */
+export const versionsOf = (versions: StrategyVersion[], strategyId: string) =>
+  sortBy(
+    versions.filter((v) => v.strategyId === strategyId),
+    (v) => v.version
+  );
+
+export const latestVersion = (versions: StrategyVersion[], strategyId: string) =>
+  maxBy(
+    versions.filter((v) => v.strategyId === strategyId),
+    (v) => v.version
+  );
+
+/**
+ * Record `definition` as the next version of its strategy. Improvements
+ * and evolution results that change nothing are not recorded.
+ */
+export function addVersion(
+  versions: StrategyVersion[],
+  definition: StrategyDefinition,
+  { source, reasoning, metrics = null }: VersionOptions
+): StrategyVersion[] {
+  // A strategy's first version has nothing to diff against
+  const parent = latestVersion(versions, definition.id);
+  const parameterChanges = parent
+    ? diffParameters(parent.definition.parameters, definition.parameters)
+    : [];
+  const codeDiff = parent ? diffCode(parent.definition.code, definition.code) : null;
+
+  const unchanged = parent && parameterChanges.length === 0 && !codeDiff;
+  if (unchanged && (source === 'improvement' || source === 'evolution')) return versions;
+
+  return [
+    ...versions,
+    {
+      strategyId: definition.id,
+      version: (parent?.version ?? 0) + 1,
+      parentVersion: parent?.version ?? null,
+      source,
+      createdAt: new Date(),
+      definition,
+      parameterChanges,
+      codeDiff,
+      ...(reasoning ? { reasoning } : {}),
+      metrics,
+    },
+  ];
+}
+
+/**
+ * Give strategies without any history their initial version
+ */
+export const ensureVersions = (versions: StrategyVersion[], definitions: StrategyDefinition[]) =>
+  definitions
+    .filter((d) => !latestVersion(versions, d.id))
+    .reduce((acc, d) => addVersion(acc, d, { source: 'initial' }), versions);
+
+/**
+ * Attach backtest results to the latest version of each strategy that has
+ * not been measured yet
+ */
+export function recordMetrics(
+  versions: StrategyVersion[],
+  results: BacktestResult[],
+  epoch: number
+): StrategyVersion[] {
+  const latest = results
+    .map((result) => ({ result, version: latestVersion(versions, result.strategyId) }))
+    .filter(({ version }) => version && !version.metrics);
+
+  return versions.map((v) => {
+    const match = latest.find((l) => l.version === v);
+    return match ? { ...v, metrics: toVersionMetrics(match.result, epoch) } : v;
+  });
+}
+
+/**
+ * Restore an earlier version as a new revision on top of the latest one
+ */
+export function rollbackToVersion(
+  versions: StrategyVersion[],
+  strategyId: string,
+  version: number
+): StrategyVersion[] {
+  const target = versions.find((v) => v.strategyId === strategyId && v.version === version);
+  if (!target) {
+    throw new Error(`Strategy ${strategyId} has no version ${version}`);
+  }
+  return addVersion(versions, target.definition, {
+    source: 'rollback',
+    reasoning: `Rolled back to v${version}`,
+  });
+}
@@ -40,6 +40,8 @@ export interface MarketData {
 
 export interface Condition {
   id: string;
+  payoutNumerators: string[]; // Per outcome, set when the condition is resolved on-chain
+  payoutDenominator: string; // "0" until resolved
   // Add more fields as discovered from the subgraph
 }
 
@@ -90,20 +92,22 @@ export async function querySubgraph<T>(
 }
 
 /**
- * Get order filled events (trades) for a specific token/asset
+ * Get order filled events (trades) for a specific token/asset, optionally
+ * only those after `since` (unix seconds)
  */
 export async function getOrderFilledEvents(
   tokenId: string,
   limit = 1000,
-  skip = 0
+  skip = 0,
+  since = 0
 ): Promise<OrderFilledEvent[]> {
   const query = `
-    query GetOrderFilledEvents($tokenId: String!, $limit: Int!, $skip: Int!) {
+    query GetOrderFilledEvents($tokenId: String!, $limit: Int!, $skip: Int!, $since: BigInt!) {
       orderFilledEvents(
         where: {
           or: [
-            { makerAssetId: $tokenId }
-            { takerAssetId: $tokenId }
+            { makerAssetId: $tokenId, timestamp_gt: $since }
+            { takerAssetId: $tokenId, timestamp_gt: $since }
           ]
         }
         first: $limit
@@ -128,7 +132,7 @@ export async function getOrderFilledEvents(
   const result = await querySubgraph<{ orderFilledEvents: OrderFilledEvent[] }>(
     SUBGRAPH_ENDPOINTS.orderbook,
     query,
-    { tokenId, limit, skip }
+    { tokenId, limit, skip, since: since.toString() }
   );
 
   return result.orderFilledEvents;
@@ -240,6 +244,8 @@ export async function getConditions(
     query GetConditions($conditionIds: [ID!]!, $limit: Int!) {
       conditions(where: { id_in: $conditionIds }, first: $limit) {
         id
+        payoutNumerators
+        payoutDenominator
       }
     }
   `;
@@ -14,17 +14,21 @@ import {
 } from './client';
 import { PricePoint, Trade } from '@/types';
 
+const toUnixSeconds = (date?: Date) => (date ? Math.floor(date.getTime() / 1000) : 0);
+
 /**
- * Build historical price data from trade events
+ * Build historical price data from trade events, optionally only from
+ * trades after `since`
  */
 export async function buildHistoricalPrices(
   tokenId: string,
-  maxPoints = 100
+  maxPoints = 100,
+  since?: Date
 ): Promise<PricePoint[]> {
   try {
     // Get trade events for this token
     const trades = await paginateQuery(
-      (limit, skip) => getOrderFilledEvents(tokenId, limit, skip),
+      (limit, skip) => getOrderFilledEvents(tokenId, limit, skip, toUnixSeconds(since)),
       5000 // Get up to 5000 trades
     );
 
@@ -59,15 +63,17 @@ export async function buildHistoricalPrices(
 }
 
 /**
- * Build trade history from order filled events
+ * Build trade history from order filled events, optionally only those
+ * after `since`
  */
 export async function buildTradeHistory(
   tokenId: string,
-  maxTrades = 100
+  maxTrades = 100,
+  since?: Date
 ): Promise<Trade[]> {
   try {
     const events = await paginateQuery(
-      (limit, skip) => getOrderFilledEvents(tokenId, limit, skip),
+      (limit, skip) => getOrderFilledEvents(tokenId, limit, skip, toUnixSeconds(since)),
       maxTrades
     );
 
@@ -92,6 +98,7 @@ export async function buildTradeHistory(
         outcome: 'Yes', // Will be updated with actual outcome name
         maker: event.maker,
         taker: event.taker,
+        fee: parseFloat(event.fee) / 1e6, // Fee is reported in micro USDC
       };
     });
   } catch (error) {
@@ -101,12 +108,14 @@ export async function buildTradeHistory(
 }
 
 /**
- * Get all token IDs for a condition (market)
+ * Get all token IDs for a condition (market), ordered by outcome index
  */
 export async function getTokenIdsForCondition(conditionId: string): Promise<string[]> {
   try {
     const marketDatas = await getMarketDataByCondition(conditionId);
-    return marketDatas.map((md) => md.id);
+    return [...marketDatas]
+      .sort((a, b) => parseInt(a.outcomeIndex ?? '0') - parseInt(b.outcomeIndex ?? '0'))
+      .map((md) => md.id);
   } catch (error) {
     console.error(`Error getting token IDs for condition ${conditionId}:`, error);
     return [];
@@ -114,18 +123,26 @@ export async function getTokenIdsForCondition(conditionId: string): Promise<stri
 }
 
 /**
- * Build complete historical data for a market using its condition ID
+ * Build complete historical data for a market using its condition ID. Pass
+ * the market's `clobTokenIds` (aligned with `outcomes`) when known; otherwise
+ * the token IDs are looked up in the subgraph. With `since`, only activity
+ * after that time is fetched, for incremental syncs.
  */
 export async function buildMarketHistoricalData(
   conditionId: string,
-  outcomes: string[]
+  outcomes: string[],
+  outcomeTokenIds: string[] = [],
+  since?: Date
 ): Promise<{
   historicalPrices: PricePoint[][];
   trades: Trade[][];
 }> {
   try {
     // Get all token IDs for this condition
-    const tokenIds = await getTokenIdsForCondition(conditionId);
+    const tokenIds =
+      outcomeTokenIds.length > 0
+        ? outcomeTokenIds
+        : await getTokenIdsForCondition(conditionId);
 
     if (tokenIds.length === 0) {
       console.log(`No token IDs found for condition ${conditionId}`);
@@ -145,13 +162,19 @@ export async function buildMarketHistoricalData(
       console.log(`Building data for outcome "${outcomeName}" (token: ${tokenId})`);
 
       // Build price history
-      const prices = await buildHistoricalPrices(tokenId, 100);
-      prices.forEach((p) => (p.outcome = outcomeName));
+      const prices = await buildHistoricalPrices(tokenId, 100, since);
+      prices.forEach((p) => {
+        p.outcome = outcomeName;
+        p.tokenId = tokenId;
+      });
       historicalPricesArray.push(prices);
 
       // Build trade history
-      const trades = await buildTradeHistory(tokenId, 50);
-      trades.forEach((t) => (t.outcome = outcomeName));
+      const trades = await buildTradeHistory(tokenId, 50, since);
+      trades.forEach((t) => {
+        t.outcome = outcomeName;
+        t.tokenId = tokenId;
+      });
       tradesArray.push(trades);
     }
 
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { maxBy, omit } from 'lodash';
+import {
+  generateSyntheticMarket,
+  generateSyntheticMarkets,
+  PRICE_REGIMES,
+  SyntheticMarket,
+} from './synthetic';
+
+const END = new Date(Date.UTC(2025, 0, 1));
+
+// Outcome priced highest at the last hour
+const finalLeader = ({ market }: SyntheticMarket) =>
+  maxBy(
+    market.historicalPrices.filter((p) => p.timestamp.getTime() === END.getTime()),
+    (p) => p.price
+  )?.outcome;
+
+// Everything but the provenance, which records when it was fetched
+const withoutProvenance = ({ market }: SyntheticMarket) => omit(market, 'provenance');
+
+describe('generateSyntheticMarket', () => {
+  it('gives the same market for the same seed', () => {
+    const first = generateSyntheticMarket({ seed: 7, end: END, hours: 24, tradeCount: 20 });
+    const second = generateSyntheticMarket({ seed: 7, end: END, hours: 24, tradeCount: 20 });
+    const other = generateSyntheticMarket({ seed: 8, end: END, hours: 24, tradeCount: 20 });
+
+    expect(withoutProvenance(second)).toEqual(withoutProvenance(first));
+    expect(second.winner).toBe(first.winner);
+    expect(other.market.historicalPrices).not.toEqual(first.market.historicalPrices);
+  });
+
+  it('writes an hourly price per outcome and trades within the window', () => {
+    const { market } = generateSyntheticMarket({ seed: 1, end: END, hours: 24, tradeCount: 30 });
+    const start = END.getTime() - 24 * 60 * 60 * 1000;
+
+    expect(market.historicalPrices).toHaveLength(25 * 2);
+    expect(market.trades).toHaveLength(30);
+    market.trades.forEach((t) => {
+      expect(t.timestamp.getTime()).toBeGreaterThanOrEqual(start);
+      expect(t.timestamp.getTime()).toBeLessThan(END.getTime());
+    });
+    market.historicalPrices.forEach((p) => {
+      expect(p.price).toBeGreaterThanOrEqual(0.01);
+      expect(p.price).toBeLessThanOrEqual(0.99);
+    });
+  });
+
+  it('ends with the winner priced highest in every regime', () => {
+    PRICE_REGIMES.forEach((regime, i) => {
+      const generated = generateSyntheticMarket({ seed: i, regime, end: END, hours: 48, tradeCount: 0 });
+      expect(finalLeader(generated)).toBe(generated.winner);
+    });
+    const categorical = generateSyntheticMarket({ seed: 3, outcomes: ['A', 'B', 'C'], end: END, hours: 48 });
+    expect(finalLeader(categorical)).toBe(categorical.winner);
+  });
+
+  it('records the winner only when resolved', () => {
+    const open = generateSyntheticMarket({ seed: 2, end: END, hours: 12, tradeCount: 0 });
+    const resolved = generateSyntheticMarket({ seed: 2, end: END, hours: 12, tradeCount: 0, resolved: true });
+
+    expect(open.market.resolvedOutcome).toBeNull();
+    expect(resolved.market.resolvedOutcome).toBe(resolved.winner);
+    expect(resolved.market.resolution?.payouts).toHaveLength(2);
+  });
+
+  it('rejects less than an hour of history', () => {
+    expect(() => generateSyntheticMarket({ hours: 0 })).toThrow('at least 1 hour');
+    expect(() => generateSyntheticMarket({ hours: NaN })).toThrow('at least 1 hour');
+  });
+});
+
+describe('generateSyntheticMarkets', () => {
+  it('uses consecutive seeds and ends the markets an hour apart', () => {
+    const markets = generateSyntheticMarkets(3, { seed: 10, end: END, hours: 6, tradeCount: 0 });
+    expect(markets.map((m) => m.market.marketId)).toEqual(['synthetic_10', 'synthetic_11', 'synthetic_12']);
+    expect(markets[2].market.endDate).toEqual(END);
+    expect(markets[0].market.endDate?.getTime()).toBe(END.getTime() - 2 * 60 * 60 * 1000);
+  });
+});
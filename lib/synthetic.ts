@@ -0,0 +1,239 @@
+/**
+ * Synthetic Markets
+ *
+ * Seeded generator for market history, used where the subgraph has none and
+ * for validating strategies against a known answer. The winning outcome is
+ * drawn first, from the opening prices, and the price path drifts towards
+ * it as the market nears its end, so resolution agrees with the prices.
+ * Whales side with the winner more often than not, so copying them has a
+ * real (and known) edge. The same seed always gives the same market.
+ */
+
+import { PolymarketMarket, PricePoint, Trade } from '@/types';
+import { createRandom, DEFAULT_SEED, Random, randomInt, randomNormal } from '@/lib/random';
+import { generatedProvenance } from '@/lib/provenance';
+import { winnerPayouts } from '@/lib/resolution';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type PriceRegime = 'random_walk' | 'trending' | 'mean_reverting' | 'jump';
+
+export const PRICE_REGIMES: PriceRegime[] = ['random_walk', 'trending', 'mean_reverting', 'jump'];
+
+export interface SyntheticMarketOptions {
+  seed?: number;
+  regime?: PriceRegime; // Drawn from the seed when unset
+  outcomes?: string[];
+  startPrices?: number[]; // Opening price of each outcome; an even split when unset
+  end?: Date; // Time of the last price point
+  hours?: number; // Hourly price points before `end`, at least 1
+  tradeCount?: number;
+  whaleShare?: number; // Fraction of trades that are whale trades
+  whaleAccuracy?: number; // Chance a whale trade backs the winner
+  convergence?: number; // How far prices have settled on the winner by `end`: 1 fully, 0 not at all
+  resolved?: boolean; // Record the winner as the resolved outcome
+}
+
+export interface SyntheticMarket {
+  market: PolymarketMarket;
+  winner: string; // Known even when the market is left unresolved
+  regime: PriceRegime;
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS = {
+  outcomes: ['Yes', 'No'],
+  hours: 500,
+  tradeCount: 1250,
+  whaleShare: 0.35,
+  whaleAccuracy: 0.7,
+  convergence: 1,
+  resolved: false,
+};
+
+// Wallets per market: a few whales and a crowd of small traders
+const WHALES = 5;
+const TRADERS = 40;
+
+// Log-odds of a settled market: the winner at about 0.99, the rest near 0
+const SETTLED_SCORES = { winner: 0, loser: -5 };
+
+const address = (random: Random) =>
+  '0x' + Array.from({ length: 40 }, () => randomInt(random, 16).toString(16)).join('');
+
+/**
+ * Index drawn with probability proportional to `weights`
+ */
+function pick(random: Random, weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let target = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/**
+ * One hour of the regime's log-odds process for every outcome
+ */
+function regimeStep(
+  regime: PriceRegime,
+  random: Random,
+  scores: number[],
+  initial: number[],
+  drifts: number[]
+): number[] {
+  return scores.map((score, k) => {
+    switch (regime) {
+      case 'trending':
+        return score + drifts[k] + randomNormal(random) * 0.04;
+      case 'mean_reverting':
+        return score + 0.1 * (initial[k] - score) + randomNormal(random) * 0.1;
+      case 'jump':
+        return score + randomNormal(random) * 0.03 + (random() < 0.02 ? randomNormal(random) * 0.8 : 0);
+      default:
+        return score + randomNormal(random) * 0.08;
+    }
+  });
+}
+
+/**
+ * Prices from log-odds scores, summing to 1 and kept within [0.01, 0.99]
+ */
+function toPrices(scores: number[]): number[] {
+  const max = Math.max(...scores);
+  const weights = scores.map((s) => Math.exp(s - max));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map((w) => Math.min(0.99, Math.max(0.01, w / total)));
+}
+
+/**
+ * Hourly prices and trades for a market. `market` fills the fields the
+ * generator does not decide (question, category and so on). Throws if
+ * `hours` is below 1.
+ */
+export function generateSyntheticMarket(
+  options: SyntheticMarketOptions = {},
+  market: Partial<PolymarketMarket> = {}
+): SyntheticMarket {
+  const { outcomes, hours, tradeCount, whaleShare, whaleAccuracy, convergence, resolved } = {
+    ...DEFAULT_SYNTHETIC_OPTIONS,
+    ...(market.outcomes ? { outcomes: market.outcomes } : {}),
+    ...options,
+  };
+  // The price path divides by `hours`, so zero would give NaN prices
+  if (!(hours >= 1)) {
+    throw new Error(`Synthetic markets need at least 1 hour of history, got ${hours}`);
+  }
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const regime = options.regime ?? PRICE_REGIMES[randomInt(random, PRICE_REGIMES.length)];
+  const end = options.end ?? new Date();
+  const start = end.getTime() - hours * HOUR_MS;
+  const tokenIds = market.outcomeTokenIds ?? [];
+
+  const opening = outcomes.map((_, k) => options.startPrices?.[k] || 1 / outcomes.length);
+  const winnerIndex = pick(random, opening);
+
+  // Prices follow the regime, pulled ever harder towards the settled market
+  // as the end nears
+  const initial = opening.map((p) => Math.log(Math.max(0.01, p)));
+  const drifts = outcomes.map(() => randomNormal(random) * 0.02);
+  let scores = initial;
+  const priceSeries: number[][] = [];
+  const historicalPrices: PricePoint[] = [];
+  for (let hour = 0; hour <= hours; hour++) {
+    if (hour > 0) scores = regimeStep(regime, random, scores, initial, drifts);
+    const pull = convergence * (hour / hours) ** 2;
+    const prices = toPrices(
+      scores.map((s, k) => {
+        const settled = k === winnerIndex ? SETTLED_SCORES.winner : SETTLED_SCORES.loser;
+        return (1 - pull) * s + pull * settled;
+      })
+    );
+    priceSeries.push(prices);
+
+    const timestamp = new Date(start + hour * HOUR_MS);
+    outcomes.forEach((outcome, k) =>
+      historicalPrices.push({ timestamp, price: prices[k], outcome, tokenId: tokenIds[k] })
+    );
+  }
+
+  const whales = Array.from({ length: WHALES }, () => address(random));
+  const traders = Array.from({ length: TRADERS }, () => address(random));
+  const trades: Trade[] = [];
+  for (let i = 0; i < tradeCount; i++) {
+    const offset = random() * hours * HOUR_MS;
+    const prices = priceSeries[Math.floor(offset / HOUR_MS)];
+    const isWhale = random() < whaleShare;
+
+    // Informed whales buy the winner or sell a loser; everyone else trades at random
+    let outcomeIndex = randomInt(random, outcomes.length);
+    let side: Trade['side'] = random() < 0.5 ? 'buy' : 'sell';
+    if (isWhale && random() < whaleAccuracy) {
+      side = outcomeIndex === winnerIndex ? 'buy' : 'sell';
+      if (outcomes.length > 2 && side === 'sell' && random() < 0.5) {
+        outcomeIndex = winnerIndex;
+        side = 'buy';
+      }
+    }
+
+    trades.push({
+      timestamp: new Date(start + offset),
+      side,
+      amount: isWhale
+        ? random() * 9000 + 1000 // $1000-$10000 for whales
+        : random() * 900 + 50, // $50-$950 for regular trades
+      price: Math.max(0.01, Math.min(0.99, prices[outcomeIndex] + (random() - 0.5) * 0.03)),
+      outcome: outcomes[outcomeIndex],
+      tokenId: tokenIds[outcomeIndex],
+      maker: isWhale ? whales[randomInt(random, WHALES)] : traders[randomInt(random, TRADERS)],
+      taker: traders[randomInt(random, TRADERS)],
+    });
+  }
+  trades.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const winner = outcomes[winnerIndex];
+  return {
+    market: {
+      marketId: `synthetic_${options.seed ?? DEFAULT_SEED}`,
+      question: `Synthetic ${regime.replace('_', ' ')} market`,
+      resolutionDate: resolved ? end : null,
+      active: !resolved,
+      endDate: end,
+      ...market,
+      outcomes,
+      historicalPrices,
+      trades,
+      resolvedOutcome: resolved ? winner : null,
+      ...(resolved
+        ? { resolution: { status: 'resolved', payouts: winnerPayouts(outcomes.length, winnerIndex), source: 'synthetic' } }
+        : {}),
+      volume: trades.reduce((sum, t) => sum + t.amount, 0),
+      liquidity: market.liquidity || syntheticLiquidity(random),
+      provenance: generatedProvenance('synthetic'),
+    },
+    winner,
+    regime,
+  };
+}
+
+/**
+ * `count` markets with consecutive seeds, ending an hour apart
+ */
+export function generateSyntheticMarkets(
+  count: number,
+  options: SyntheticMarketOptions = {}
+): SyntheticMarket[] {
+  const seed = options.seed ?? DEFAULT_SEED;
+  const end = options.end ?? new Date();
+  return Array.from({ length: count }, (_, i) =>
+    generateSyntheticMarket({
+      ...options,
+      seed: seed + i,
+      end: new Date(end.getTime() - (count - 1 - i) * HOUR_MS),
+    })
+  );
+}
+
+// Liquidity between $50k-$300k
+export const syntheticLiquidity = (random: Random) => random() * 250000 + 50000;
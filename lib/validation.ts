@@ -0,0 +1,171 @@
+/**
+ * Response Validation
+ *
+ * Shape checks for what the LLM sends back and for bets produced by
+ * generated code. Each check returns a list of human-readable problems
+ * (empty when valid), phrased so they can be fed back to the model.
+ */
+
+import { PolymarketMarket, Strategy } from '@/types';
+import { resolveOutcomeName } from '@/lib/outcomes';
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+function parameterProblems(
+  field: string,
+  parameters: unknown,
+  current: Strategy['parameters'] = {}
+): string[] {
+  if (!isObject(parameters)) return [`"${field}" must be an object of parameter values`];
+
+  return Object.entries(parameters).flatMap(([name, value]) => {
+    if (!isFiniteNumber(value) && typeof value !== 'boolean' && typeof value !== 'string') {
+      return [`"${field}.${name}" must be a number, boolean or string, got ${JSON.stringify(value)}`];
+    }
+    const expected = current[name] === undefined ? undefined : typeof current[name];
+    if (expected && typeof value !== expected) {
+      return [`"${field}.${name}" must stay a ${expected}, got ${typeof value}`];
+    }
+    return [];
+  });
+}
+
+/**
+ * Why a bet's fields are invalid, or null if they are fine. Bets must name
+ * one of `marketsById`; `timestamp` is required for bets from strategy code.
+ */
+export function betProblem(
+  bet: unknown,
+  marketsById: Map<string, PolymarketMarket>,
+  { requireTimestamp = true } = {}
+): string | null {
+  if (!isObject(bet)) return 'bet is not an object';
+
+  const market = typeof bet.marketId === 'string' ? marketsById.get(bet.marketId) : undefined;
+  if (!market) return 'marketId is not one of the markets passed in';
+  if (typeof bet.outcome !== 'string' || resolveOutcomeName(market, bet.outcome) === null) {
+    return `outcome must be one of the market's outcomes (${market.outcomes.join(', ')})`;
+  }
+  if (bet.side !== 'buy' && bet.side !== 'sell') return "side must be 'buy' or 'sell'";
+  if (!isFiniteNumber(bet.amount) || bet.amount <= 0) return 'amount must be a positive number';
+  if (!isFiniteNumber(bet.priceLimit) || bet.priceLimit <= 0 || bet.priceLimit >= 1) {
+    return 'priceLimit must be between 0 and 1';
+  }
+  if (requireTimestamp && (typeof bet.timestamp !== 'string' || isNaN(Date.parse(bet.timestamp)))) {
+    return 'timestamp must be a Date';
+  }
+  if (bet.reason !== undefined && typeof bet.reason !== 'string') return 'reason must be a string';
+  if (bet.expirySeconds !== undefined && (!isFiniteNumber(bet.expirySeconds) || bet.expirySeconds <= 0)) {
+    return 'expirySeconds must be a positive number';
+  }
+  if (bet.intent !== undefined && bet.intent !== 'open' && bet.intent !== 'close') {
+    return "intent must be 'open' or 'close'";
+  }
+  if (bet.probability !== undefined && (!isFiniteNumber(bet.probability) || bet.probability < 0 || bet.probability > 1)) {
+    return 'probability must be between 0 and 1';
+  }
+  if (bet.exit !== undefined) {
+    if (!isObject(bet.exit)) return 'exit must be an object';
+    const exit = bet.exit;
+    if (['takeProfit', 'stopLoss', 'maxHoldSeconds'].some((key) => exit[key] !== undefined && !isFiniteNumber(exit[key]))) {
+      return 'exit rules must be numbers';
+    }
+  }
+  return null;
+}
+
+/**
+ * Problems with a generate_strategy response
+ */
+export function validateGeneratedStrategy(response: unknown): string[] {
+  if (!isObject(response)) return ['Response must be a JSON object'];
+
+  return [
+    ...(isNonEmptyString(response.strategyName) ? [] : ['"strategyName" must be a non-empty string']),
+    ...(typeof response.description === 'string' ? [] : ['"description" must be a string']),
+    ...(response.type === 'ai_generated' ? [] : ['"type" must be "ai_generated"']),
+    ...parameterProblems('parameters', response.parameters),
+    ...(isNonEmptyString(response.generateBetsCode) ? [] : ['"generateBetsCode" must be a non-empty string of JavaScript']),
+    ...(isFiniteNumber(response.expectedROI) ? [] : ['"expectedROI" must be a number']),
+  ];
+}
+
+/**
+ * Problems with an improve_strategy response; improved parameters must keep
+ * the types of the strategy's current ones
+ */
+export function validateStrategyImprovement(
+  response: unknown,
+  currentParameters: Strategy['parameters'] = {}
+): string[] {
+  if (!isObject(response)) return ['Response must be a JSON object'];
+
+  return [
+    ...parameterProblems('improvedParameters', response.improvedParameters, currentParameters),
+    ...(response.generateBetsCode === undefined || isNonEmptyString(response.generateBetsCode)
+      ? []
+      : ['"generateBetsCode" must be a non-empty string of JavaScript when present']),
+    ...(isFiniteNumber(response.expectedImprovementPercent) ? [] : ['"expectedImprovementPercent" must be a number']),
+    ...(typeof response.reasoning === 'string' ? [] : ['"reasoning" must be a string']),
+  ];
+}
+
+/**
+ * Problems with a generate_bets response; every bet must target one of the
+ * markets it was shown
+ */
+export function validateSuggestedBets(response: unknown, markets: PolymarketMarket[]): string[] {
+  if (!isObject(response)) return ['Response must be a JSON object'];
+  if (!Array.isArray(response.bets)) return ['"bets" must be an array'];
+
+  const marketsById = new Map(markets.map((m) => [m.marketId, m]));
+  return response.bets.flatMap((bet: unknown, i: number) => {
+    const problem = betProblem(bet, marketsById, { requireTimestamp: false });
+    if (problem) return [`bets[${i}]: ${problem}`];
+    const { confidence } = bet as Fields;
+    if (!isFiniteNumber(confidence) || confidence < 0 || confidence > 1) {
+      return [`bets[${i}]: confidence must be between 0 and 1`];
+    }
+    return [];
+  });
+}
+
+const STRATEGY_TYPES: Strategy['type'][] = ['copy_trading', 'spike_detection', 'market_making', 'ai_generated'];
+
+const STRATEGY_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Problems with a strategy sent to the registry, by the API or in an import
+ * file. Only `name` is required; with `partial` (an update) nothing is.
+ */
+export function validateStrategyFields(value: unknown, { partial = false } = {}): string[] {
+  if (!isObject(value)) return ['Strategy must be a JSON object'];
+  const has = (field: string) => value[field] !== undefined;
+
+  return [
+    ...(has('id') && !(typeof value.id === 'string' && STRATEGY_ID.test(value.id))
+      ? ['"id" must be 1-64 letters, digits, "_" or "-"']
+      : []),
+    ...((partial && !has('name')) || isNonEmptyString(value.name) ? [] : ['"name" must be a non-empty string']),
+    ...(!has('description') || typeof value.description === 'string' ? [] : ['"description" must be a string']),
+    ...(!has('type') || STRATEGY_TYPES.includes(value.type as Strategy['type'])
+      ? []
+      : [`"type" must be one of ${STRATEGY_TYPES.join(', ')}`]),
+    ...(has('parameters') ? parameterProblems('parameters', value.parameters) : []),
+    ...(!has('code') || isNonEmptyString(value.code) ? [] : ['"code" must be a non-empty string of JavaScript']),
+    ...(!has('tags') || (Array.isArray(value.tags) && value.tags.every(isNonEmptyString))
+      ? []
+      : ['"tags" must be an array of strings']),
+    ...(!has('author') || typeof value.author === 'string' ? [] : ['"author" must be a string']),
+    ...(!has('enabled') || typeof value.enabled === 'boolean' ? [] : ['"enabled" must be a boolean']),
+  ];
+}
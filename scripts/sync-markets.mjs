@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * Sync the local market store through a running app:
+ *
+ *   npm run sync-markets -- [--unresolved=500] [--resolved=2000] [--subgraph]
+ *
+ * `--subgraph` fetches real trade history, incrementally for markets already
+ * stored. APP_URL points at the app (default http://localhost:3000).
+ */
+
+const options = {};
+for (const arg of process.argv.slice(2)) {
+  const [name, value] = arg.replace(/^--/, '').split('=');
+  if (name === 'unresolved') options.unresolvedLimit = parseInt(value);
+  else if (name === 'resolved') options.resolvedLimit = parseInt(value);
+  else if (name === 'subgraph') options.useSubgraph = true;
+  else if (name === 'no-subgraph') options.useSubgraph = false;
+  else {
+    console.error(`Unknown option: ${arg}`);
+    process.exit(1);
+  }
+}
+
+const url = `${process.env.APP_URL || 'http://localhost:3000'}/api/data/sync`;
+console.log(`Syncing markets via ${url}`, options);
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(options),
+});
+const body = await response.json();
+if (!response.ok) {
+  console.error('Sync failed:', body.details ?? body.error);
+  process.exit(1);
+}
+console.log(body);
@@ -4,7 +4,7 @@ import {
   Strategy,
   BacktestResult,
   StrategyBenchmark,
-  SimulationState,
+  StrategyVersion,
 } from '@/types';
 import { defaultStrategies } from '@/lib/strategies';
 
@@ -12,6 +12,7 @@ interface AppState {
   // Data
   markets: PolymarketMarket[];
   strategies: Strategy[];
+  strategyVersions: StrategyVersion[];
   backtestResults: BacktestResult[];
   benchmarks: StrategyBenchmark[];
   historicalStats: any;
@@ -19,19 +20,18 @@ interface AppState {
   // UI State
   isLoading: boolean;
   error: string | null;
-  simulation: SimulationState;
 
   // Actions
   setMarkets: (markets: PolymarketMarket[]) => void;
   setStrategies: (strategies: Strategy[]) => void;
   addStrategy: (strategy: Strategy) => void;
+  setStrategyVersions: (versions: StrategyVersion[]) => void;
   setBacktestResults: (results: BacktestResult[]) => void;
   addBacktestResult: (result: BacktestResult) => void;
   setBenchmarks: (benchmarks: StrategyBenchmark[]) => void;
   setHistoricalStats: (stats: any) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
-  setSimulation: (simulation: Partial<SimulationState>) => void;
   reset: () => void;
 }
 
@@ -39,24 +39,19 @@ export const useStore = create<AppState>((set) => ({
   // Initial state
   markets: [],
   strategies: defaultStrategies,
+  strategyVersions: [],
   backtestResults: [],
   benchmarks: [],
   historicalStats: null,
   isLoading: false,
   error: null,
-  simulation: {
-    isRunning: false,
-    currentEpoch: 0,
-    totalEpochs: 10,
-    progress: 0,
-    logs: [],
-  },
 
   // Actions
   setMarkets: (markets) => set({ markets }),
   setStrategies: (strategies) => set({ strategies }),
   addStrategy: (strategy) =>
     set((state) => ({ strategies: [...state.strategies, strategy] })),
+  setStrategyVersions: (strategyVersions) => set({ strategyVersions }),
   setBacktestResults: (backtestResults) => set({ backtestResults }),
   addBacktestResult: (result) =>
     set((state) => ({
@@ -69,10 +64,6 @@ export const useStore = create<AppState>((set) => ({
   setHistoricalStats: (historicalStats) => set({ historicalStats }),
   setLoading: (isLoading) => set({ isLoading }),
   setError: (error) => set({ error }),
-  setSimulation: (simulation) =>
-    set((state) => ({
-      simulation: { ...state.simulation, ...simulation },
-    })),
   reset: () =>
     set({
       markets: [],
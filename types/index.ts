@@ -5,19 +5,60 @@ export interface PolymarketMarket {
   resolutionDate: Date | null;
   historicalPrices: PricePoint[];
   trades: Trade[];
-  resolvedOutcome: string | null;
+  resolvedOutcome: string | null; // Winning outcome, or a split/invalid label; null until settled
+  resolution?: MarketResolution; // How the market settled, with the payout of each outcome
   volume: number;
   liquidity: number;
   active: boolean;
   endDate: Date | null;
   image?: string;
   category?: string;
+  outcomeTokenIds?: string[]; // CLOB token ID of each outcome, aligned with `outcomes`
+  negRiskEvent?: NegRiskEvent;
+  provenance?: MarketProvenance; // Unset for markets built in code, which count as synthetic
+}
+
+// 'split' pays outcomes a share each (e.g. 50/50); 'invalid' refunds evenly;
+// 'disputed' is a challenged UMA proposal that has not settled yet
+export type ResolutionStatus = 'resolved' | 'split' | 'invalid' | 'disputed';
+
+export type ResolutionSource = 'outcome_prices' | 'uma' | 'chain' | 'gamma' | 'synthetic';
+
+export interface MarketResolution {
+  status: ResolutionStatus;
+  payouts: number[]; // Payout per share of each outcome, aligned with `outcomes`; empty while disputed
+  source: ResolutionSource;
+  umaStatus?: string; // Gamma's UMA oracle status, e.g. 'proposed', 'disputed', 'resolved'
+}
+
+export type MarketDataSource = 'polymarket' | 'synthetic' | 'fixture';
+
+// Which of a market's fields were generated rather than fetched
+export interface SyntheticFields {
+  historicalPrices: boolean;
+  trades: boolean;
+  resolvedOutcome: boolean;
+  volume: boolean;
+  liquidity: boolean;
+}
+
+export interface MarketProvenance {
+  source: MarketDataSource; // Where the market itself came from
+  fetchedAt: Date; // When its data was last fetched or generated
+  synthetic: SyntheticFields;
+}
+
+export interface NegRiskEvent {
+  id: string;
+  title: string;
+  outcome: string; // Candidate this binary market's Yes token stands for
 }
 
 export interface PricePoint {
   timestamp: Date;
   price: number;
   outcome: string;
+  tokenId?: string;
 }
 
 export interface Trade {
@@ -28,16 +69,28 @@ export interface Trade {
   outcome: string;
   maker?: string;
   taker?: string;
+  fee?: number; // Fee paid on the fill in USDC, when the source reports it
+  tokenId?: string;
 }
 
 export interface Bet {
   marketId: string;
   outcome: string;
-  side: 'buy' | 'sell';
+  side: 'buy' | 'sell'; // Selling without a position to close buys the complement at 1 - price
   amount: number;
   priceLimit: number;
   reason: string;
   timestamp: Date;
+  expirySeconds?: number; // How long the limit order rests before it is cancelled
+  intent?: 'open' | 'close'; // 'close' only reduces an existing opposite position
+  exit?: ExitRule;
+  probability?: number; // Strategy's estimate that `outcome` resolves, used by Kelly sizing
+}
+
+export interface ExitRule {
+  takeProfit?: number; // Outcome price that locks in gains (below entry for sells)
+  stopLoss?: number; // Outcome price that cuts losses (above entry for sells)
+  maxHoldSeconds?: number; // Exit at the market price after holding this long
 }
 
 export interface StrategyContext {
@@ -45,6 +98,7 @@ export interface StrategyContext {
   asOf?: Date;
   trainingMarkets?: PolymarketMarket[];
   evaluationMarkets?: PolymarketMarket[];
+  parameters?: Strategy['parameters']; // Parameters to run with, overriding the strategy's own
 }
 
 export interface Strategy {
@@ -52,11 +106,38 @@ export interface Strategy {
   name: string;
   description: string;
   type: 'copy_trading' | 'spike_detection' | 'market_making' | 'ai_generated';
-  generateBets: (markets: PolymarketMarket[], context: StrategyContext) => Bet[];
+  // Sandboxed generated code answers asynchronously, built-in strategies directly
+  generateBets: (markets: PolymarketMarket[], context: StrategyContext) => Bet[] | Promise<Bet[]>;
   parameters: Record<string, any>;
   code?: string;
+  // Event-driven handlers, used instead of generateBets when replaying events
+  onTick?: (tick: PricePoint, market: PolymarketMarket, context: StrategyContext) => Bet[] | void;
+  onTrade?: (trade: Trade, market: PolymarketMarket, context: StrategyContext) => Bet[] | void;
+  onResolution?: (market: PolymarketMarket, context: StrategyContext) => Bet[] | void;
+  sizing?: SizingRule; // Resize opening bets against the bankroll instead of using `amount`
+  uncompiled?: boolean; // Generated code that could not be compiled here, so the strategy cannot run
 }
 
+export type SizingMethod = 'fixed' | 'kelly' | 'fixed_fraction' | 'volatility_target';
+
+export interface SizingRule {
+  method: SizingMethod;
+  kellyFraction?: number; // Share of the full Kelly stake
+  equityFraction?: number; // Stake per bet for fixed_fraction
+  targetVolatility?: number; // Equity share a one-sigma price move may cost
+  volatilityLookback?: number; // Price points used to estimate volatility
+  maxBetFraction?: number; // Largest stake per bet, as a share of equity
+  maxMarketExposure?: number; // Open capital per market, as a share of equity
+  maxCategoryExposure?: number; // Open capital per category, as a share of equity
+}
+
+export type MarketEvent =
+  | { type: 'tick'; timestamp: Date; marketId: string; tick: PricePoint }
+  | { type: 'trade'; timestamp: Date; marketId: string; trade: Trade }
+  | { type: 'resolution'; timestamp: Date; marketId: string; outcome: string };
+
+export type ReplayMode = 'snapshots' | 'events';
+
 export interface BacktestResult {
   strategyId: string;
   strategyName: string;
@@ -68,14 +149,258 @@ export interface BacktestResult {
   totalWinnings: number;
   netProfit: number;
   roi: number;
+  unfilledBets: number;
+  fillRate: number;
+  leakageFlags: number; // Bets rejected for being timestamped after the information they could see
+  rejectionLog: RejectionLogEntry[]; // Every rejected bet and why
+  grossProfit: number; // Net profit before trading costs
+  costBreakdown: CostBreakdown;
   bets: BacktestBet[];
   earningsOverTime: EarningsPoint[];
+  portfolio: PortfolioSummary;
+  metrics: PerformanceMetrics;
+  confidence: ConfidenceIntervals;
+  dataProvenance: DataProvenanceSummary;
+}
+
+// Test markets of a result by whether their data is all real
+export interface DataProvenanceSummary {
+  realMarkets: number;
+  syntheticMarkets: number;
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  level: number; // e.g. 0.95
+}
+
+export interface ConfidenceIntervals {
+  iterations: number;
+  roi: ConfidenceInterval; // Bootstrap over bets
+  winRate: ConfidenceInterval;
+  roiByMarket: ConfidenceInterval; // Bootstrap over whole markets
+  winRateByMarket: ConfidenceInterval;
+  maxDrawdownMedian: number; // % of peak equity under random bet ordering
+  maxDrawdownP95: number;
+  pValue: number; // Chance random bets at the prices paid do at least as well, over bets held to resolution
+  marketsSampled: number;
+}
+
+export interface PerformanceMetrics {
+  sharpeRatio: number; // Annualised, from daily equity returns
+  sortinoRatio: number;
+  maxDrawdown: number; // $ peak-to-trough
+  maxDrawdownPercent: number;
+  maxDrawdownDurationDays: number;
+  profitFactor: number; // Gross profit / gross loss (Infinity with no losses)
+  averageWin: number;
+  averageLoss: number;
+  expectancy: number; // Average PnL per executed bet
+  brierScore: number; // Of the implied probabilities paid for each position
+  logLoss: number;
+  calibration: CalibrationBucket[];
+}
+
+export interface CalibrationBucket {
+  lower: number;
+  upper: number;
+  count: number;
+  averageImplied: number;
+  realizedRate: number;
 }
 
 export interface BacktestBet extends Bet {
-  result: 'win' | 'loss' | 'pending';
+  result: 'win' | 'loss' | 'pending' | 'unfilled' | 'rejected' | 'closed';
   payout: number;
-  cost: number;
+  cost: number; // Collateral locked (or cost basis released on a close) plus trading costs
+  filledAmount: number;
+  fillPrice: number; // Average fill price of the bet's outcome
+  closedAmount?: number; // Shares that closed an opposite open position
+  fills: BacktestFill[];
+  costBreakdown: CostBreakdown;
+  rejectionReason?: string;
+  riskRule?: RiskRule;
+  exitFill?: BacktestExit;
+  realizedAt?: Date; // When the bet's PnL was realised (exit, close or resolution)
+}
+
+export interface BacktestExit {
+  timestamp: Date;
+  price: number; // Outcome price the position was exited at
+  reason: 'take_profit' | 'stop_loss' | 'time';
+}
+
+export interface BacktestFill {
+  timestamp: Date;
+  price: number;
+  amount: number;
+}
+
+export type FillModel = 'limit' | 'instant';
+
+export interface CostBreakdown {
+  fees: number;
+  slippage: number;
+  fixedCosts: number;
+  total: number;
+}
+
+/**
+ * Returns the adverse price move (in probability points) for an order of the
+ * given notional size in a market with the given liquidity
+ */
+export type SlippageCurve = (notional: number, liquidity: number) => number;
+
+export interface CostModel {
+  feeBps: number;              // Fee charged on filled notional, in basis points
+  useObservedFees: boolean;    // Prefer the fee rate seen in the market's own trades
+  slippage: SlippageCurve;
+  fixedCostPerOrder: number;   // Flat $ cost per filled order (gas, relayer)
+}
+
+export interface BacktestOptions {
+  trainingRatio?: number;
+  fillModel?: FillModel;
+  defaultExpirySeconds?: number;
+  costModel?: CostModel;
+  initialBankroll?: number;
+  holdoutRatio?: number; // Final slice of markets kept out of backtests and validation
+  confidenceIterations?: number; // Resampling iterations, 0 disables
+  seed?: number;
+  decisionTimes?: Date[]; // Explicit point-in-time decision schedule
+  decisionIntervalHours?: number; // Spacing of the generated schedule
+  maxDecisionPoints?: number; // Cap on generated decision times per evaluation
+  replayMode?: ReplayMode; // Defaults to 'events' for strategies with event handlers
+  riskLimits?: RiskLimits; // Applied to every strategy's opening bets
+  realDataOnly?: boolean; // Skip markets with any synthetic data
+}
+
+export type ValidationMode = 'holdout' | 'walk_forward' | 'purged_kfold';
+
+export interface ValidationOptions extends BacktestOptions {
+  mode: ValidationMode;
+  folds?: number;
+  trainSegments?: number; // Walk-forward training window, in test-sized segments
+  anchored?: boolean; // Walk-forward with an expanding training window
+  embargoDays?: number; // Purged k-fold gap after each test block
+}
+
+export type SearchMethod = 'grid' | 'random' | 'bayesian';
+
+export type OptimizationObjective = 'roi' | 'sharpe' | 'net_profit';
+
+export interface ParameterRange {
+  name: string;
+  min: number;
+  max: number;
+  step?: number; // Grid spacing; defaults to a handful of evenly spaced values
+  values?: number[]; // Explicit candidate values, used instead of min/max/step
+  integer?: boolean;
+}
+
+export interface OptimizationOptions extends BacktestOptions {
+  method: SearchMethod;
+  ranges: ParameterRange[];
+  iterations?: number; // Trials for random and Bayesian search (grid runs every point)
+  objective?: OptimizationObjective;
+}
+
+export interface OptimizationTrial {
+  rank: number;
+  parameters: Record<string, number>;
+  score: number; // Objective value the trials are ranked by
+  roi: number;
+  sharpeRatio: number;
+  netProfit: number;
+  winRate: number;
+  totalBets: number;
+}
+
+export interface HeatmapCell {
+  x: number;
+  y: number;
+  roi: number; // Best ROI among trials in the cell
+  sharpeRatio: number; // Best Sharpe among trials in the cell
+  trials: number;
+}
+
+export interface ParameterHeatmap {
+  xParameter: string;
+  yParameter: string;
+  xValues: number[];
+  yValues: number[];
+  cells: HeatmapCell[]; // Only cells with at least one trial
+}
+
+export interface OptimizationResult {
+  strategyId: string;
+  strategyName: string;
+  method: SearchMethod;
+  objective: OptimizationObjective;
+  trials: OptimizationTrial[]; // Best first
+  best: OptimizationTrial | null;
+  heatmaps: ParameterHeatmap[];
+  trainingMarkets: number;
+}
+
+export interface EvolutionOptions extends ValidationOptions {
+  populationSize?: number;
+  eliteCount?: number; // Best individuals copied unchanged into the next generation
+  tournamentSize?: number;
+  crossoverRate?: number; // Chance a child mixes two parents rather than cloning one
+  mutationRate?: number; // Chance each parameter is mutated
+  mutationScale?: number; // Mutation step, as a share of the parameter's range
+  hallOfFameSize?: number;
+  objective?: OptimizationObjective;
+}
+
+export interface EvolvedIndividual {
+  id: string;
+  strategyId: string; // Strategy whose parameters are evolved
+  strategyName: string;
+  generation: number; // Generation the individual was born in
+  parents: string[];
+  parameters: Record<string, number>;
+  fitness: number; // Objective score of the out-of-sample validation result
+  result: BacktestResult;
+}
+
+export interface EvolutionCheckpoint {
+  generation: number; // Generations completed
+  genomes: { strategyId: string; parameters: Record<string, number>; parents: string[] }[]; // Next population
+  hallOfFame: EvolvedIndividual[];
+  bornCount: number;
+}
+
+export interface GenerationSummary {
+  generation: number;
+  bestFitness: number;
+  meanFitness: number;
+  best: EvolvedIndividual | null;
+  evaluated: number; // Backtests actually run (repeat parameter sets are cached)
+}
+
+export interface ValidationFold {
+  fold: number;
+  testStart: Date;
+  testEnd: Date;
+  trainingMarkets: number;
+  testMarkets: number;
+  result: BacktestResult;
+}
+
+export interface ValidationResult {
+  strategyId: string;
+  strategyName: string;
+  mode: ValidationMode;
+  folds: ValidationFold[];
+  combined: BacktestResult; // All out-of-sample test bets as one track record
+  meanRoi: number;
+  roiStdDev: number;
+  meanWinRate: number;
+  meanSharpe: number;
+  heldOutMarkets: number;
 }
 
 export interface EarningsPoint {
@@ -84,6 +409,51 @@ export interface EarningsPoint {
   strategyId: string;
 }
 
+export interface EquityPoint {
+  timestamp: Date;
+  cash: number;
+  lockedCapital: number;
+  equity: number; // Cash plus open positions at their latest price
+  utilisation: number; // Locked capital as % of equity
+}
+
+export interface PortfolioSummary {
+  initialBankroll: number;
+  finalCash: number;
+  finalEquity: number;
+  equityCurve: EquityPoint[];
+  averageUtilisation: number;
+  peakUtilisation: number;
+  peakExposure: number; // Largest $ amount locked in open positions
+  rejectedBets: number;
+  haltedAt?: Date; // When the drawdown kill switch stopped new positions
+}
+
+export interface RiskLimits {
+  maxOpenExposure?: number; // Open capital as a share of equity
+  maxCategoryExposure?: number; // Open capital per category, share of equity
+  maxResolutionDateExposure?: number; // Open capital resolving on one day, share of equity
+  maxDailyLoss?: number; // Loss since the start of the day, share of that day's opening equity
+  maxDrawdown?: number; // Fall from peak equity that halts all new positions
+}
+
+export type RiskRule =
+  | 'open_exposure'
+  | 'category_exposure'
+  | 'resolution_date_exposure'
+  | 'daily_loss'
+  | 'drawdown_halt';
+
+export interface RejectionLogEntry {
+  timestamp: Date;
+  marketId: string;
+  outcome: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  rule?: RiskRule; // Set when a risk limit rejected the bet
+  reason: string;
+}
+
 export interface StrategyBenchmark {
   strategyId: string;
   strategyName: string;
@@ -95,6 +465,26 @@ export interface StrategyBenchmark {
   improvementPercent: number;
 }
 
+export interface GeneratedStrategy {
+  strategyName: string;
+  description: string;
+  type: 'ai_generated';
+  parameters: Strategy['parameters'];
+  generateBetsCode?: string;
+  expectedROI: number;
+}
+
+export interface StrategyImprovement {
+  improvedParameters: Strategy['parameters'];
+  generateBetsCode?: string;
+  expectedImprovementPercent: number;
+  reasoning: string;
+}
+
+export interface SuggestedBets {
+  bets: (Omit<Bet, 'timestamp'> & { confidence: number })[];
+}
+
 export interface XSentiment {
   marketId: string;
   sentiment: 'positive' | 'negative' | 'neutral';
@@ -102,10 +492,126 @@ export interface XSentiment {
   tweets: number;
 }
 
-export interface SimulationState {
-  isRunning: boolean;
+export type SimulationMode = 'llm' | 'evolution';
+
+export type SimulationJobStatus = 'running' | 'completed' | 'cancelled' | 'failed' | 'interrupted';
+
+// A strategy as plain data: built-in logic is looked up by ID, generated
+// logic is recompiled from `code`
+export interface StrategyDefinition {
+  id: string;
+  name: string;
+  description: string;
+  type: Strategy['type'];
+  parameters: Strategy['parameters'];
+  code?: string;
+}
+
+export type StrategySource = 'built_in' | 'generated' | 'user' | 'imported';
+
+// A strategy saved in the on-disk registry
+export interface RegisteredStrategy extends StrategyDefinition {
+  source: StrategySource;
+  enabled: boolean; // Disabled strategies stay registered but are not loaded
+  tags: string[];
+  author?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What travels in an export file; enabled state and dates are per install
+export type ExportedStrategy = StrategyDefinition & Pick<RegisteredStrategy, 'tags' | 'author'>;
+
+// Portable file for sharing strategies between installs
+export interface StrategyExportFile {
+  format: 'polymarket-strategies';
+  formatVersion: 1;
+  exportedAt: Date;
+  strategies: ExportedStrategy[];
+}
+
+export type StrategyVersionSource = 'initial' | 'improvement' | 'generated' | 'evolution' | 'rollback';
+
+export interface ParameterChange {
+  name: string;
+  before: unknown; // undefined when the parameter was added
+  after: unknown; // undefined when the parameter was removed
+}
+
+export interface CodeDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface VersionMetrics {
+  epoch: number; // Epoch (or generation) the backtest ran in
+  roi: number;
+  winRate: number;
+  netProfit: number;
+  totalBets: number;
+  sharpeRatio: number;
+  maxDrawdownPercent: number;
+}
+
+// One revision of a strategy; versions of a strategy share its ID
+export interface StrategyVersion {
+  strategyId: string;
+  version: number; // 1 for the first revision
+  parentVersion: number | null;
+  source: StrategyVersionSource;
+  createdAt: Date;
+  definition: StrategyDefinition;
+  parameterChanges: ParameterChange[]; // Against the parent version
+  codeDiff: CodeDiffLine[] | null; // Null when the code did not change
+  reasoning?: string; // The LLM's explanation of the change
+  metrics: VersionMetrics | null; // First backtest of this version, once run
+}
+
+export interface SimulationJobRequest {
+  mode: SimulationMode;
+  epochs: number;
+  strategies: StrategyDefinition[];
+  versions?: StrategyVersion[]; // Lineage so far, extended by the run
+  realDataOnly?: boolean; // Run on markets whose data is all real
+}
+
+// Enough state to continue a run after its last completed epoch
+export interface SimulationCheckpoint {
+  epoch: number;
+  strategies: StrategyDefinition[];
+  firstResults: BacktestResult[]; // Epoch 1, the before-and-after baseline
+  lastResults: BacktestResult[];
+  versions: StrategyVersion[];
+  evolution?: EvolutionCheckpoint;
+}
+
+export interface SimulationJob {
+  id: string;
+  mode: SimulationMode;
+  status: SimulationJobStatus;
+  epochs: number;
+  realDataOnly: boolean;
   currentEpoch: number;
-  totalEpochs: number;
   progress: number;
   logs: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  error?: string;
+  strategies: StrategyDefinition[]; // Strategy pool after the latest epoch
+  results: BacktestResult[];
+  hallOfFame: EvolvedIndividual[];
+  versions: StrategyVersion[];
+  checkpoint: SimulationCheckpoint | null;
 }
+
+export type SimulationJobSummary = Omit<
+  SimulationJob,
+  'logs' | 'strategies' | 'results' | 'hallOfFame' | 'versions' | 'checkpoint'
+>;
+
+export type SimulationJobEvent =
+  | { type: 'snapshot'; job: SimulationJob }
+  | { type: 'log'; lines: string[] }
+  | { type: 'progress'; currentEpoch: number; progress: number; hallOfFame: EvolvedIndividual[] }
+  | { type: 'status'; status: SimulationJobStatus; error?: string };
+